@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LogIn, UserPlus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+
+// Sign in, or register (the admin with ADMIN_BOOTSTRAP_TOKEN, or anyone when ALLOW_SIGNUP is set)
+export default function AuthPage() {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [bootstrapToken, setBootstrapToken] = useState("");
+
+  const authMutation = useMutation({
+    mutationFn: async () => {
+      const body = mode === "register" && bootstrapToken.trim()
+        ? { username: username.trim(), password, bootstrapToken: bootstrapToken.trim() }
+        : { username: username.trim(), password };
+      const response = await apiRequest("POST", `/api/auth/${mode}`, body);
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/auth/me"], user);
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">{mode === "login" ? "Sign in" : "Create account"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              authMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-password"
+              />
+            </div>
+            {mode === "register" && (
+              <div className="space-y-2">
+                <Label htmlFor="bootstrap-token">Admin bootstrap token (optional)</Label>
+                <Input
+                  id="bootstrap-token"
+                  type="password"
+                  autoComplete="off"
+                  value={bootstrapToken}
+                  onChange={(e) => setBootstrapToken(e.target.value)}
+                  data-testid="input-bootstrap-token"
+                />
+              </div>
+            )}
+            {authMutation.error && (
+              <p className="text-sm text-destructive">{authMutation.error.message}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!username.trim() || !password || authMutation.isPending}
+              data-testid="button-auth-submit"
+            >
+              {mode === "login" ? <LogIn className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+              {mode === "login" ? "Sign in" : "Create account"}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => {
+                setMode(mode === "login" ? "register" : "login");
+                authMutation.reset();
+              }}
+              data-testid="button-auth-mode"
+            >
+              {mode === "login" ? "Need an account? Register" : "Have an account? Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,27 +3,46 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { 
   Play, 
   Square, 
   CheckCircle2, 
   XCircle, 
   Clock, 
+  Hourglass,
   Terminal,
   Info,
   AlertTriangle,
   AlertCircle,
   RotateCcw,
-  X
+  Trash2,
+  X,
+  Download,
+  Hand,
+  MessageCircleQuestion,
+  Send,
+  KeyRound,
+  LogOut,
+  Copy
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Task, LogEntry } from "@shared/schema";
+import type { Task, LogEntry, QueueSnapshot, ReplayDivergenceMode, ReplayReport, Extraction, TaskBudget, TaskUsage, PendingApproval, Secret, User, ApiKey } from "@shared/schema";
+import { findTemplateVariables } from "@shared/templates";
 import { useEffect, useRef } from "react";
 
+// Started and not finished: running or paused on the user
+function isActive(status: Task["status"]): boolean {
+  return status === "running" || status === "awaiting_approval" || status === "awaiting_input";
+}
+
 export default function Home() {
   const [prompt, setPrompt] = useState("");
   const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
@@ -32,45 +51,31 @@ export default function Home() {
   const [replayLogs, setReplayLogs] = useState<LogEntry[]>([]);
   const [originalTaskId, setOriginalTaskId] = useState<string | null>(null);
   const [replayTaskId, setReplayTaskId] = useState<string | null>(null);
+  const [divergenceMode, setDivergenceMode] = useState<ReplayDivergenceMode>("continue");
+  const [requireApproval, setRequireApproval] = useState(false);
   const executionLogsEndRef = useRef<HTMLDivElement>(null);
   const replayLogsEndRef = useRef<HTMLDivElement>(null);
   const currentTaskIdRef = useRef<string | null>(null);
   const replayTaskIdRef = useRef<string | null>(null);
 
-  // Clear all data on page load/refresh
-  useEffect(() => {
-    const clearAll = async () => {
-      try {
-        await apiRequest("POST", "/api/tasks/clear-all", {});
-        // Clear local state
-        setCurrentTaskId(null);
-        currentTaskIdRef.current = null;
-        setReplayTaskId(null);
-        replayTaskIdRef.current = null;
-        setOriginalTaskId(null);
-        setSelectedHistoryTaskId(null);
-        setExecutionLogs([]);
-        setReplayLogs([]);
-        // Clear query cache
-        queryClient.setQueryData<Task[]>(["/api/tasks"], []);
-        queryClient.setQueryData<Task | null>(["/api/tasks/current"], null);
-      } catch (error) {
-        console.error("[UI] Failed to clear all data on page load:", error);
-      }
-    };
-    clearAll();
-  }, []); // Only run once on mount
-
   const { data: tasks = [] } = useQuery<Task[]>({
     queryKey: ["/api/tasks"],
     refetchInterval: 2000, // Refetch every 2 seconds to catch task updates
   });
 
-  const { data: currentTask } = useQuery<Task | null>({
-    queryKey: ["/api/tasks/current"],
+  const { data: currentTask } = useQuery<Task>({
+    queryKey: ["/api/tasks", currentTaskId],
+    enabled: !!currentTaskId,
     refetchInterval: currentTaskId ? 1000 : false,
   });
 
+  const { data: queue } = useQuery<QueueSnapshot>({
+    queryKey: ["/api/queue"],
+    enabled: currentTask?.status === "queued",
+    refetchInterval: currentTask?.status === "queued" ? 1000 : false,
+  });
+  const queuePosition = queue?.queued.find((entry) => entry.taskId === currentTask?.id)?.position;
+
   const { data: historicalLogs = [] } = useQuery<LogEntry[]>({
     queryKey: ["/api/tasks", selectedHistoryTaskId, "logs"],
     queryFn: async () => {
@@ -84,7 +89,11 @@ export default function Home() {
 
   const executeMutation = useMutation({
     mutationFn: async (taskPrompt: string) => {
-      const response = await apiRequest("POST", "/api/tasks/execute", { prompt: taskPrompt });
+      // An empty rule set turns on the built-in approval rules
+      const response = await apiRequest("POST", "/api/tasks/execute", {
+        prompt: taskPrompt,
+        approvalRules: requireApproval ? {} : undefined,
+      });
       return await response.json();
     },
     onSuccess: (data: Task) => {
@@ -98,7 +107,6 @@ export default function Home() {
       setReplayTaskId(null);
       replayTaskIdRef.current = null;
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
     },
     onError: (error: any) => {
       const message = error?.message || "Failed to execute task";
@@ -120,21 +128,19 @@ export default function Home() {
   });
 
   const cancelMutation = useMutation({
-    mutationFn: () => apiRequest("POST", "/api/tasks/cancel", {}),
+    mutationFn: (taskId: string) => apiRequest("POST", `/api/tasks/${taskId}/cancel`, {}),
     onSuccess: () => {
-      setCurrentTaskId(null);
-      currentTaskIdRef.current = null;
-      setReplayTaskId(null);
-      replayTaskIdRef.current = null;
-      setOriginalTaskId(null);
+      // The task is marked failed by the server; the completion effect moves it into history
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
     },
   });
 
   const replayMutation = useMutation({
     mutationFn: async (taskId: string) => {
-      const response = await apiRequest("POST", `/api/tasks/${taskId}/replay`, {});
+      // Templated tasks replay with the values they were recorded with; other values are set from history
+      const variables = tasks.find((task) => task.id === taskId)?.replayState?.variables
+        ?? currentTask?.replayState?.variables;
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/replay`, { onDivergence: divergenceMode, variables });
       return await response.json();
     },
     onSuccess: async (data: Task, variables: string) => {
@@ -166,7 +172,6 @@ export default function Home() {
       setSelectedHistoryTaskId(null);
       setPrompt("");
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
     },
   });
 
@@ -181,7 +186,6 @@ export default function Home() {
       replayTaskIdRef.current = null;
       setOriginalTaskId(null);
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
     },
   });
 
@@ -189,39 +193,18 @@ export default function Home() {
     if (currentTask?.status === "completed" || currentTask?.status === "failed") {
       // Invalidate queries to refresh task list and current task
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
       
       // After a delay, clear current task and select it in history
-      // But only if it's not a replay task
-      if (!currentTask.prompt.startsWith("Replay: ")) {
-        setTimeout(() => {
-          setCurrentTaskId(null);
-          currentTaskIdRef.current = null;
-          setSelectedHistoryTaskId(currentTask.id);
-          setReplayTaskId(null);
-          replayTaskIdRef.current = null;
-          setOriginalTaskId(null);
-          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-        }, 3000); // Increased delay to ensure replay button is visible
-      } else {
-        // If it's a replay task that completed, clear ALL state including task history
-        setTimeout(() => {
-          setCurrentTaskId(null);
-          currentTaskIdRef.current = null;
-          setReplayTaskId(null);
-          replayTaskIdRef.current = null;
-          setOriginalTaskId(null);
-          setSelectedHistoryTaskId(null);
-          setExecutionLogs([]);
-          setReplayLogs([]);
-          
-          // Clear task history from query cache (set to empty array)
-          queryClient.setQueryData<Task[]>(["/api/tasks"], []);
-          queryClient.setQueryData<Task | null>(["/api/tasks/current"], null);
-          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-          queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
-        }, 2000);
-      }
+      // (replay tasks show their logs in the Replay Logs section when selected)
+      setTimeout(() => {
+        setCurrentTaskId(null);
+        currentTaskIdRef.current = null;
+        setSelectedHistoryTaskId(currentTask.id);
+        setReplayTaskId(null);
+        replayTaskIdRef.current = null;
+        setOriginalTaskId(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      }, 3000); // Increased delay to ensure replay button is visible
     }
   }, [currentTask?.status, currentTask?.id, currentTask?.replayState, currentTask?.prompt]);
 
@@ -333,24 +316,25 @@ export default function Home() {
           // Task was updated, refresh the tasks list
           console.log("[UI] Task update received, refreshing tasks list");
           queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-          queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
-        } else if (data.type === "tasks_cleared") {
-          // All tasks have been cleared after replay - clear UI state immediately
-          console.log("[UI] Tasks cleared message received, clearing all UI state");
-          setCurrentTaskId(null);
-          currentTaskIdRef.current = null;
-          setReplayTaskId(null);
-          replayTaskIdRef.current = null;
-          setOriginalTaskId(null);
-          setSelectedHistoryTaskId(null);
-          setExecutionLogs([]);
-          setReplayLogs([]);
-          
-          // Clear task history from query cache (set to empty array)
-          queryClient.setQueryData<Task[]>(["/api/tasks"], []);
-          queryClient.setQueryData<Task | null>(["/api/tasks/current"], null);
+        } else if (data.type === "approval_request") {
+          // A task paused on a sensitive step - show the approval prompt straight away
+          queryClient.invalidateQueries({ queryKey: ["/api/tasks", data.taskId] });
+        } else if (data.type === "tasks_deleted") {
+          // Tasks were deleted (by a user or the retention policy) - drop any UI state pointing at them
+          const deletedIds = new Set<string>(data.taskIds);
+          console.log("[UI] Tasks deleted message received:", deletedIds.size);
+          if (currentTaskIdRef.current && deletedIds.has(currentTaskIdRef.current)) {
+            setCurrentTaskId(null);
+            currentTaskIdRef.current = null;
+          }
+          if (replayTaskIdRef.current && deletedIds.has(replayTaskIdRef.current)) {
+            setReplayTaskId(null);
+            replayTaskIdRef.current = null;
+            setReplayLogs([]);
+          }
+          setSelectedHistoryTaskId((selected) => (selected && deletedIds.has(selected) ? null : selected));
+          setOriginalTaskId((original) => (original && deletedIds.has(original) ? null : original));
           queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-          queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
         }
       } catch (error) {
         console.error("[UI] Error parsing WebSocket message:", error);
@@ -364,13 +348,28 @@ export default function Home() {
     return () => ws.close();
   }, []);
 
+  const clearHistoryMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/tasks"),
+    onSuccess: () => {
+      setSelectedHistoryTaskId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
   const handleExecute = () => {
     if (prompt.trim()) {
       executeMutation.mutate(prompt.trim());
     }
   };
 
-  const isExecuting = currentTask?.status === "running";
+  const isExecuting = !!currentTask && (currentTask.status === "queued" || isActive(currentTask.status));
+
+  // Signed in per App's /api/auth/me query; signing out clears every cached query
+  const { data: user } = useQuery<User | null>({ queryKey: ["/api/auth/me"] });
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/logout"),
+    onSuccess: () => queryClient.clear(),
+  });
 
   return (
     <div className="min-h-screen bg-background">
@@ -379,9 +378,24 @@ export default function Home() {
           <div>
             <p className="text-sm text-muted-foreground">AI-powered browser automation agent</p>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="w-2 h-2 rounded-full bg-status-online" data-testid="status-connection" />
-            <span className="text-sm text-muted-foreground">Connected</span>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-status-online" data-testid="status-connection" />
+              <span className="text-sm text-muted-foreground">Connected</span>
+            </div>
+            {user && (
+              <span className="text-sm text-muted-foreground" data-testid="text-username">{user.username}</span>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </Button>
           </div>
         </div>
       </header>
@@ -407,6 +421,18 @@ export default function Home() {
                     }
                   }}
                 />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="require-approval"
+                    checked={requireApproval}
+                    onCheckedChange={setRequireApproval}
+                    disabled={isExecuting}
+                    data-testid="switch-require-approval"
+                  />
+                  <Label htmlFor="require-approval" className="text-sm text-muted-foreground">
+                    Ask before form submissions, purchases and off-site navigation
+                  </Label>
+                </div>
                 <div className="flex items-center justify-between">
                   <span className="text-xs text-muted-foreground">
                     {prompt.length} characters • Press Cmd/Ctrl+Enter to execute
@@ -415,7 +441,7 @@ export default function Home() {
                     {isExecuting && (
                       <Button
                         variant="destructive"
-                        onClick={() => cancelMutation.mutate()}
+                        onClick={() => currentTask && cancelMutation.mutate(currentTask.id)}
                         disabled={cancelMutation.isPending}
                         data-testid="button-cancel"
                       >
@@ -451,6 +477,16 @@ export default function Home() {
                       {currentTask.prompt}
                     </p>
                   </div>
+                  {currentTask.status === "queued" && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Waiting for a free worker...</span>
+                      {queuePosition !== undefined && (
+                        <span className="text-muted-foreground" data-testid="text-queue-position">
+                          #{queuePosition} in queue
+                        </span>
+                      )}
+                    </div>
+                  )}
                   {currentTask.status === "running" && (
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
@@ -462,6 +498,18 @@ export default function Home() {
                       <Progress value={undefined} className="w-full" data-testid="progress-execution" />
                     </div>
                   )}
+                  {currentTask.status === "awaiting_input" && currentTask.pendingQuestion && (
+                    <div className="p-3 border border-status-away/40 rounded-md flex items-start gap-2 text-sm" data-testid="pending-question">
+                      <MessageCircleQuestion className="w-4 h-4 mt-0.5 text-status-away shrink-0" />
+                      <div>
+                        <p className="font-medium">{currentTask.pendingQuestion.question}</p>
+                        <p className="text-xs text-muted-foreground">Answer below the execution logs to continue.</p>
+                      </div>
+                    </div>
+                  )}
+                  {currentTask.status === "awaiting_approval" && currentTask.pendingApproval && (
+                    <ApprovalPrompt taskId={currentTask.id} approval={currentTask.pendingApproval} />
+                  )}
                   {currentTask.status === "completed" && currentTask.duration && (
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Completed in</span>
@@ -470,15 +518,40 @@ export default function Home() {
                       </span>
                     </div>
                   )}
+                  {currentTask.usage && currentTask.usage.calls.length > 0 && (
+                    <UsageSummary usage={currentTask.usage} budget={currentTask.budget} />
+                  )}
+                  {isReplayReport(currentTask.result) && (
+                    <ReplayReportSummary report={currentTask.result} />
+                  )}
+                  {currentTask.extractions && currentTask.extractions.length > 0 && (
+                    <ExtractionsSummary taskId={currentTask.id} extractions={currentTask.extractions} />
+                  )}
                   {currentTask.status === "failed" && currentTask.error && (
                     <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md" data-testid="error-message">
                       <p className="text-sm text-destructive">{currentTask.error}</p>
+                      {currentTask.limitReached && (
+                        <p className="text-xs text-muted-foreground mt-1" data-testid="text-limit-reached">
+                          Stopped by the {currentTask.limitReached} limit
+                        </p>
+                      )}
                     </div>
                   )}
                   {(currentTask.status === "completed" || currentTask.status === "failed") && currentTask.replayState && (
                     <div className="pt-2 border-t">
                       <p className="text-sm font-medium mb-3">Replay Session</p>
                       <div className="flex gap-2">
+                        <Select value={divergenceMode} onValueChange={(value) => setDivergenceMode(value as ReplayDivergenceMode)}>
+                          <SelectTrigger className="h-9 w-44" data-testid="select-divergence-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="continue">On divergence: continue</SelectItem>
+                            <SelectItem value="stop">On divergence: stop</SelectItem>
+                            <SelectItem value="repair">On divergence: repair</SelectItem>
+                            <SelectItem value="heal">On divergence: heal</SelectItem>
+                          </SelectContent>
+                        </Select>
                         <Button
                           variant="default"
                           size="sm"
@@ -528,6 +601,9 @@ export default function Home() {
                     </div>
                   )}
                 </ScrollArea>
+                {currentTask && !replayTaskId && isActive(currentTask.status) && (
+                  <TaskMessageInput task={currentTask} />
+                )}
               </CardContent>
             </Card>
 
@@ -563,12 +639,27 @@ export default function Home() {
                 </CardContent>
               </Card>
             )}
+
+            <SecretsCard />
+            <ApiKeysCard />
           </div>
 
           <div>
             <Card className="sticky top-4">
               <CardHeader>
-                <CardTitle className="text-lg">Task History</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Task History</CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => clearHistoryMutation.mutate()}
+                    disabled={clearHistoryMutation.isPending || !tasks.some((task) => task.status === "completed" || task.status === "failed")}
+                    data-testid="button-clear-history"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Clear history
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-[calc(100vh-200px)]">
@@ -605,10 +696,367 @@ export default function Home() {
   );
 }
 
+function isReplayReport(result: unknown): result is ReplayReport {
+  return typeof result === "object" && result !== null && Array.isArray((result as ReplayReport).divergences);
+}
+
+function ReplayReportSummary({ report }: { report: ReplayReport }) {
+  if (report.divergences.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-replay-report">
+        All {report.steps} steps matched the recording
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1 text-sm" data-testid="text-replay-report">
+      <p className="text-muted-foreground">
+        {report.divergences.length} of {report.steps} steps diverged
+        {report.revision !== undefined && ` · saved as revision ${report.revision}`}
+      </p>
+      {report.divergences.map((divergence) => (
+        <div key={divergence.step} className="flex items-start gap-2 text-xs">
+          <AlertTriangle className="w-3 h-3 mt-0.5 text-status-away shrink-0" />
+          <span className="break-all">
+            Step {divergence.step}:{" "}
+            {divergence.error
+              ? divergence.error
+              : divergence.url
+                ? `expected ${divergence.url.expected}, got ${divergence.url.actual ?? "unknown URL"}`
+                : "screenshot changed"}
+            {divergence.repaired !== undefined && (divergence.repaired ? " (repaired)" : " (repair failed)")}
+            {divergence.healed !== undefined && (divergence.healed ? " (healed)" : " (heal failed)")}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function UsageSummary({ usage, budget }: { usage: TaskUsage; budget?: TaskBudget }) {
+  const totalTokens = usage.promptTokens + usage.completionTokens;
+
+  return (
+    <div className="space-y-1 text-sm" data-testid="text-usage">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Tokens ({usage.calls.length} LLM calls)</span>
+        <span className="font-medium" data-testid="text-usage-tokens">
+          {totalTokens.toLocaleString()}
+          {budget?.maxTokens !== undefined && ` / ${budget.maxTokens.toLocaleString()}`}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {usage.promptTokens.toLocaleString()} prompt (~{usage.imageTokens.toLocaleString()} from screenshots) · {usage.completionTokens.toLocaleString()} completion
+      </p>
+      {usage.costUsd !== undefined && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Estimated cost</span>
+          <span className="font-medium" data-testid="text-usage-cost">
+            ${usage.costUsd.toFixed(4)}
+            {budget?.maxCostUsd !== undefined && ` / $${budget.maxCostUsd.toFixed(2)}`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExtractionsSummary({ taskId, extractions }: { taskId: string; extractions: Extraction[] }) {
+  const invalid = extractions.filter((extraction) => extraction.valid === false).length;
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm" data-testid="text-extractions">
+      <span className="text-muted-foreground">
+        {extractions.length} extraction{extractions.length === 1 ? "" : "s"}
+        {invalid > 0 && <span className="text-status-away"> · {invalid} not matching schema</span>}
+      </span>
+      <div className="flex gap-2">
+        {(["json", "csv"] as const).map((format) => (
+          <Button key={format} variant="outline" size="sm" asChild>
+            <a href={`/api/tasks/${taskId}/extractions?format=${format}`} data-testid={`link-extractions-${format}`}>
+              <Download className="w-4 h-4 mr-2" />
+              {format.toUpperCase()}
+            </a>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ApprovalPrompt({ taskId, approval }: { taskId: string; approval: PendingApproval }) {
+  const [reason, setReason] = useState("");
+  const decideMutation = useMutation({
+    mutationFn: (decision: "approve" | "reject") => apiRequest("POST", `/api/tasks/${taskId}/${decision}`, {
+      approvalId: approval.id,
+      reason: decision === "reject" && reason.trim() ? reason.trim() : undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId] });
+    },
+  });
+  const args = JSON.stringify(approval.arguments);
+
+  return (
+    <div className="p-3 border border-status-away/40 rounded-md space-y-3" data-testid="approval-prompt">
+      <div className="flex items-start gap-2 text-sm">
+        <Hand className="w-4 h-4 mt-0.5 text-status-away shrink-0" />
+        <div className="min-w-0">
+          <p className="font-medium">{approval.reason}</p>
+          <p className="text-xs text-muted-foreground font-mono break-all">
+            {approval.function}{args !== "{}" ? ` ${args}` : ""}
+          </p>
+        </div>
+      </div>
+      {approval.screenshotId && (
+        <a href={`/api/screenshots/${approval.screenshotId}`} target="_blank" rel="noreferrer">
+          <img
+            src={`/api/screenshots/${approval.screenshotId}/thumbnail`}
+            alt="Page before the action"
+            className="rounded border max-h-48"
+            data-testid="img-approval-screenshot"
+          />
+        </a>
+      )}
+      <Input
+        placeholder="Reason for rejecting (optional, told to the model)"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="h-8 text-sm"
+        data-testid="input-reject-reason"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => decideMutation.mutate("approve")}
+          disabled={decideMutation.isPending}
+          data-testid="button-approve"
+        >
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          Approve
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => decideMutation.mutate("reject")}
+          disabled={decideMutation.isPending}
+          data-testid="button-reject"
+        >
+          <XCircle className="w-4 h-4 mr-2" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TaskMessageInput({ task }: { task: Task }) {
+  const [content, setContent] = useState("");
+  const sendMutation = useMutation({
+    mutationFn: (message: string) => apiRequest("POST", `/api/tasks/${task.id}/messages`, { content: message }),
+    onSuccess: () => setContent(""),
+  });
+  const send = () => {
+    if (content.trim()) sendMutation.mutate(content.trim());
+  };
+
+  return (
+    <div className="flex gap-2 mt-3">
+      <Input
+        placeholder={task.pendingQuestion ? "Answer the question..." : "Guide the task, e.g. \"use the second search result\""}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") send();
+        }}
+        disabled={sendMutation.isPending}
+        data-testid="input-task-message"
+      />
+      <Button
+        variant="outline"
+        onClick={send}
+        disabled={!content.trim() || sendMutation.isPending}
+        data-testid="button-send-message"
+      >
+        <Send className="w-4 h-4" />
+        {task.pendingQuestion ? "Answer" : "Send"}
+      </Button>
+    </div>
+  );
+}
+
+// Stored credentials for {{secret:name}} references; values are write-only
+function SecretsCard() {
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const { data: secrets = [], error } = useQuery<Secret[]>({
+    queryKey: ["/api/secrets"],
+    retry: false,
+  });
+  const saveMutation = useMutation({
+    mutationFn: () => secrets.some((secret) => secret.name === name.trim())
+      ? apiRequest("PUT", `/api/secrets/${encodeURIComponent(name.trim())}`, { value })
+      : apiRequest("POST", "/api/secrets", { name: name.trim(), value }),
+    onSuccess: () => {
+      setName("");
+      setValue("");
+      queryClient.invalidateQueries({ queryKey: ["/api/secrets"] });
+    },
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (secretName: string) => apiRequest("DELETE", `/api/secrets/${encodeURIComponent(secretName)}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/secrets"] }),
+  });
+
+  return (
+    <Card data-testid="card-secrets">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          <CardTitle className="text-lg">Secrets</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <p className="text-sm text-muted-foreground">Set SECRETS_KEY on the server to store credentials.</p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Use {"{{secret:name}}"} in a prompt; the value is only filled in when the browser tool runs.
+            </p>
+            {secrets.map((secret) => (
+              <div key={secret.name} className="flex items-center justify-between text-sm" data-testid={`secret-${secret.name}`}>
+                <code className="font-mono">{`{{secret:${secret.name}}}`}</code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(secret.name)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-secret-${secret.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                placeholder="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-secret-name"
+              />
+              <Input
+                type="password"
+                placeholder="value"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                data-testid="input-secret-value"
+              />
+              <Button
+                variant="outline"
+                onClick={() => saveMutation.mutate()}
+                disabled={!name.trim() || !value || saveMutation.isPending}
+                data-testid="button-save-secret"
+              >
+                Save
+              </Button>
+            </div>
+            {saveMutation.error && (
+              <p className="text-xs text-destructive">{saveMutation.error.message}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Keys for calling the API from scripts; each key is shown once, when created
+function ApiKeysCard() {
+  const [name, setName] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const { data: apiKeys = [] } = useQuery<ApiKey[]>({ queryKey: ["/api/auth/api-keys"] });
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/api-keys", { name: name.trim() });
+      return response.json() as Promise<ApiKey & { key: string }>;
+    },
+    onSuccess: (apiKey) => {
+      setName("");
+      setCreatedKey(apiKey.key);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/api-keys"] });
+    },
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/auth/api-keys/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/auth/api-keys"] }),
+  });
+
+  return (
+    <Card data-testid="card-api-keys">
+      <CardHeader>
+        <CardTitle className="text-lg">API Keys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Send a key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> to use the API from scripts.
+        </p>
+        {createdKey && (
+          <div className="flex items-center gap-2 rounded-md border p-2" data-testid="text-created-api-key">
+            <code className="font-mono text-xs break-all flex-1">{createdKey}</code>
+            <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(createdKey)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {apiKeys.map((apiKey) => (
+          <div key={apiKey.id} className="flex items-center justify-between text-sm" data-testid={`api-key-${apiKey.id}`}>
+            <span>
+              {apiKey.name} <code className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</code>
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(apiKey.id)}
+              disabled={deleteMutation.isPending}
+              data-testid={`button-delete-api-key-${apiKey.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Key name, e.g. nightly-jobs"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-api-key-name"
+          />
+          <Button
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+            data-testid="button-create-api-key"
+          >
+            Create
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function StatusBadge({ status }: { status: Task["status"] }) {
   const config = {
     idle: { label: "Idle", variant: "secondary" as const, icon: Clock },
+    queued: { label: "Queued", variant: "secondary" as const, icon: Hourglass },
     running: { label: "Running", variant: "default" as const, icon: Play },
+    awaiting_approval: { label: "Awaiting approval", variant: "outline" as const, icon: Hand },
+    awaiting_input: { label: "Awaiting input", variant: "outline" as const, icon: MessageCircleQuestion },
     completed: { label: "Completed", variant: "default" as const, icon: CheckCircle2 },
     failed: { label: "Failed", variant: "destructive" as const, icon: XCircle },
   };
@@ -655,7 +1103,7 @@ function LogLine({ log }: { log: LogEntry }) {
         <span className="text-xs text-muted-foreground shrink-0">{timestamp}</span>
         <Icon className={`w-4 h-4 shrink-0 mt-0.5 ${color}`} />
         <span className={`text-xs ${color} break-all flex-1`}>{log.message}</span>
-        {log.screenshot && (
+        {log.screenshotId && (
           <Button
             size="sm"
             variant="ghost"
@@ -663,19 +1111,22 @@ function LogLine({ log }: { log: LogEntry }) {
             onClick={() => setShowScreenshot(!showScreenshot)}
             data-testid={`button-screenshot-${log.id}`}
           >
-            {showScreenshot ? "Hide" : "View"} Screenshot
+            {showScreenshot ? "Hide" : "Full"} Screenshot
           </Button>
         )}
       </div>
-      {showScreenshot && log.screenshot && (
+      {log.screenshotId && (
+        // Thumbnails load lazily as the log scrolls into view; the full image only on request
         <div className="w-full mt-2 rounded-md border overflow-hidden bg-black/5 dark:bg-white/5">
           <img
-            src={log.screenshot}
+            src={showScreenshot ? `/api/screenshots/${log.screenshotId}` : `/api/screenshots/${log.screenshotId}/thumbnail`}
             alt="Browser screenshot"
-            className="w-full h-auto max-h-[600px] object-contain"
+            loading="lazy"
+            className={showScreenshot ? "w-full h-auto max-h-[600px] object-contain" : "h-32 w-auto object-contain cursor-zoom-in"}
+            onClick={() => setShowScreenshot(true)}
             data-testid={`img-screenshot-${log.id}`}
             onError={(e) => {
-              console.error("Failed to load screenshot:", log.screenshot?.substring(0, 50));
+              console.error("Failed to load screenshot:", log.screenshotId);
               e.currentTarget.style.display = "none";
             }}
           />
@@ -694,14 +1145,20 @@ function TaskHistoryItem({
   isSelected: boolean;
   onSelect: () => void;
 }) {
+  const variableNames = task.replayState ? findTemplateVariables(task.replayState) : [];
+  const [variableValues, setVariableValues] = useState<Record<string, string>>(() => ({
+    ...task.replayState?.variables,
+  }));
+  const missingVariables = variableNames.some((name) => !variableValues[name]);
+
   const replayMutation = useMutation({
     mutationFn: async (taskId: string) => {
-      const response = await apiRequest("POST", `/api/tasks/${taskId}/replay`, {});
+      const variables = Object.fromEntries(variableNames.map((name) => [name, variableValues[name]]));
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/replay`, { variables });
       return await response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks/current"] });
     },
   });
 
@@ -715,6 +1172,21 @@ function TaskHistoryItem({
     },
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const response = await apiRequest("DELETE", `/api/tasks/${taskId}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteMutation.mutate(task.id);
+  };
+
   const handleReplay = (e: React.MouseEvent) => {
     e.stopPropagation();
     replayMutation.mutate(task.id);
@@ -747,12 +1219,44 @@ function TaskHistoryItem({
               minute: "2-digit",
             })}
           </span>
-          {task.duration && (
-            <span data-testid={`text-task-duration-${task.id}`}>
-              {(task.duration / 1000).toFixed(1)}s
-            </span>
-          )}
+          <div className="flex items-center gap-2">
+            {task.duration && (
+              <span data-testid={`text-task-duration-${task.id}`}>
+                {(task.duration / 1000).toFixed(1)}s
+              </span>
+            )}
+            {(task.status === "completed" || task.status === "failed") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-task-${task.id}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
         </div>
+        {(task.status === "completed" || task.status === "failed") && task.replayState && variableNames.length > 0 && (
+          <div className="space-y-2 pt-2 border-t" onClick={(e) => e.stopPropagation()}>
+            {variableNames.map((name) => (
+              <div key={name} className="flex items-center gap-2">
+                <label htmlFor={`variable-${task.id}-${name}`} className="text-xs font-mono text-muted-foreground w-20 truncate">
+                  {name}
+                </label>
+                <Input
+                  id={`variable-${task.id}-${name}`}
+                  className="h-7 text-xs"
+                  value={variableValues[name] ?? ""}
+                  onChange={(e) => setVariableValues((values) => ({ ...values, [name]: e.target.value }))}
+                  data-testid={`input-variable-${task.id}-${name}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
         {(task.status === "completed" || task.status === "failed") && task.replayState && (
           <div className="flex gap-2 pt-2 border-t">
             <Button
@@ -760,7 +1264,7 @@ function TaskHistoryItem({
               size="sm"
               className="flex-1"
               onClick={handleReplay}
-              disabled={replayMutation.isPending}
+              disabled={replayMutation.isPending || missingVariables}
               data-testid={`button-replay-${task.id}`}
             >
               <RotateCcw className="w-3 h-3 mr-1" />
@@ -0,0 +1,37 @@
+CREATE TABLE "logs" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"task_id" varchar NOT NULL,
+	"timestamp" bigint NOT NULL,
+	"level" text NOT NULL,
+	"message" text NOT NULL,
+	"details" jsonb,
+	"screenshot" text
+);
+--> statement-breakpoint
+CREATE TABLE "replay_actions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"function" text NOT NULL,
+	"arguments" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"prompt" text NOT NULL,
+	"status" text NOT NULL,
+	"created_at" bigint NOT NULL,
+	"completed_at" bigint,
+	"duration" integer,
+	"result" jsonb,
+	"error" text,
+	"replay_session_id" text,
+	"replay_url" text,
+	"replay_pages" jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "logs" ADD CONSTRAINT "logs_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "replay_actions" ADD CONSTRAINT "replay_actions_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "logs_task_id_idx" ON "logs" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX "replay_actions_task_id_idx" ON "replay_actions" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX "tasks_created_at_idx" ON "tasks" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "llm" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "replay_actions" ADD COLUMN "checkpoint" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "replay_actions" ADD COLUMN "revision" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "replay_revision" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "replay_variables" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "output_schema" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "extractions" jsonb;
\ No newline at end of file
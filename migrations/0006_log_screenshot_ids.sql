@@ -0,0 +1 @@
+ALTER TABLE "logs" ADD COLUMN "screenshot_id" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "budget" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "usage" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "context_strategy" jsonb;
\ No newline at end of file
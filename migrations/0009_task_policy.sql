@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "policy" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "limit_reached" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "tool_policy" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "approval_rules" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pending_approval" jsonb;
\ No newline at end of file
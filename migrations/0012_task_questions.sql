@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "pending_question" jsonb;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "secrets" (
+	"name" varchar PRIMARY KEY NOT NULL,
+	"ciphertext" text NOT NULL,
+	"created_at" bigint NOT NULL,
+	"updated_at" bigint NOT NULL
+);
@@ -0,0 +1,27 @@
+CREATE TABLE "api_keys" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"created_at" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"created_at" bigint NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "secrets" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "secrets" DROP CONSTRAINT "secrets_pkey";--> statement-breakpoint
+ALTER TABLE "secrets" ADD CONSTRAINT "secrets_workspace_id_name_pk" PRIMARY KEY("workspace_id","name");--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "api_keys_key_hash_idx" ON "api_keys" USING btree ("key_hash");--> statement-breakpoint
+CREATE INDEX "api_keys_user_id_idx" ON "api_keys" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "users_username_idx" ON "users" USING btree ("username");--> statement-breakpoint
+CREATE INDEX "logs_screenshot_id_idx" ON "logs" USING btree ("screenshot_id");--> statement-breakpoint
+CREATE INDEX "tasks_workspace_id_idx" ON "tasks" USING btree ("workspace_id");
\ No newline at end of file
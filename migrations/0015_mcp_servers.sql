@@ -0,0 +1,2 @@
+ALTER TABLE "replay_actions" ADD COLUMN "server" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "mcp_servers" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "logs" ADD COLUMN IF NOT EXISTS "screenshot" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { MockMcpServer } from "../mock-mcp-server";
+
+// MockMcpServer over stdio, run as a child process by McpClient's stdio tests.
+// stdout carries the protocol, so anything else goes to stderr.
+const server = new MockMcpServer({
+  pages: {
+    "https://example.com/": { title: "Example Domain", text: "This domain is for use in examples." },
+  },
+});
+
+server.connect(new StdioServerTransport()).then(() => {
+  console.error(`Mock MCP server ready (${process.env.MOCK_GREETING ?? "no greeting"})`);
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { approvalRulesSchema } from "@shared/schema";
+import { ApprovalChecker, type ApprovalRequest } from "./approvals";
+import { McpClient } from "./mcp-client";
+import { MockMcpServer } from "./mock-mcp-server";
+import { Orchestrator } from "./orchestrator";
+import { ScriptedLlmProvider } from "./llm-provider";
+
+const defaults = approvalRulesSchema.parse({});
+const act = (action: string) => ({ function: "browserbase_stagehand_act", arguments: { action } });
+const navigate = (url: string) => ({ function: "browserbase_stagehand_navigate", arguments: { url } });
+
+describe("ApprovalChecker", () => {
+  it("flags form submissions and purchases with the built-in rules", () => {
+    const checker = new ApprovalChecker(defaults);
+
+    expect(checker.check(act("Click the Submit button"))).toBe("Form submission: Click the Submit button");
+    expect(checker.check(act("Press Place order"))).toBe("Purchase: Press Place order");
+    expect(checker.check(act("Click the More information link"))).toBeNull();
+    expect(new ApprovalChecker({ ...defaults, purchases: false }).check(act("Buy now"))).toBeNull();
+  });
+
+  it("flags navigation away from the first page's domain", () => {
+    const checker = new ApprovalChecker(defaults);
+    const home = "https://example.com/start";
+
+    expect(checker.check(navigate("https://example.com/other"), home)).toBeNull();
+    expect(checker.check(navigate("https://www.example.com"), home)).toBeNull();
+    expect(checker.check(navigate("https://example.org"), home)).toBe("Navigation off example.com to example.org");
+    // The first navigation sets the domain
+    expect(checker.check(navigate("https://example.org"))).toBeNull();
+  });
+
+  it("applies extra action patterns and tool names", () => {
+    const checker = new ApprovalChecker(approvalRulesSchema.parse({
+      formSubmissions: false,
+      actionPatterns: ["delete"],
+      tools: ["browserbase_stagehand_agent*"],
+    }));
+
+    expect(checker.check(act("Delete the draft"))).toBe("Matches /delete/: Delete the draft");
+    expect(checker.check({ function: "browserbase_stagehand_agent", arguments: {} }))
+      .toBe("browserbase_stagehand_agent requires approval");
+    expect(checker.check(act("Submit the form"))).toBeNull();
+  });
+});
+
+describe("Orchestrator approvals", () => {
+  const server = new MockMcpServer({
+    pages: { "https://example.com": { title: "Example Domain", actions: { "submit": "https://example.com" } } },
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  function run(approved: boolean, reason?: string) {
+    const mcpClient = new McpClient({ url: server.url });
+    const callFunction = vi.spyOn(mcpClient, "callFunction");
+    const requests: ApprovalRequest[] = [];
+    const llm = new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: "https://example.com" }),
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_act", { action: "Click submit" }),
+      ScriptedLlmProvider.reply("Done"),
+    ]);
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm,
+      model: "scripted",
+      onLog: async () => {},
+      approvals: {
+        rules: defaults,
+        request: async (request) => {
+          requests.push(request);
+          return { approved, reason };
+        },
+      },
+    });
+    return { orchestrator, llm, requests, calledTools: () => callFunction.mock.calls.map(([call]) => call.function) };
+  }
+
+  it("runs an approved call, sending the current screenshot with the request", async () => {
+    const { orchestrator, requests, calledTools } = run(true);
+
+    const result = await orchestrator.execute("Submit the form on example.com");
+
+    expect(result.success).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      function: "browserbase_stagehand_act",
+      arguments: { action: "Click submit" },
+      reason: "Form submission: Click submit",
+    });
+    expect(requests[0].screenshot).toMatch(/^data:image\//);
+    expect(calledTools()).toContain("browserbase_stagehand_act");
+  });
+
+  it("tells the model a rejected call was not run", async () => {
+    const { orchestrator, llm, calledTools } = run(false, "Not on a weekday");
+
+    const result = await orchestrator.execute("Submit the form on example.com");
+
+    expect(result.success).toBe(true);
+    expect(calledTools()).not.toContain("browserbase_stagehand_act");
+    expect(llm.requests[2].messages).toContainEqual(expect.objectContaining({
+      role: "tool",
+      content: "Error: The user rejected this action: Not on a weekday. Do not try it again; find another way or finish the task.",
+    }));
+  });
+});
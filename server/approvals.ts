@@ -0,0 +1,80 @@
+import type { ApprovalRules, McpFunctionCall } from "@shared/schema";
+import { describeAct, matchesName } from "./tool-policy";
+
+const FORM_SUBMISSION = /\b(submit|send|sign ?up|register|log ?in|sign ?in)\b/i;
+const PURCHASE = /\b(buy|purchase|check ?out|place (an |the )?order|pay)\b/i;
+
+/** A tool call the orchestrator needs a user's go-ahead for */
+export interface ApprovalRequest {
+  function: string;
+  arguments: Record<string, any>;
+  /** Which rule matched, shown to the user */
+  reason: string;
+  /** The page when the call was proposed */
+  screenshot?: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  /** Why the user rejected it, passed on to the model */
+  reason?: string;
+}
+
+function isSameSite(host: string, home: string): boolean {
+  return host === home || host.endsWith(`.${home}`) || home.endsWith(`.${host}`);
+}
+
+function hostOf(url: unknown): string | null {
+  try {
+    return new URL(String(url)).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decides which tool calls need approval under a task's approval rules
+ */
+export class ApprovalChecker {
+  private rules: ApprovalRules;
+
+  constructor(rules: ApprovalRules) {
+    this.rules = rules;
+  }
+
+  /**
+   * Why a call needs approval, or null if it can run straight away.
+   * `homeUrl` is the first page the task opened; off-domain navigation is
+   * judged against it.
+   */
+  check(call: Pick<McpFunctionCall, "function" | "arguments">, homeUrl?: string): string | null {
+    const args = call.arguments ?? {};
+    if (this.rules.tools.some((pattern) => matchesName(pattern, call.function))) {
+      return `${call.function} requires approval`;
+    }
+
+    if (call.function === "browserbase_stagehand_act") {
+      const texts = describeAct(args);
+      const text = texts[0] ?? "";
+      if (this.rules.purchases && texts.some((candidate) => PURCHASE.test(candidate))) {
+        return `Purchase: ${text}`;
+      }
+      if (this.rules.formSubmissions && texts.some((candidate) => FORM_SUBMISSION.test(candidate))) {
+        return `Form submission: ${text}`;
+      }
+      const pattern = this.rules.actionPatterns.find((pattern) => texts.some((candidate) => new RegExp(pattern, "i").test(candidate)));
+      if (pattern) {
+        return `Matches /${pattern}/: ${text}`;
+      }
+    }
+
+    if (call.function === "browserbase_stagehand_navigate" && this.rules.offDomain && homeUrl) {
+      const home = hostOf(homeUrl);
+      const host = hostOf(args.url);
+      if (home && (!host || !isSameSite(host, home))) {
+        return `Navigation off ${home} to ${host ?? args.url}`;
+      }
+    }
+    return null;
+  }
+}
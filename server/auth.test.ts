@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import { DEFAULT_WORKSPACE_ID } from "@shared/schema";
+import { Auth, AuthError, hashPassword, requireAuth, verifyPassword } from "./auth";
+import { MemStorage } from "./storage";
+
+const alice = { username: "alice", password: "correct horse" };
+const bob = { username: "bob", password: "battery staple" };
+const BOOTSTRAP_TOKEN = "let-me-in";
+
+// Auth whose first user, alice, has claimed the default workspace
+async function withOwner(options: { allowSignup?: boolean } = {}) {
+  const auth = new Auth({ storage: new MemStorage(), bootstrapToken: BOOTSTRAP_TOKEN, ...options });
+  const owner = await auth.register({ ...alice, bootstrapToken: BOOTSTRAP_TOKEN });
+  return { auth, owner };
+}
+
+function request(headers: Record<string, string> = {}, userId?: string) {
+  return { headers, session: userId ? { userId } : undefined } as unknown as Request;
+}
+
+describe("passwords", () => {
+  it("verifies a password against its salted hash", async () => {
+    const hash = await hashPassword("hunter22");
+
+    expect(hash).not.toContain("hunter22");
+    expect(await hashPassword("hunter22")).not.toBe(hash);
+    expect(await verifyPassword("hunter22", hash)).toBe(true);
+    expect(await verifyPassword("hunter23", hash)).toBe(false);
+    expect(await verifyPassword("hunter22", "not-a-hash")).toBe(false);
+  });
+});
+
+describe("Auth", () => {
+  it("puts the first user with the bootstrap token in the default workspace, once", async () => {
+    const auth = new Auth({ storage: new MemStorage(), bootstrapToken: BOOTSTRAP_TOKEN });
+
+    const [first, second] = await Promise.allSettled([
+      auth.register({ ...alice, bootstrapToken: BOOTSTRAP_TOKEN }),
+      auth.register({ ...bob, bootstrapToken: BOOTSTRAP_TOKEN }),
+    ]);
+
+    expect(first).toMatchObject({ status: "fulfilled", value: { username: "alice", workspaceId: DEFAULT_WORKSPACE_ID } });
+    expect(second).toMatchObject({ status: "rejected", reason: expect.any(AuthError) });
+    expect((second as PromiseRejectedResult).reason.status).toBe(409);
+    await expect(auth.register(bob)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("never grants the default workspace without the bootstrap token", async () => {
+    const storage = new MemStorage();
+    const closed = new Auth({ storage, bootstrapToken: BOOTSTRAP_TOKEN });
+    const open = new Auth({ storage, allowSignup: true, bootstrapToken: BOOTSTRAP_TOKEN });
+
+    await expect(closed.register(alice)).rejects.toMatchObject({ status: 403 });
+    await expect(closed.register({ ...alice, bootstrapToken: "guess" })).rejects.toMatchObject({ status: 403 });
+    await expect(new Auth({ storage }).register({ ...alice, bootstrapToken: "" })).rejects.toMatchObject({ status: 403 });
+    const user = await open.register(alice);
+
+    expect(user.workspaceId).not.toBe(DEFAULT_WORKSPACE_ID);
+    expect(await storage.countUsers(DEFAULT_WORKSPACE_ID)).toBe(0);
+  });
+
+  it("gives later users their own workspace when sign-up is open", async () => {
+    const { auth } = await withOwner({ allowSignup: true });
+
+    const user = await auth.register(bob);
+
+    expect(user.workspaceId).not.toBe(DEFAULT_WORKSPACE_ID);
+    await expect(auth.register(bob)).rejects.toMatchObject({ status: 409, message: "Username bob is taken" });
+  });
+
+  it("adds users to an existing workspace and logs them in", async () => {
+    const { auth, owner } = await withOwner();
+
+    const added = await auth.addUser(owner.workspaceId, bob);
+
+    expect(added.workspaceId).toBe(owner.workspaceId);
+    expect(await auth.login(bob)).toEqual(added);
+    expect(await auth.login({ ...bob, password: "wrong password" })).toBeUndefined();
+    expect(await auth.login({ username: "carol", password: "whatever1" })).toBeUndefined();
+    expect(added).not.toHaveProperty("passwordHash");
+  });
+
+  it("authenticates requests by API key or session", async () => {
+    const { auth, owner: user } = await withOwner();
+    const { key, ...apiKey } = await auth.createApiKey(user, "scripts");
+
+    expect(await auth.listApiKeys(user)).toEqual([apiKey]);
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(await auth.authenticate(request({ authorization: `Bearer ${key}` }))).toEqual(user);
+    expect(await auth.authenticate(request({ "x-api-key": key }))).toEqual(user);
+    expect(await auth.authenticate(request({}, user.id))).toEqual(user);
+    // A bad key is not rescued by a valid session
+    expect(await auth.authenticate(request({ authorization: "Bearer bo_wrong" }, user.id))).toBeUndefined();
+
+    expect(await auth.deleteApiKey(user, apiKey.id)).toBe(true);
+    expect(await auth.authenticate(request({ authorization: `Bearer ${key}` }))).toBeUndefined();
+  });
+
+  it("rejects unauthenticated requests with 401", async () => {
+    const { auth, owner: user } = await withOwner();
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() } as unknown as Response;
+    const next = vi.fn();
+
+    await requireAuth(auth)(request(), res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+
+    const req = request({}, user.id);
+    await requireAuth(auth)(req, res, next);
+    expect(next).toHaveBeenCalledWith();
+    expect(req.user).toEqual(user);
+  });
+});
+
+describe("workspace scoping", () => {
+  it("lists only the workspace's tasks", async () => {
+    const storage = new MemStorage();
+    const legacy = await storage.createTask({ prompt: "Before workspaces" });
+    const other = await storage.createTask({ prompt: "Elsewhere", workspaceId: "other" });
+    await storage.updateTask(other.id, { status: "running" });
+
+    expect(legacy.workspaceId).toBe(DEFAULT_WORKSPACE_ID);
+    expect((await storage.getAllTasks(DEFAULT_WORKSPACE_ID)).map((task) => task.id)).toEqual([legacy.id]);
+    expect(await storage.getCurrentTask(DEFAULT_WORKSPACE_ID)).toBeNull();
+    expect((await storage.getCurrentTask("other"))?.id).toBe(other.id);
+    expect(await storage.getAllTasks()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,271 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Request, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import {
+  DEFAULT_WORKSPACE_ID,
+  type ApiKey,
+  type ApiKeyRow,
+  type Credentials,
+  type Registration,
+  type User,
+  type UserRow,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireAuth */
+      user?: User;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, length: number) => Promise<Buffer>;
+
+const API_KEY_PREFIX = "bo_";
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * An auth failure with the HTTP status the routes should answer with
+ */
+export class AuthError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Stored as salt.hash, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}.${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(".");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toUser({ passwordHash: _passwordHash, ...user }: UserRow): User {
+  return user;
+}
+
+function toApiKey({ userId: _userId, keyHash: _keyHash, ...apiKey }: ApiKeyRow): ApiKey {
+  return apiKey;
+}
+
+/**
+ * API key from an `Authorization: Bearer <key>` or `X-API-Key` header
+ */
+function readApiKey(req: Pick<Request, "headers">): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice("bearer ".length).trim();
+  }
+  const header = req.headers["x-api-key"];
+  return typeof header === "string" ? header : undefined;
+}
+
+export interface AuthConfig {
+  storage: IStorage;
+  /** Let anyone register a new workspace (ALLOW_SIGNUP) */
+  allowSignup?: boolean;
+  /** Lets the first user claim the default workspace (ADMIN_BOOTSTRAP_TOKEN); unset, nobody can */
+  bootstrapToken?: string;
+}
+
+/**
+ * Users, their workspaces and API keys. The default workspace owns everything
+ * created before auth existed, so only a registration carrying the bootstrap
+ * token joins it, and only while it has no members. Further users are added to
+ * a workspace by one of its members, or get a workspace of their own when
+ * sign-up is open.
+ */
+export class Auth {
+  private storage: IStorage;
+  private allowSignup: boolean;
+  private bootstrapToken?: string;
+  // Serializes registrations so two requests can't both become the first user
+  private registering: Promise<unknown> = Promise.resolve();
+
+  constructor(config: AuthConfig) {
+    this.storage = config.storage;
+    this.allowSignup = config.allowSignup ?? false;
+    this.bootstrapToken = config.bootstrapToken || undefined;
+  }
+
+  async register({ bootstrapToken, ...credentials }: Registration): Promise<User> {
+    const registration = this.registering.then(async () => {
+      if (bootstrapToken !== undefined) {
+        if (!this.isBootstrapToken(bootstrapToken)) {
+          throw new AuthError(403, "Invalid bootstrap token");
+        }
+        if ((await this.storage.countUsers(DEFAULT_WORKSPACE_ID)) > 0) {
+          throw new AuthError(409, "The default workspace already has an owner");
+        }
+        return this.createUser(DEFAULT_WORKSPACE_ID, credentials);
+      }
+      if (!this.allowSignup) {
+        throw new AuthError(403, "Sign-up is disabled. Ask a member of a workspace to add you.");
+      }
+      return this.createUser(randomUUID(), credentials);
+    });
+    this.registering = registration.catch(() => {});
+    return registration;
+  }
+
+  private isBootstrapToken(token: string): boolean {
+    if (!this.bootstrapToken) return false;
+    // Compared as hashes so the comparison takes the same time for any length
+    return timingSafeEqual(
+      createHash("sha256").update(token).digest(),
+      createHash("sha256").update(this.bootstrapToken).digest(),
+    );
+  }
+
+  /**
+   * Add a user to an existing workspace
+   */
+  async addUser(workspaceId: string, credentials: Credentials): Promise<User> {
+    return this.createUser(workspaceId, credentials);
+  }
+
+  private async createUser(workspaceId: string, credentials: Credentials): Promise<User> {
+    const user: UserRow = {
+      id: randomUUID(),
+      username: credentials.username,
+      passwordHash: await hashPassword(credentials.password),
+      workspaceId,
+      createdAt: Date.now(),
+    };
+    try {
+      await this.storage.createUser(user);
+    } catch {
+      throw new AuthError(409, `Username ${credentials.username} is taken`);
+    }
+    return toUser(user);
+  }
+
+  /**
+   * The user with these credentials, or undefined
+   */
+  async login(credentials: Credentials): Promise<User | undefined> {
+    const user = await this.storage.getUserByUsername(credentials.username);
+    if (!user || !(await verifyPassword(credentials.password, user.passwordHash))) {
+      return undefined;
+    }
+    return toUser(user);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const user = await this.storage.getUser(id);
+    return user && toUser(user);
+  }
+
+  /**
+   * Create an API key acting as this user. The key is only returned here;
+   * storage keeps its hash.
+   */
+  async createApiKey(user: User, name: string): Promise<ApiKey & { key: string }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const apiKey: ApiKeyRow = {
+      id: randomUUID(),
+      userId: user.id,
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      keyHash: hashApiKey(key),
+      createdAt: Date.now(),
+    };
+    await this.storage.createApiKey(apiKey);
+    return { ...toApiKey(apiKey), key };
+  }
+
+  async listApiKeys(user: User): Promise<ApiKey[]> {
+    return (await this.storage.listApiKeys(user.id)).map(toApiKey);
+  }
+
+  async deleteApiKey(user: User, id: string): Promise<boolean> {
+    return this.storage.deleteApiKey(user.id, id);
+  }
+
+  /**
+   * The user a request acts as: an API key's owner when a key is sent (even
+   * with a session), otherwise the signed-in user
+   */
+  async authenticate(req: Pick<Request, "headers" | "session">): Promise<User | undefined> {
+    const key = readApiKey(req);
+    if (key !== undefined) {
+      const apiKey = await this.storage.getApiKeyByHash(hashApiKey(key));
+      return apiKey && this.getUser(apiKey.userId);
+    }
+    const userId = req.session?.userId;
+    return userId ? this.getUser(userId) : undefined;
+  }
+}
+
+/**
+ * Reject requests that aren't signed in or don't carry a valid API key, and
+ * set `req.user` on the rest
+ */
+export function requireAuth(auth: Auth): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await auth.authenticate(req);
+      if (!user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      req.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Cookie sessions, stored in Postgres when DATABASE_URL is set. Without
+ * SESSION_SECRET a random one is used, so sessions end on restart.
+ */
+export function createSessionMiddleware(): RequestHandler {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn("[Auth] SESSION_SECRET not set, using a random secret; users will be signed out on restart");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  const store = process.env.DATABASE_URL
+    ? new (connectPgSimple(session))({ conString: process.env.DATABASE_URL, createTableIfMissing: true })
+    : new (createMemoryStore(session))({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+  return session({
+    store,
+    secret,
+    name: "orchestrator.sid",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+const DEFAULT_BLOB_DIR = "data/blobs";
+
+// Keys are slash-separated names like "screenshots/<id>"; no "..", no leading slash
+const BLOB_KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*(\/[A-Za-z0-9_-][A-Za-z0-9_.-]*)*$/;
+
+/**
+ * Where large binary data (screenshots) lives, so it stays out of task logs
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  /** Returns null if there is no blob with this key */
+  get(key: string): Promise<Buffer | null>;
+  /** Delete blobs; missing keys are ignored */
+  delete(keys: string[]): Promise<void>;
+}
+
+function assertValidKey(key: string): void {
+  if (!BLOB_KEY_PATTERN.test(key) || key.split("/").some((part) => part.startsWith(".."))) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export interface FileBlobStoreConfig {
+  /** Root directory for blobs, created on first write */
+  directory: string;
+}
+
+/**
+ * Blobs as files under a directory on the local filesystem
+ */
+export class FileBlobStore implements BlobStore {
+  private directory: string;
+
+  constructor(config: FileBlobStoreConfig) {
+    this.directory = path.resolve(config.directory);
+  }
+
+  private pathFor(key: string): string {
+    assertValidKey(key);
+    return path.join(this.directory, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => rm(this.pathFor(key), { force: true })));
+  }
+}
+
+/**
+ * Blobs kept in memory, for tests and offline runs
+ */
+export class MemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    assertValidKey(key);
+    this.blobs.set(key, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.blobs.get(key) ?? null;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.blobs.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.blobs.size;
+  }
+}
+
+export function createBlobStore(): BlobStore {
+  const directory = process.env.BLOB_DIR || DEFAULT_BLOB_DIR;
+  console.log(`[BlobStore] Storing blobs in ${path.resolve(directory)}`);
+  return new FileBlobStore({ directory });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { compareCheckpoint, hashScreenshot, normalizeUrl } from "./checkpoints";
+
+describe("hashScreenshot", () => {
+  it("hashes the image payload regardless of data URL prefix", () => {
+    expect(hashScreenshot("data:image/png;base64,iVBORw0KGgo=")).toBe(hashScreenshot("iVBORw0KGgo="));
+    expect(hashScreenshot("iVBORw0KGgo=")).not.toBe(hashScreenshot("iVBORw0KGgp="));
+  });
+});
+
+describe("normalizeUrl", () => {
+  it("ignores fragments and trailing slashes", () => {
+    expect(normalizeUrl("https://example.com/")).toBe(normalizeUrl("https://example.com"));
+    expect(normalizeUrl("https://example.com/docs/#intro")).toBe(normalizeUrl("https://example.com/docs"));
+  });
+
+  it("keeps query strings significant", () => {
+    expect(normalizeUrl("https://example.com/?page=2")).not.toBe(normalizeUrl("https://example.com/?page=3"));
+  });
+});
+
+describe("compareCheckpoint", () => {
+  it("matches when recorded fields agree", () => {
+    expect(compareCheckpoint(
+      { url: "https://example.com/", screenshotHash: "abc" },
+      { url: "https://example.com", screenshotHash: "abc" },
+    )).toBeNull();
+  });
+
+  it("reports URL and screenshot differences separately", () => {
+    expect(compareCheckpoint(
+      { url: "https://example.com", screenshotHash: "abc" },
+      { url: "https://example.org", screenshotHash: "def" },
+    )).toEqual({
+      url: { expected: "https://example.com", actual: "https://example.org" },
+      screenshot: { expected: "abc", actual: "def" },
+    });
+  });
+
+  it("treats an unreadable URL as diverged", () => {
+    expect(compareCheckpoint({ url: "https://example.com" }, { url: null, screenshotHash: null })).toEqual({
+      url: { expected: "https://example.com", actual: null },
+    });
+  });
+
+  it("skips fields that were not recorded or not captured", () => {
+    expect(compareCheckpoint({}, { url: "https://example.org", screenshotHash: "def" })).toBeNull();
+    expect(compareCheckpoint({ screenshotHash: "abc" }, { url: null, screenshotHash: null })).toBeNull();
+  });
+});
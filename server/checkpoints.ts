@@ -0,0 +1,49 @@
+import { createHash } from "crypto";
+import type { ReplayCheckpoint, ReplayStepReport } from "@shared/schema";
+
+export type CheckpointDivergence = Pick<ReplayStepReport, "url" | "screenshot">;
+
+/**
+ * Hash a screenshot by its image payload, so the same image hashes the same
+ * whether or not it came with a data: URL prefix
+ */
+export function hashScreenshot(screenshot: string): string {
+  const payload = screenshot.replace(/^data:[^,]*,/, "");
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/**
+ * Normalize a URL for comparison: ignores fragments, a trailing slash and
+ * whether spaces in the query are encoded as + or %20
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.search = parsed.search.replace(/\+/g, "%20");
+    const normalized = parsed.toString();
+    return normalized.endsWith("/") ? normalized.slice(0, -1) : normalized;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Compare the page state after a replayed step against the recorded checkpoint.
+ * Only fields recorded on both sides are compared. Returns null when they match.
+ */
+export function compareCheckpoint(
+  expected: ReplayCheckpoint,
+  actual: { url: string | null; screenshotHash: string | null },
+): CheckpointDivergence | null {
+  const divergence: CheckpointDivergence = {};
+
+  if (expected.url && (!actual.url || normalizeUrl(expected.url) !== normalizeUrl(actual.url))) {
+    divergence.url = { expected: expected.url, actual: actual.url };
+  }
+  if (expected.screenshotHash && actual.screenshotHash && expected.screenshotHash !== actual.screenshotHash) {
+    divergence.screenshot = { expected: expected.screenshotHash, actual: actual.screenshotHash };
+  }
+
+  return divergence.url || divergence.screenshot ? divergence : null;
+}
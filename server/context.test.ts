@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { LlmMessage } from "./llm-provider";
+import { ContextPruner } from "./context";
+import { McpClient } from "./mcp-client";
+import { MockMcpServer } from "./mock-mcp-server";
+import { Orchestrator } from "./orchestrator";
+import { ScriptedLlmProvider } from "./llm-provider";
+
+const screenshot = (label: string): LlmMessage => ({
+  role: "user",
+  content: [{ type: "image", url: `data:image/png;base64,${label}` }, { type: "text", text: "Current page" }],
+});
+
+const imageCount = (messages: LlmMessage[]) => messages.flatMap((message) =>
+  message.role === "user" && Array.isArray(message.content) ? message.content.filter((part) => part.type === "image") : []).length;
+
+describe("ContextPruner", () => {
+  it("keeps the newest screenshots and replaces older ones with their summary", () => {
+    const pruner = new ContextPruner({ strategy: { keepScreenshots: 2 } });
+    const messages = [screenshot("one"), screenshot("two"), screenshot("three")];
+    pruner.describeScreenshot(messages[0], "It showed the home page.");
+
+    expect(pruner.prune(messages)).toEqual({ screenshots: 1, toolResults: 0 });
+
+    expect(messages[0]).toEqual({ role: "user", content: "[Earlier screenshot removed to save context] It showed the home page." });
+    expect(imageCount(messages)).toBe(2);
+    // Pruning again changes nothing
+    expect(pruner.prune(messages)).toEqual({ screenshots: 0, toolResults: 0 });
+  });
+
+  it("keeps the text of undescribed screenshot messages", () => {
+    const pruner = new ContextPruner({ strategy: { keepScreenshots: 0 } });
+    const messages = [screenshot("one")];
+
+    pruner.prune(messages);
+
+    expect(messages[0]).toEqual({
+      role: "user",
+      content: [{ type: "text", text: "[Earlier screenshot removed to save context]" }, { type: "text", text: "Current page" }],
+    });
+  });
+
+  it("trims long tool results outside the newest ones", () => {
+    const pruner = new ContextPruner({ strategy: { keepToolResults: 1, maxToolResultLength: 10 } });
+    const messages: LlmMessage[] = [
+      { role: "tool", toolCallId: "call_1", content: "x".repeat(25) },
+      { role: "tool", toolCallId: "call_2", content: "short" },
+      { role: "tool", toolCallId: "call_3", content: "y".repeat(25) },
+    ];
+
+    expect(pruner.prune(messages)).toEqual({ screenshots: 0, toolResults: 1 });
+
+    expect(messages.map((message) => message.content)).toEqual([
+      "xxxxxxxxxx... [trimmed 15 characters]",
+      "short",
+      "y".repeat(25),
+    ]);
+  });
+
+  it("leaves the conversation alone in full mode", () => {
+    const pruner = new ContextPruner({ strategy: { mode: "full", keepScreenshots: 0, keepToolResults: 0 } });
+    const messages = [screenshot("one"), { role: "tool", toolCallId: "call_1", content: "z".repeat(1000) } as LlmMessage];
+
+    expect(pruner.prune(messages)).toEqual({ screenshots: 0, toolResults: 0 });
+    expect(imageCount(messages)).toBe(1);
+  });
+});
+
+describe("Orchestrator context pruning", () => {
+  const server = new MockMcpServer({
+    pages: {
+      "https://example.com": { title: "Example Domain" },
+      "https://example.org": { title: "Example Org" },
+    },
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("sends only the newest screenshots as images on later iterations", async () => {
+    const navigate = (url: string) => ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url });
+    const llm = new ScriptedLlmProvider([
+      navigate("https://example.com"),
+      navigate("https://example.org"),
+      navigate("https://example.com"),
+      navigate("https://example.org"),
+      ScriptedLlmProvider.reply("Done"),
+    ]);
+    const orchestrator = new Orchestrator({
+      mcpClient: new McpClient({ url: server.url }),
+      llm,
+      model: "scripted",
+      onLog: async () => {},
+      contextStrategy: { mode: "prune", keepScreenshots: 2, keepToolResults: 10, maxToolResultLength: 500 },
+    });
+
+    const result = await orchestrator.execute("Visit both example sites twice");
+
+    expect(result.success).toBe(true);
+    const lastRequest = llm.requests.at(-1)!.messages;
+    expect(imageCount(lastRequest)).toBe(2);
+    expect(JSON.stringify(lastRequest)).toContain(
+      "[Earlier screenshot removed to save context] It showed the page after navigate with {\\\"url\\\":\\\"https://example.com\\\"} (at https://example.com)",
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { contextStrategySchema, type ContextStrategy } from "@shared/schema";
+import type { LlmMessage } from "./llm-provider";
+
+export interface ContextPrunerConfig {
+  /** Defaults to pruning with contextStrategySchema's defaults */
+  strategy?: Partial<ContextStrategy>;
+}
+
+/**
+ * Keeps the orchestrator conversation from growing with every iteration:
+ * only the newest screenshots are sent as images, older ones become a line
+ * of text saying what they showed, and old tool results are shortened
+ */
+export class ContextPruner {
+  private strategy: ContextStrategy;
+  private summaries = new WeakMap<LlmMessage, string>();
+
+  constructor(config: ContextPrunerConfig = {}) {
+    this.strategy = contextStrategySchema.parse(config.strategy ?? {});
+  }
+
+  /**
+   * Remember what a screenshot message shows, used as its text once pruned
+   */
+  describeScreenshot(message: LlmMessage, summary: string): void {
+    this.summaries.set(message, summary);
+  }
+
+  /**
+   * Prune the conversation in place before the next LLM call. Returns how
+   * many screenshots and tool results were pruned this time.
+   */
+  prune(messages: LlmMessage[]): { screenshots: number; toolResults: number } {
+    const pruned = { screenshots: 0, toolResults: 0 };
+    if (this.strategy.mode === "full") return pruned;
+
+    let screenshotsSeen = 0;
+    let toolResultsSeen = 0;
+    for (let index = messages.length - 1; index >= 0; index--) {
+      const message = messages[index];
+
+      if (message.role === "user" && Array.isArray(message.content)
+        && message.content.some((part) => part.type === "image")) {
+        screenshotsSeen++;
+        if (screenshotsSeen <= this.strategy.keepScreenshots) continue;
+
+        const summary = this.summaries.get(message);
+        messages[index] = summary
+          ? { role: "user", content: `[Earlier screenshot removed to save context] ${summary}` }
+          : {
+            role: "user",
+            content: message.content.map((part) => part.type === "image"
+              ? { type: "text" as const, text: "[Earlier screenshot removed to save context]" }
+              : part),
+          };
+        pruned.screenshots++;
+      } else if (message.role === "tool") {
+        toolResultsSeen++;
+        const limit = this.strategy.maxToolResultLength;
+        if (toolResultsSeen <= this.strategy.keepToolResults || message.content.length <= limit) continue;
+
+        messages[index] = {
+          ...message,
+          content: `${message.content.slice(0, limit)}... [trimmed ${message.content.length - limit} characters]`,
+        };
+        pruned.toolResults++;
+      }
+    }
+    return pruned;
+  }
+}
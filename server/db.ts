@@ -0,0 +1,25 @@
+import path from "node:path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+export function createDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  pool.on("error", (error) => {
+    console.error("[DB] Idle client error:", error);
+  });
+  return drizzle(pool, { schema });
+}
+
+/**
+ * Apply pending migrations from ./migrations (generated by `npm run db:generate`)
+ */
+export async function runMigrations(db: Database): Promise<void> {
+  const migrationsFolder = path.resolve(process.cwd(), "migrations");
+  console.log(`[DB] Running migrations from ${migrationsFolder}`);
+  await migrate(db, { migrationsFolder });
+  console.log("[DB] Migrations complete");
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { ReplayAction } from "@shared/schema";
+import { ExtractionRecorder, compileOutputSchema, extractionsToCsv } from "./extractions";
+
+const extract: ReplayAction = {
+  function: "browserbase_stagehand_extract",
+  arguments: { instruction: "Get the product" },
+};
+
+const productSchema = {
+  type: "object",
+  properties: { name: { type: "string" }, price: { type: "number" } },
+  required: ["name", "price"],
+};
+
+describe("compileOutputSchema", () => {
+  it("rejects schemas that are not valid JSON Schema", () => {
+    expect(() => compileOutputSchema({ type: "not-a-type" })).toThrow(/^Invalid output schema:/);
+  });
+});
+
+describe("ExtractionRecorder", () => {
+  it("records parsed data keyed by step without validation when there is no schema", () => {
+    const recorder = new ExtractionRecorder();
+
+    recorder.record(3, extract, 'Extracted content:\n{"name": "Lamp", "price": 20}');
+
+    expect(recorder.getExtractions()).toEqual([
+      { step: 3, instruction: "Get the product", data: { name: "Lamp", price: 20 } },
+    ]);
+  });
+
+  it("validates data against the output schema", () => {
+    const recorder = new ExtractionRecorder(productSchema);
+
+    const valid = recorder.record(1, extract, '{"name": "Lamp", "price": 20}');
+    const invalid = recorder.record(2, extract, '{"name": "Lamp", "price": "twenty"}');
+
+    expect(valid).toMatchObject({ valid: true });
+    expect(valid.errors).toBeUndefined();
+    expect(invalid).toMatchObject({ valid: false, errors: ["/price must be number"] });
+  });
+});
+
+describe("extractionsToCsv", () => {
+  it("flattens objects into columns and arrays into rows", () => {
+    const csv = extractionsToCsv([
+      { step: 2, instruction: "Get the product", data: { name: "Lamp, large", price: { amount: 20, currency: "USD" } } },
+      { step: 4, data: [{ name: "Chair" }, { name: 'The "Sofa"', tags: ["new", "sale"] }] },
+      { step: 5, data: "Sold out" },
+    ]);
+
+    expect(csv.split("\r\n")).toEqual([
+      "step,instruction,name,price.amount,price.currency,tags,value",
+      '2,Get the product,"Lamp, large",20,USD,,',
+      "4,,Chair,,,,",
+      '4,,"The ""Sofa""",,,"[""new"",""sale""]",',
+      "5,,,,,,Sold out",
+      "",
+    ]);
+  });
+
+  it("writes just the header when there is nothing to export", () => {
+    expect(extractionsToCsv([])).toBe("step,instruction\r\n");
+  });
+});
@@ -0,0 +1,91 @@
+import Ajv, { type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import type { Extraction, ReplayAction } from "@shared/schema";
+import { extractData } from "./mcp-client";
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+/**
+ * Compile a JSON Schema for extraction output. Throws if the schema itself is invalid.
+ */
+export function compileOutputSchema(schema: Record<string, any>): ValidateFunction {
+  try {
+    return ajv.compile(schema);
+  } catch (error) {
+    throw new Error(`Invalid output schema: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Collects the data returned by browserbase_stagehand_extract calls during a
+ * task or replay, validating each against the task's output schema if it has one
+ */
+export class ExtractionRecorder {
+  private validate: ValidateFunction | null;
+  private extractions: Extraction[] = [];
+
+  constructor(outputSchema?: Record<string, any>) {
+    this.validate = outputSchema ? compileOutputSchema(outputSchema) : null;
+  }
+
+  /**
+   * Record the raw result of an extract call made as the given 1-based step
+   */
+  record(step: number, action: ReplayAction, result: string): Extraction {
+    const extraction: Extraction = { step, data: extractData(result) };
+    if (typeof action.arguments.instruction === "string") {
+      extraction.instruction = action.arguments.instruction;
+    }
+    if (this.validate) {
+      extraction.valid = this.validate(extraction.data) as boolean;
+      if (!extraction.valid) {
+        extraction.errors = (this.validate.errors ?? []).map((error) =>
+          `${error.instancePath || "/"} ${error.message ?? "is invalid"}`);
+      }
+    }
+    this.extractions.push(extraction);
+    return extraction;
+  }
+
+  getExtractions(): Extraction[] {
+    return this.extractions;
+  }
+}
+
+function flatten(value: unknown, prefix: string, row: Record<string, unknown>): void {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix ? `${prefix}.${key}` : key, row);
+    }
+  } else {
+    row[prefix || "value"] = Array.isArray(value) ? JSON.stringify(value) : value;
+  }
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render extractions as CSV: one row per extraction, or per item when an
+ * extraction returned an array. Nested objects become dotted columns.
+ */
+export function extractionsToCsv(extractions: Extraction[]): string {
+  const rows: Record<string, unknown>[] = [];
+  for (const extraction of extractions) {
+    const items = Array.isArray(extraction.data) ? extraction.data : [extraction.data];
+    for (const item of items) {
+      const row: Record<string, unknown> = { step: extraction.step, instruction: extraction.instruction };
+      flatten(item, "", row);
+      rows.push(row);
+    }
+  }
+
+  const columns = Array.from(new Set(["step", "instruction", ...rows.flatMap((row) => Object.keys(row))]));
+  const lines = [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((cells) => cells.map(csvCell).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
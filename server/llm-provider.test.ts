@@ -0,0 +1,145 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { AnthropicProvider, resolveLlmSelection, type LlmMessage } from "./llm-provider";
+
+function fakeAnthropic() {
+  const create = vi.fn(async () => ({
+    content: [{ type: "text", text: "Done" }],
+    usage: { input_tokens: 10, output_tokens: 2 },
+  }));
+  return { client: { messages: { create } } as unknown as Anthropic, create };
+}
+
+describe("AnthropicProvider", () => {
+  it("sends malformed tool-call arguments from earlier turns as empty input", async () => {
+    const { client, create } = fakeAnthropic();
+    const messages: LlmMessage[] = [
+      { role: "user", content: "Open example.com" },
+      {
+        role: "assistant",
+        content: null,
+        toolCalls: [
+          { id: "call_1", name: "browserbase_stagehand_navigate", arguments: "{\"url\": \"https://exa" },
+          { id: "call_2", name: "browserbase_screenshot", arguments: "{\"full\":true}" },
+        ],
+      },
+      { role: "tool", toolCallId: "call_1", content: "Error: invalid arguments" },
+      { role: "tool", toolCallId: "call_2", content: "Screenshot taken" },
+    ];
+
+    const response = await new AnthropicProvider(client).chat({ model: "claude-sonnet-4-5", messages });
+
+    expect(response.message.content).toBe("Done");
+    const [params] = create.mock.calls[0] as unknown as [Anthropic.MessageCreateParams];
+    expect(params.messages[1].content).toEqual([
+      { type: "tool_use", id: "call_1", name: "browserbase_stagehand_navigate", input: {} },
+      { type: "tool_use", id: "call_2", name: "browserbase_screenshot", input: { full: true } },
+    ]);
+  });
+
+  it("sends the system prompt separately and screenshots as base64 images", async () => {
+    const { client, create } = fakeAnthropic();
+    const messages: LlmMessage[] = [
+      { role: "system", content: "You control a browser." },
+      { role: "user", content: "Open example.com" },
+      {
+        role: "user",
+        content: [
+          { type: "image", url: "data:image/png;base64,iVBORw0KGgo=" },
+          { type: "text", text: "This is the current screenshot of the page." },
+        ],
+      },
+    ];
+
+    await new AnthropicProvider(client).chat({ model: "claude-sonnet-4-5", messages });
+
+    const [params] = create.mock.calls[0] as unknown as [Anthropic.MessageCreateParams];
+    expect(params.system).toBe("You control a browser.");
+    expect(params.messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Open example.com" },
+          { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+          { type: "text", text: "This is the current screenshot of the page." },
+        ],
+      },
+    ]);
+  });
+
+  it("puts every tool result ahead of screenshots sent between tool calls", async () => {
+    const { client, create } = fakeAnthropic();
+    const screenshot: LlmMessage = {
+      role: "user",
+      content: [
+        { type: "image", url: "data:image/png;base64,iVBORw0KGgo=" },
+        { type: "text", text: "This is the current screenshot of the page." },
+      ],
+    };
+    const messages: LlmMessage[] = [
+      { role: "user", content: "Search for shoes" },
+      {
+        role: "assistant",
+        content: "Opening the site.",
+        toolCalls: [
+          { id: "call_1", name: "browserbase_stagehand_navigate", arguments: "{\"url\":\"https://example.com\"}" },
+          { id: "call_2", name: "browserbase_stagehand_act", arguments: "{\"action\":\"search for shoes\"}" },
+        ],
+      },
+      { role: "tool", toolCallId: "call_1", content: "Success. Screenshot captured and shown below." },
+      screenshot,
+      { role: "tool", toolCallId: "call_2", content: "Success. Screenshot captured and shown below." },
+      screenshot,
+      { role: "user", content: "Only men's shoes, please." },
+    ];
+
+    await new AnthropicProvider(client).chat({ model: "claude-sonnet-4-5", messages });
+
+    const [params] = create.mock.calls[0] as unknown as [Anthropic.MessageCreateParams];
+    expect(params.messages.map((message) => message.role)).toEqual(["user", "assistant", "user"]);
+    expect(params.messages[1].content).toEqual([
+      { type: "text", text: "Opening the site." },
+      { type: "tool_use", id: "call_1", name: "browserbase_stagehand_navigate", input: { url: "https://example.com" } },
+      { type: "tool_use", id: "call_2", name: "browserbase_stagehand_act", input: { action: "search for shoes" } },
+    ]);
+    const turn = params.messages[2].content as Anthropic.ContentBlockParam[];
+    expect(turn.map((block) => block.type)).toEqual(["tool_result", "tool_result", "image", "text", "image", "text", "text"]);
+    expect(turn.slice(0, 2)).toEqual([
+      { type: "tool_result", tool_use_id: "call_1", content: "Success. Screenshot captured and shown below." },
+      { type: "tool_result", tool_use_id: "call_2", content: "Success. Screenshot captured and shown below." },
+    ]);
+    expect(turn[6]).toEqual({ type: "text", text: "Only men's shoes, please." });
+  });
+
+  it("reads tool calls from the response", async () => {
+    const { client, create } = fakeAnthropic();
+    create.mockResolvedValueOnce({
+      content: [
+        { type: "text", text: "Navigating." },
+        { type: "tool_use", id: "toolu_1", name: "browserbase_stagehand_navigate", input: { url: "https://example.com" } },
+      ],
+      usage: { input_tokens: 20, output_tokens: 5 },
+    } as never);
+
+    const response = await new AnthropicProvider(client).chat({
+      model: "claude-sonnet-4-5",
+      messages: [{ role: "user", content: "Open example.com" }],
+    });
+
+    expect(response).toEqual({
+      message: {
+        role: "assistant",
+        content: "Navigating.",
+        toolCalls: [{ id: "toolu_1", name: "browserbase_stagehand_navigate", arguments: "{\"url\":\"https://example.com\"}" }],
+      },
+      usage: { promptTokens: 20, completionTokens: 5 },
+    });
+  });
+});
+
+describe("resolveLlmSelection", () => {
+  it("rejects provider names that only exist on Object.prototype", () => {
+    expect(() => resolveLlmSelection({ provider: "constructor" as never }))
+      .toThrow('Unknown LLM provider "constructor"');
+  });
+});
@@ -0,0 +1,392 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import type { LlmProviderName, LlmSelection } from "@shared/schema";
+
+export interface LlmTool {
+  name: string;
+  description?: string;
+  /** JSON Schema for the tool arguments */
+  parameters?: Record<string, any>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, exactly as produced by the model */
+  arguments: string;
+}
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string };
+
+export type LlmAssistantMessage = {
+  role: "assistant";
+  content: string | null;
+  toolCalls?: LlmToolCall[];
+};
+
+export type LlmMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | LlmContentPart[] }
+  | LlmAssistantMessage
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmChatRequest {
+  model: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  maxTokens?: number;
+  /** Aborts the request */
+  signal?: AbortSignal;
+}
+
+export interface LlmChatResponse {
+  message: LlmAssistantMessage;
+  usage?: LlmUsage;
+}
+
+/**
+ * Chat-with-tools interface the orchestrator loop talks to
+ */
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Provider for the OpenAI chat completions API and anything compatible with it
+ * (Azure OpenAI, local servers such as vLLM, Ollama or LM Studio)
+ */
+export class OpenAIProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private client: OpenAI,
+    // Many OpenAI-compatible servers only understand the older max_tokens parameter
+    private useLegacyMaxTokens = false,
+  ) {}
+
+  private toOpenAIMessage(message: LlmMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    switch (message.role) {
+      case "system":
+        return { role: "system", content: message.content };
+      case "user":
+        return {
+          role: "user",
+          content: typeof message.content === "string"
+            ? message.content
+            : message.content.map((part) => part.type === "text"
+              ? { type: "text" as const, text: part.text }
+              : { type: "image_url" as const, image_url: { url: part.url } }),
+        };
+      case "assistant":
+        return {
+          role: "assistant",
+          content: message.content,
+          tool_calls: message.toolCalls && message.toolCalls.length > 0
+            ? message.toolCalls.map((toolCall) => ({
+              id: toolCall.id,
+              type: "function" as const,
+              function: { name: toolCall.name, arguments: toolCall.arguments },
+            }))
+            : undefined,
+        };
+      case "tool":
+        return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS;
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages.map((message) => this.toOpenAIMessage(message)),
+      tools: request.tools && request.tools.length > 0
+        ? request.tools.map((tool) => ({
+          type: "function" as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        }))
+        : undefined,
+      ...(this.useLegacyMaxTokens ? { max_tokens: maxTokens } : { max_completion_tokens: maxTokens }),
+    }, { signal: request.signal });
+
+    const message = response.choices[0].message;
+    const toolCalls: LlmToolCall[] = [];
+    for (const toolCall of message.tool_calls || []) {
+      if (!("function" in toolCall)) continue;
+      toolCalls.push({ id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments });
+    }
+
+    return {
+      message: {
+        role: "assistant",
+        content: message.content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Tool-call arguments as an Anthropic tool_use input. Models sometimes emit
+ * malformed JSON; that turn is history by now, so it becomes `{}` rather than
+ * failing the task.
+ */
+function parseToolInput(args: string): Record<string, unknown> {
+  try {
+    const input = JSON.parse(args || "{}");
+    return input && typeof input === "object" && !Array.isArray(input) ? input : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic";
+
+  constructor(private client: Anthropic) {}
+
+  private toImageBlock(url: string): Anthropic.ImageBlockParam {
+    const match = url.match(/^data:(image\/[^;]+);base64,(.*)$/);
+    if (match) {
+      return {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: match[1] as Anthropic.Base64ImageSource["media_type"],
+          data: match[2],
+        },
+      };
+    }
+    return { type: "image", source: { type: "url", url } };
+  }
+
+  private toContentBlocks(message: LlmMessage): Anthropic.ContentBlockParam[] {
+    switch (message.role) {
+      case "user":
+        if (typeof message.content === "string") {
+          return [{ type: "text", text: message.content }];
+        }
+        return message.content.map((part) => part.type === "text"
+          ? { type: "text" as const, text: part.text }
+          : this.toImageBlock(part.url));
+      case "assistant": {
+        const blocks: Anthropic.ContentBlockParam[] = [];
+        if (message.content) {
+          blocks.push({ type: "text", text: message.content });
+        }
+        for (const toolCall of message.toolCalls || []) {
+          blocks.push({
+            type: "tool_use",
+            id: toolCall.id,
+            name: toolCall.name,
+            input: parseToolInput(toolCall.arguments),
+          });
+        }
+        return blocks;
+      }
+      case "tool":
+        return [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }];
+      case "system":
+        return [];
+    }
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const system = request.messages
+      .filter((message): message is Extract<LlmMessage, { role: "system" }> => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    // Anthropic requires alternating roles: tool results become user turns and
+    // consecutive turns with the same role are merged
+    const messages: Anthropic.MessageParam[] = [];
+    for (const message of request.messages) {
+      if (message.role === "system") continue;
+      const role = message.role === "assistant" ? "assistant" : "user";
+      const blocks = this.toContentBlocks(message);
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === role) {
+        const content = previous.content as Anthropic.ContentBlockParam[];
+        content.push(...blocks);
+        // Tool results must lead the turn, ahead of screenshots sent between tool calls
+        content.sort((a, b) => Number(a.type !== "tool_result") - Number(b.type !== "tool_result"));
+      } else {
+        messages.push({ role, content: blocks });
+      }
+    }
+
+    const response = await this.client.messages.create({
+      model: request.model,
+      system: system || undefined,
+      messages,
+      tools: request.tools && request.tools.length > 0
+        ? request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: (tool.parameters as Anthropic.Tool.InputSchema) || { type: "object", properties: {} },
+        }))
+        : undefined,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    }, { signal: request.signal });
+
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === "text")
+      .map((block) => block.text)
+      .join("\n");
+    const toolCalls = response.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use")
+      .map((block) => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) }));
+
+    return {
+      message: {
+        role: "assistant",
+        content: text || null,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      usage: { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens },
+    };
+  }
+}
+
+export type ScriptedStep = LlmAssistantMessage | ((request: LlmChatRequest) => LlmAssistantMessage);
+
+/**
+ * Offline provider that replays a fixed script of assistant messages.
+ * Every request is recorded in `requests` so tests can inspect what the model saw.
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly name = "scripted";
+  readonly requests: LlmChatRequest[] = [];
+  private steps: ScriptedStep[];
+  private usage: LlmUsage;
+  private nextToolCallId = 1;
+
+  /**
+   * @param usage Token usage reported for every response (default zero)
+   */
+  constructor(steps: ScriptedStep[], usage: LlmUsage = { promptTokens: 0, completionTokens: 0 }) {
+    this.steps = [...steps];
+    this.usage = usage;
+  }
+
+  /**
+   * Build a scripted assistant message that calls a single tool
+   */
+  static toolCall(name: string, args: Record<string, any> = {}, content: string | null = null): LlmAssistantMessage {
+    return { role: "assistant", content, toolCalls: [{ id: "", name, arguments: JSON.stringify(args) }] };
+  }
+
+  /**
+   * Build a scripted assistant message that ends the task
+   */
+  static reply(content: string): LlmAssistantMessage {
+    return { role: "assistant", content };
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    request.signal?.throwIfAborted();
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const step = this.steps.shift();
+    if (!step) {
+      throw new Error("Scripted LLM provider ran out of responses");
+    }
+
+    const message = typeof step === "function" ? step(request) : step;
+    return {
+      message: {
+        ...message,
+        toolCalls: message.toolCalls?.map((toolCall) => ({
+          ...toolCall,
+          id: toolCall.id || `call_${this.nextToolCallId++}`,
+        })),
+      },
+      usage: this.usage,
+    };
+  }
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, () => string | undefined> = {
+  openai: () => "gpt-4o",
+  azure: () => process.env.AZURE_OPENAI_DEPLOYMENT,
+  anthropic: () => "claude-sonnet-4-5",
+  local: () => process.env.LOCAL_LLM_MODEL,
+};
+
+/**
+ * Fill in the provider and model for a task from the request, falling back to
+ * LLM_PROVIDER / LLM_MODEL and then to per-provider defaults
+ */
+export function resolveLlmSelection(selection: Partial<LlmSelection> = {}): LlmSelection {
+  const provider = selection.provider
+    ?? (process.env.LLM_PROVIDER as LlmProviderName | undefined)
+    ?? "openai";
+  if (!Object.hasOwn(DEFAULT_MODELS, provider)) {
+    throw new Error(`Unknown LLM provider "${provider}". Expected one of: ${Object.keys(DEFAULT_MODELS).join(", ")}`);
+  }
+
+  // LLM_MODEL only applies to the default provider
+  const envModel = !selection.provider || selection.provider === process.env.LLM_PROVIDER
+    ? process.env.LLM_MODEL
+    : undefined;
+  const model = selection.model ?? envModel ?? DEFAULT_MODELS[provider]();
+  if (!model) {
+    throw new Error(`No model configured for LLM provider "${provider}". Pass a model or set LLM_MODEL.`);
+  }
+  return { provider, model };
+}
+
+function requireEnv(name: string, description: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${description} not configured. Please add your ${name} to secrets.`);
+  }
+  return value;
+}
+
+/**
+ * Build a provider from environment configuration. Throws with a user-facing
+ * message when the provider's credentials are missing.
+ */
+export function createLlmProvider(provider: LlmProviderName): LlmProvider {
+  switch (provider) {
+    case "openai":
+      return new OpenAIProvider("openai", new OpenAI({
+        apiKey: requireEnv("OPENAI_API_KEY", "OpenAI API key"),
+      }));
+    case "azure":
+      return new OpenAIProvider("azure", new AzureOpenAI({
+        apiKey: requireEnv("AZURE_OPENAI_API_KEY", "Azure OpenAI API key"),
+        endpoint: requireEnv("AZURE_OPENAI_ENDPOINT", "Azure OpenAI endpoint"),
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+        deployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+      }));
+    case "anthropic":
+      return new AnthropicProvider(new Anthropic({
+        apiKey: requireEnv("ANTHROPIC_API_KEY", "Anthropic API key"),
+      }));
+    case "local":
+      return new OpenAIProvider("local", new OpenAI({
+        baseURL: requireEnv("LOCAL_LLM_BASE_URL", "Local LLM endpoint"),
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "not-needed",
+      }), true);
+  }
+}
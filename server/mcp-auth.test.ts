@@ -0,0 +1,179 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { ClientCredentialsTokenSource, createAuthFetch, getMcpAuthOptions } from "./mcp-auth";
+import { McpClient } from "./mcp-client";
+import { MockMcpServer } from "./mock-mcp-server";
+
+const oauth = { tokenUrl: "https://auth.example.com/token", clientId: "orchestrator", clientSecret: "s3cret" };
+
+function tokenResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Headers and body of the nth request made through a vi.fn fetch
+function sent(fetchImpl: ReturnType<typeof vi.fn>, n: number) {
+  const [url, init] = fetchImpl.mock.calls[n] as [string, RequestInit];
+  return { url, headers: new Headers(init.headers), body: new URLSearchParams(init.body as URLSearchParams) };
+}
+
+describe("createAuthFetch", () => {
+  it("adds headers and the API key as a bearer token or a custom header", async () => {
+    const fetchImpl = vi.fn(async () => new Response("ok"));
+
+    await createAuthFetch({ apiKey: "key-1", headers: { "X-Tenant": "acme" } }, fetchImpl)(
+      "https://mcp.example.com/mcp",
+      { headers: { Accept: "text/event-stream" } },
+    );
+    await createAuthFetch({ apiKey: "key-2", apiKeyHeader: "X-API-Key" }, fetchImpl)("https://mcp.example.com/mcp");
+
+    const first = sent(fetchImpl, 0).headers;
+    expect(first.get("authorization")).toBe("Bearer key-1");
+    expect(first.get("x-tenant")).toBe("acme");
+    expect(first.get("accept")).toBe("text/event-stream");
+    const second = sent(fetchImpl, 1).headers;
+    expect(second.get("x-api-key")).toBe("key-2");
+    expect(second.has("authorization")).toBe(false);
+  });
+
+  it("fetches an OAuth token once and retries a 401 with a new one", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    let issued = 0;
+    const fetchImpl = vi.fn(async (url: string | URL, init?: RequestInit) => {
+      if (String(url) === oauth.tokenUrl) {
+        return tokenResponse({ access_token: `token-${++issued}`, expires_in: 3600 });
+      }
+      const authorization = new Headers(init?.headers).get("authorization");
+      return new Response(null, { status: authorization === "Bearer token-2" ? 200 : 401 });
+    });
+    const authFetch = createAuthFetch({ oauth }, fetchImpl);
+
+    const response = await authFetch("https://mcp.example.com/mcp");
+
+    expect(response.status).toBe(200);
+    expect(fetchImpl.mock.calls.map(([url]) => String(url))).toEqual([
+      oauth.tokenUrl,
+      "https://mcp.example.com/mcp",
+      oauth.tokenUrl,
+      "https://mcp.example.com/mcp",
+    ]);
+    const token = sent(fetchImpl, 0);
+    expect(token.body.get("grant_type")).toBe("client_credentials");
+    expect(token.headers.get("authorization")).toBe(`Basic ${Buffer.from("orchestrator:s3cret").toString("base64")}`);
+
+    await authFetch("https://mcp.example.com/mcp");
+    expect(fetchImpl).toHaveBeenCalledTimes(5);
+    log.mockRestore();
+  });
+});
+
+describe("ClientCredentialsTokenSource", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one request between callers and refreshes before expiry", async () => {
+    vi.useFakeTimers();
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(tokenResponse({ access_token: "first", expires_in: 300, refresh_token: "refresh-1" }))
+      .mockResolvedValueOnce(tokenResponse({ access_token: "second", expires_in: 300 }));
+    const tokens = new ClientCredentialsTokenSource({ ...oauth, scope: "browser", authMethod: "client_secret_post" }, fetchImpl);
+
+    expect(await Promise.all([tokens.getToken(), tokens.getToken()])).toEqual(["first", "first"]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    const first = sent(fetchImpl, 0).body;
+    expect(Object.fromEntries(first)).toEqual({
+      grant_type: "client_credentials",
+      scope: "browser",
+      client_id: "orchestrator",
+      client_secret: "s3cret",
+    });
+
+    vi.advanceTimersByTime(241_000);
+    expect(await tokens.getToken()).toBe("second");
+    expect(Object.fromEntries(sent(fetchImpl, 1).body)).toMatchObject({ grant_type: "refresh_token", refresh_token: "refresh-1" });
+  });
+
+  it("falls back to client credentials when the refresh token is rejected", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(tokenResponse({ access_token: "first", refresh_token: "refresh-1" }))
+      .mockResolvedValueOnce(tokenResponse({ error: "invalid_grant" }, 400))
+      .mockResolvedValueOnce(tokenResponse({ access_token: "second" }));
+    const tokens = new ClientCredentialsTokenSource(oauth, fetchImpl);
+
+    await tokens.getToken();
+    expect(await tokens.getToken(true)).toBe("second");
+    expect(sent(fetchImpl, 2).body.get("grant_type")).toBe("client_credentials");
+    warn.mockRestore();
+  });
+
+  it("reports the token endpoint's error", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(tokenResponse({ error: "invalid_client", error_description: "Bad secret" }, 401));
+
+    await expect(new ClientCredentialsTokenSource(oauth, fetchImpl).getToken())
+      .rejects.toThrow("OAuth token request to https://auth.example.com/token failed (invalid_client: Bad secret)");
+  });
+});
+
+describe("getMcpAuthOptions", () => {
+  it("reads the API key, headers and OAuth client from the environment", () => {
+    expect(getMcpAuthOptions({})).toEqual({});
+    expect(getMcpAuthOptions({
+      MCP_API_KEY: "key",
+      MCP_API_KEY_HEADER: "X-API-Key",
+      MCP_HEADERS: '{"X-Tenant":"acme"}',
+      MCP_OAUTH_TOKEN_URL: oauth.tokenUrl,
+      MCP_OAUTH_CLIENT_ID: oauth.clientId,
+      MCP_OAUTH_CLIENT_SECRET: oauth.clientSecret,
+      MCP_OAUTH_AUDIENCE: "https://mcp.example.com",
+    })).toEqual({
+      apiKey: "key",
+      apiKeyHeader: "X-API-Key",
+      headers: { "X-Tenant": "acme" },
+      oauth: { ...oauth, audience: "https://mcp.example.com" },
+    });
+  });
+
+  it("rejects invalid or incomplete settings", () => {
+    expect(() => getMcpAuthOptions({ MCP_HEADERS: "{" })).toThrow(/^Invalid MCP_HEADERS/);
+    expect(() => getMcpAuthOptions({ MCP_HEADERS: '{"X-Retries":3}' })).toThrow(/^Invalid MCP_HEADERS/);
+    expect(() => getMcpAuthOptions({ MCP_OAUTH_CLIENT_ID: "orchestrator" })).toThrow("Incomplete MCP OAuth config");
+    expect(() => getMcpAuthOptions({
+      MCP_OAUTH_TOKEN_URL: oauth.tokenUrl,
+      MCP_OAUTH_CLIENT_ID: oauth.clientId,
+      MCP_OAUTH_CLIENT_SECRET: oauth.clientSecret,
+      MCP_OAUTH_AUTH_METHOD: "private_key_jwt",
+    })).toThrow(/^Invalid MCP_OAUTH_AUTH_METHOD/);
+  });
+});
+
+describe("McpClient transport auth", () => {
+  const server = new MockMcpServer({ pages: {} });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("sends the configured credentials with every MCP request", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const client = new McpClient({ url: server.url, apiKey: "key", headers: { "X-Tenant": "acme" } });
+
+    await client.createSession();
+    await client.close();
+
+    const mcpRequests = fetchSpy.mock.calls.filter(([url]) => String(url).startsWith(server.url));
+    expect(mcpRequests.length).toBeGreaterThan(0);
+    for (const [, init] of mcpRequests) {
+      const headers = new Headers(init?.headers);
+      expect(headers.get("authorization")).toBe("Bearer key");
+      expect(headers.get("x-tenant")).toBe("acme");
+    }
+    fetchSpy.mockRestore();
+  });
+});
@@ -0,0 +1,216 @@
+import type { FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+
+// Refresh tokens this long before they expire so a request never races the expiry
+const EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * OAuth 2.0 client credentials grant (RFC 6749 §4.4) for MCP servers that
+ * sit behind an authorization server
+ */
+export interface OAuthClientCredentials {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  /** Some providers (Auth0, for one) need the API's audience */
+  audience?: string;
+  /** How the client authenticates to the token endpoint (default client_secret_basic) */
+  authMethod?: "client_secret_basic" | "client_secret_post";
+}
+
+interface TokenResponse {
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Fetches and caches access tokens, refreshing them shortly before they
+ * expire (with the refresh token when the server issued one). Concurrent
+ * callers share one token request.
+ */
+export class ClientCredentialsTokenSource {
+  private config: OAuthClientCredentials;
+  private fetch: FetchLike;
+  private token: { accessToken: string; expiresAt: number; refreshToken?: string } | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(config: OAuthClientCredentials, fetchImpl: FetchLike = fetch) {
+    this.config = config;
+    this.fetch = fetchImpl;
+  }
+
+  /**
+   * A valid access token; `forceRefresh` discards the cached one (e.g. after
+   * the MCP server rejected it)
+   */
+  async getToken(forceRefresh = false): Promise<string> {
+    if (forceRefresh && this.token) {
+      this.token = { ...this.token, expiresAt: 0 };
+    }
+    if (this.token && Date.now() < this.token.expiresAt - EXPIRY_MARGIN_MS) {
+      return this.token.accessToken;
+    }
+    if (!this.pending) {
+      this.pending = this.fetchToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const refreshToken = this.token?.refreshToken;
+    if (refreshToken) {
+      try {
+        return await this.requestToken({ grant_type: "refresh_token", refresh_token: refreshToken });
+      } catch (error) {
+        console.warn("[MCP] Token refresh failed, requesting a new token:", error instanceof Error ? error.message : error);
+      }
+    }
+    return this.requestToken({ grant_type: "client_credentials" });
+  }
+
+  private async requestToken(grant: Record<string, string>): Promise<string> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, authMethod = "client_secret_basic" } = this.config;
+    const body = new URLSearchParams(grant);
+    if (grant.grant_type === "client_credentials") {
+      if (scope) body.set("scope", scope);
+      if (audience) body.set("audience", audience);
+    }
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (authMethod === "client_secret_post") {
+      body.set("client_id", clientId);
+      body.set("client_secret", clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+
+    const response = await this.fetch(tokenUrl, { method: "POST", headers, body });
+    const data = await response.json().catch(() => ({})) as TokenResponse;
+    if (!response.ok || !data.access_token) {
+      const reason = data.error ? `${data.error}${data.error_description ? `: ${data.error_description}` : ""}` : `HTTP ${response.status}`;
+      throw new Error(`OAuth token request to ${tokenUrl} failed (${reason})`);
+    }
+
+    this.token = {
+      accessToken: data.access_token,
+      // Without expires_in the token is used until the server rejects it
+      expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : Number.POSITIVE_INFINITY,
+      refreshToken: data.refresh_token ?? refreshTokenOf(grant),
+    };
+    return data.access_token;
+  }
+}
+
+// A refresh response may omit refresh_token, meaning the old one stays valid
+function refreshTokenOf(grant: Record<string, string>): string | undefined {
+  return grant.grant_type === "refresh_token" ? grant.refresh_token : undefined;
+}
+
+export interface McpAuthOptions {
+  /** Sent as `Authorization: Bearer <apiKey>`, or as the raw value of `apiKeyHeader` */
+  apiKey?: string;
+  apiKeyHeader?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  oauth?: OAuthClientCredentials;
+}
+
+/**
+ * Whether any of the options add something to requests
+ */
+export function hasMcpAuth(options: McpAuthOptions): boolean {
+  return Boolean(options.apiKey || options.oauth || (options.headers && Object.keys(options.headers).length > 0));
+}
+
+/**
+ * fetch for the MCP transport that adds the configured headers, API key and
+ * OAuth bearer token to every request. A 401 with OAuth configured fetches a
+ * new token and retries once.
+ */
+export function createAuthFetch(options: McpAuthOptions, fetchImpl: FetchLike = fetch): FetchLike {
+  const tokens = options.oauth ? new ClientCredentialsTokenSource(options.oauth, fetchImpl) : null;
+
+  const send = async (url: string | URL, init: RequestInit | undefined, forceRefresh: boolean) => {
+    const headers = new Headers(init?.headers);
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers.set(name, value);
+    }
+    if (options.apiKey) {
+      if (options.apiKeyHeader && options.apiKeyHeader.toLowerCase() !== "authorization") {
+        headers.set(options.apiKeyHeader, options.apiKey);
+      } else {
+        headers.set("Authorization", `Bearer ${options.apiKey}`);
+      }
+    }
+    if (tokens) {
+      headers.set("Authorization", `Bearer ${await tokens.getToken(forceRefresh)}`);
+    }
+    return fetchImpl(url, { ...init, headers });
+  };
+
+  return async (url, init) => {
+    const response = await send(url, init, false);
+    if (response.status !== 401 || !tokens) {
+      return response;
+    }
+    console.log("[MCP] Server rejected the access token, fetching a new one");
+    return send(url, init, true);
+  };
+}
+
+/**
+ * Transport auth for the MCP server from the environment: MCP_API_KEY (with
+ * MCP_API_KEY_HEADER), MCP_HEADERS (JSON object) and the MCP_OAUTH_* client
+ * credentials. Throws when they are incomplete or invalid rather than
+ * connecting without them.
+ */
+export function getMcpAuthOptions(env: NodeJS.ProcessEnv = process.env): McpAuthOptions {
+  const options: McpAuthOptions = {};
+  if (env.MCP_API_KEY) {
+    options.apiKey = env.MCP_API_KEY;
+    options.apiKeyHeader = env.MCP_API_KEY_HEADER || undefined;
+  }
+
+  if (env.MCP_HEADERS) {
+    let headers: unknown;
+    try {
+      headers = JSON.parse(env.MCP_HEADERS);
+    } catch (error) {
+      throw new Error(`Invalid MCP_HEADERS: ${error instanceof Error ? error.message : "not JSON"}`);
+    }
+    if (!headers || typeof headers !== "object" || Array.isArray(headers)
+      || Object.values(headers).some((value) => typeof value !== "string")) {
+      throw new Error("Invalid MCP_HEADERS: expected a JSON object of header names to string values");
+    }
+    options.headers = headers as Record<string, string>;
+  }
+
+  const { MCP_OAUTH_TOKEN_URL: tokenUrl, MCP_OAUTH_CLIENT_ID: clientId, MCP_OAUTH_CLIENT_SECRET: clientSecret } = env;
+  if (tokenUrl || clientId || clientSecret) {
+    if (!tokenUrl || !clientId || !clientSecret) {
+      throw new Error("Incomplete MCP OAuth config: set MCP_OAUTH_TOKEN_URL, MCP_OAUTH_CLIENT_ID and MCP_OAUTH_CLIENT_SECRET");
+    }
+    const authMethod = env.MCP_OAUTH_AUTH_METHOD;
+    if (authMethod && authMethod !== "client_secret_basic" && authMethod !== "client_secret_post") {
+      throw new Error("Invalid MCP_OAUTH_AUTH_METHOD: expected client_secret_basic or client_secret_post");
+    }
+    options.oauth = {
+      tokenUrl,
+      clientId,
+      clientSecret,
+      scope: env.MCP_OAUTH_SCOPE || undefined,
+      audience: env.MCP_OAUTH_AUDIENCE || undefined,
+      authMethod: authMethod as OAuthClientCredentials["authMethod"],
+    };
+  }
+  return options;
+}
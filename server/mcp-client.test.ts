@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fixtures from "./__fixtures__/mcp-responses.json";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { McpClient, cleanErrorMessage, extractData, extractSessionId, extractUrl, normalizeScreenshot } from "./mcp-client";
+
+const { callTool } = vi.hoisted(() => ({ callTool: vi.fn() }));
+
+// Stand-in for the SDK client so callFunction parses fixture content offline
+vi.mock("@modelcontextprotocol/sdk/client/index.js", () => ({
+  Client: class {
+    onerror?: (error: Error) => void;
+    callTool = callTool;
+    async connect() {}
+    async close() {}
+  },
+}));
+
+vi.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
+  StreamableHTTPClientTransport: class {},
+}));
+
+interface ResponseFixture {
+  name: string;
+  function: string;
+  content: any[];
+  expected: { result: string; screenshot?: string; sessionId?: string };
+}
+
+interface ErrorFixture {
+  name: string;
+  function: string;
+  error: string;
+  expected: { error: string };
+}
+
+const responses = fixtures.responses as ResponseFixture[];
+const errors = fixtures.errors as ErrorFixture[];
+
+beforeEach(() => {
+  callTool.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("McpClient.callFunction", () => {
+  it.each(responses.map((fixture) => [fixture.name, fixture] as const))("parses %s", async (_name, fixture) => {
+    callTool.mockResolvedValueOnce({ content: fixture.content });
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    const response = await client.callFunction({ function: fixture.function, arguments: {} });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result).toBe(fixture.expected.result);
+    expect(response.screenshot).toBe(fixture.expected.screenshot);
+    if (fixture.expected.sessionId) {
+      expect(response.sessionId).toBe(fixture.expected.sessionId);
+      expect(client.getSessionId()).toBe(fixture.expected.sessionId);
+    }
+  });
+
+  it.each(errors.map((fixture) => [fixture.name, fixture] as const))("cleans %s", async (_name, fixture) => {
+    callTool.mockRejectedValueOnce(new Error(fixture.error));
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    const response = await client.callFunction({ function: fixture.function, arguments: { url: "https://example.com" } });
+
+    expect(response).toEqual({
+      function: fixture.function,
+      arguments: { url: "https://example.com" },
+      error: fixture.expected.error,
+    });
+  });
+
+  it("injects the session id into every call after session_create", async () => {
+    const [sessionFixture] = responses;
+    callTool
+      .mockResolvedValueOnce({ content: sessionFixture.content })
+      .mockResolvedValueOnce({ content: [{ type: "text", text: "Navigated" }] });
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    await client.callFunction({ function: "browserbase_session_create", arguments: {} });
+    await client.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com" } });
+
+    expect(callTool.mock.calls[0][0]).toEqual({ name: "browserbase_session_create", arguments: {} });
+    expect(callTool.mock.calls[1][0]).toEqual({
+      name: "browserbase_stagehand_navigate",
+      arguments: { url: "https://example.com", sessionId: sessionFixture.expected.sessionId },
+    });
+  });
+
+  it("returns tool results flagged isError as errors", async () => {
+    callTool.mockResolvedValueOnce({
+      content: [{ type: "text", text: "Failed to navigate to https://unknown.test: net::ERR_NAME_NOT_RESOLVED" }],
+      isError: true,
+    });
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    const response = await client.callFunction({ function: "browserbase_stagehand_navigate", arguments: {} });
+
+    expect(response.error).toBe("Failed to navigate to https://unknown.test: net::ERR_NAME_NOT_RESOLVED");
+    expect(response.result).toBeUndefined();
+  });
+
+  it("passes the call timeout to the SDK and flags calls that time out", async () => {
+    callTool.mockRejectedValueOnce(new McpError(ErrorCode.RequestTimeout, "Request timed out"));
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    const response = await client.callFunction({ function: "browserbase_stagehand_act", arguments: {} }, { timeoutMs: 5000 });
+
+    expect(callTool.mock.calls[0][2]).toEqual({ timeout: 5000 });
+    expect(response.error).toBe("browserbase_stagehand_act timed out after 5000ms");
+    expect(response.timedOut).toBe(true);
+  });
+});
+
+describe("McpClient.getCurrentUrl", () => {
+  it("parses the URL from get_url responses", async () => {
+    callTool.mockResolvedValueOnce({ content: [{ type: "text", text: "Current URL: https://example.com/path?q=1" }] });
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    await expect(client.getCurrentUrl()).resolves.toBe("https://example.com/path?q=1");
+    expect(callTool).toHaveBeenCalledWith({ name: "browserbase_stagehand_get_url", arguments: {} }, undefined, undefined);
+  });
+
+  it("returns null when the tool is unavailable", async () => {
+    callTool.mockRejectedValueOnce(new Error("MCP error -32602: Tool browserbase_stagehand_get_url not found"));
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    await expect(client.getCurrentUrl()).resolves.toBeNull();
+  });
+});
+
+describe("extractUrl", () => {
+  it("accepts bare URLs and about:blank", () => {
+    expect(extractUrl("https://example.com")).toBe("https://example.com");
+    expect(extractUrl("Current URL: about:blank")).toBe("about:blank");
+    expect(extractUrl("No page loaded")).toBeNull();
+  });
+});
+
+describe("extractData", () => {
+  it("parses JSON after the extract preamble and keeps plain text as-is", () => {
+    expect(extractData('Extracted content:\n{\n  "price": 42\n}')).toEqual({ price: 42 });
+    expect(extractData("[1, 2]")).toEqual([1, 2]);
+    expect(extractData("Extracted content: The page is empty")).toBe("The page is empty");
+  });
+});
+
+describe("McpClient.createSession", () => {
+  it("rejects responses without a session URL", async () => {
+    callTool.mockResolvedValueOnce({ content: [{ type: "text", text: "Session created" }] });
+    const client = new McpClient({ url: "http://mcp.test/mcp" });
+
+    await expect(client.createSession()).rejects.toThrow("Failed to extract sessionId from response");
+  });
+});
+
+describe("extractSessionId", () => {
+  it("ignores non-text items and text without a session URL", () => {
+    expect(extractSessionId([{ type: "image", data: "abc" }, { type: "text", text: "no session here" }])).toBeNull();
+  });
+});
+
+describe("normalizeScreenshot", () => {
+  it("keeps data URLs and http URLs as-is", () => {
+    expect(normalizeScreenshot("data:image/jpeg;base64,AAAA")).toBe("data:image/jpeg;base64,AAAA");
+    expect(normalizeScreenshot("https://cdn.test/shot.png")).toBe("https://cdn.test/shot.png");
+  });
+
+  it("prefixes bare base64 as PNG", () => {
+    expect(normalizeScreenshot("iVBORw0KGgo=")).toBe("data:image/png;base64,iVBORw0KGgo=");
+  });
+});
+
+describe("cleanErrorMessage", () => {
+  it("truncates long messages", () => {
+    const cleaned = cleanErrorMessage("x".repeat(600));
+    expect(cleaned).toHaveLength(500 + "... [truncated]".length);
+    expect(cleaned.endsWith("... [truncated]")).toBe(true);
+  });
+
+  it("falls back for empty messages", () => {
+    expect(cleanErrorMessage("")).toBe("Unknown error");
+  });
+});
@@ -1,46 +1,293 @@
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import type { McpFunctionCall } from "@shared/schema";
+import type { FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { fillSecrets, findSecretNames, redactSecrets } from "./secrets";
+import { createAuthFetch, hasMcpAuth } from "./mcp-auth";
+import { describeMcpServer, type McpTransportConfig } from "./mcp-transport";
+import { McpConnection, type McpConnectionPool } from "./mcp-pool";
+
+/**
+ * An MCP server to connect to: a URL (Streamable HTTP or SSE, with the
+ * credentials the transport sends), a command run over stdio, or a pool
+ * that leases out connections to one
+ */
+export type McpServerConfig = (McpTransportConfig | { pool: McpConnectionPool }) & {
+  // Value of a {{secret:name}} placeholder (SecretVault.reveal); without it,
+  // calls that reference a secret fail
+  revealSecret?: (name: string) => Promise<string | undefined>;
+  /** Called with each line a stdio server writes to stderr */
+  onStderr?: (line: string) => void;
+};
+
+// Tools that type into the page: the only ones {{secret:name}} is filled in
+// for, so secrets never end up in URLs or other tools' arguments
+const SECRET_INPUT_TOOLS = new Set(["browserbase_stagehand_act"]);
+
+/**
+ * Clean error messages to remove HTML and show only relevant info
+ */
+export function cleanErrorMessage(errorMessage: string): string {
+  if (!errorMessage) return "Unknown error";
+  
+  // If error contains HTML (like 502 error pages), extract just the status code
+  if (errorMessage.includes("<!DOCTYPE html>") || errorMessage.includes("<html")) {
+    // Try to extract HTTP status code, falling back to the error page title
+    const statusMatch = errorMessage.match(/HTTP (\d{3})/) || errorMessage.match(/<title>\s*(\d{3})\b/i);
+    if (statusMatch) {
+      const statusCode = statusMatch[1];
+      if (statusCode === "502") {
+        return "MCP server is unavailable (502 Bad Gateway). The server may be down or overloaded. Please try again later.";
+      } else if (statusCode === "503") {
+        return "MCP server is temporarily unavailable (503 Service Unavailable). Please try again later.";
+      } else if (statusCode === "504") {
+        return "MCP server request timed out (504 Gateway Timeout). Please try again later.";
+      } else {
+        return `MCP server returned error ${statusCode}. Please check the server status.`;
+      }
+    }
+    // If HTML but no status code found, return generic message
+    return "MCP server returned an HTML error page. The server may be down or misconfigured.";
+  }
+  
+  // If error mentions HTTP status code directly
+  const httpStatusMatch = errorMessage.match(/\(HTTP (\d{3})\)/);
+  if (httpStatusMatch) {
+    const statusCode = httpStatusMatch[1];
+    if (statusCode === "502") {
+      return "MCP server is unavailable (502 Bad Gateway). The server may be down or overloaded.";
+    } else if (statusCode === "503") {
+      return "MCP server is temporarily unavailable (503 Service Unavailable).";
+    } else if (statusCode === "504") {
+      return "MCP server request timed out (504 Gateway Timeout).";
+    }
+  }
+  
+  // Remove long base64 strings or HTML content from error messages
+  let cleaned = errorMessage;
+  // Remove base64 data URLs
+  cleaned = cleaned.replace(/data:[^;]+;base64,[A-Za-z0-9+/=]{100,}/g, "[base64 data removed]");
+  // Remove HTML tags
+  cleaned = cleaned.replace(/<[^>]+>/g, "");
+  // Truncate very long messages
+  if (cleaned.length > 500) {
+    cleaned = cleaned.substring(0, 500) + "... [truncated]";
+  }
+  
+  return cleaned;
+}
+
+/**
+ * Extract sessionId from response content
+ */
+export function extractSessionId(content: any[]): string | null {
+  if (!Array.isArray(content)) return null;
+  
+  for (const item of content) {
+    if (item.type === "text" && item.text) {
+      // Look for sessionId in response (format: sessions/{id})
+      const match = item.text.match(/sessions\/([a-f0-9-]+)/i);
+      if (match) {
+        return match[1];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract the page URL from a browserbase_stagehand_get_url response
+ */
+export function extractUrl(text: string): string | null {
+  const match = text.match(/(?:https?:\/\/|about:|file:\/\/)[^\s"'<>]+/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Parse the data out of a browserbase_stagehand_extract response, which wraps
+ * JSON in an "Extracted content:" preamble. Falls back to the raw text.
+ */
+export function extractData(text: string): unknown {
+  const body = text.replace(/^\s*Extracted content:\s*/i, "").trim();
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Normalize screenshot to proper data:image format
+ * Ensures all screenshots are in viewable format for UI
+ */
+export function normalizeScreenshot(screenshot: string): string {
+  if (!screenshot) return screenshot;
 
-export interface McpServerConfig {
-  url: string;
-  apiKey?: string;
+  // If already in data:image format, return as-is
+  if (screenshot.startsWith("data:image/")) {
+    return screenshot;
+  }
+
+  // If it's a base64 string without prefix, add data:image/png;base64, prefix
+  if (/^[A-Za-z0-9+/=]+$/.test(screenshot) && screenshot.length > 100) {
+    return `data:image/png;base64,${screenshot}`;
+  }
+
+  // If it's a URL, return as-is (browser can handle it)
+  if (screenshot.startsWith("http://") || screenshot.startsWith("https://")) {
+    return screenshot;
+  }
+
+  // Default: assume it's base64 and add prefix
+  return `data:image/png;base64,${screenshot}`;
+}
+
+/**
+ * Extract screenshot from response content
+ * Handles multiple possible formats: base64 data urls, URLs, or embedded in various structures
+ * Returns normalized screenshot in proper viewable format
+ */
+export function extractScreenshot(content: any[]): string | null {
+  if (!Array.isArray(content)) return null;
+  
+  console.log("[MCP] Extracting screenshot from", content.length, "content items");
+  
+  let rawScreenshot: string | null = null;
+  
+  for (const item of content) {
+    console.log("[MCP] Item type:", item.type);
+    
+    // Handle image/resource type directly
+    if (item.type === "image") {
+      console.log("[MCP] Found direct image item");
+      if (item.data && typeof item.data === "string") {
+        // MCP image content carries its mime type separately from the base64 data
+        rawScreenshot = item.mimeType && !item.data.startsWith("data:")
+          ? `data:${item.mimeType};base64,${item.data}`
+          : item.data;
+        break;
+      }
+      if (item.source && item.source.data) {
+        rawScreenshot = item.source.data;
+        break;
+      }
+      if (item.source && item.source.uri) {
+        rawScreenshot = item.source.uri;
+        break;
+      }
+    }
+    
+    if (item.type === "text" && item.text) {
+      console.log("[MCP] Text content length:", item.text.length);
+      
+      // Pattern 1: Direct data:image URL (most common)
+      let match = item.text.match(/data:image\/[^;\s]+;base64,[A-Za-z0-9+/=]+/);
+      if (match) {
+        console.log("[MCP] Found screenshot via direct data URL");
+        rawScreenshot = match[0];
+        break;
+      }
+      
+      // Pattern 2: In markdown code block
+      match = item.text.match(/```[\s\S]*?(data:image\/[^;\s]+;base64,[A-Za-z0-9+/=]+)[\s\S]*?```/);
+      if (match) {
+        console.log("[MCP] Found screenshot via markdown code block");
+        rawScreenshot = match[1];
+        break;
+      }
+      
+      // Pattern 3: In JSON object
+      match = item.text.match(/"(?:image|screenshot|data)":\s*"(data:image\/[^"]+)"/);
+      if (match) {
+        console.log("[MCP] Found screenshot via JSON property");
+        rawScreenshot = match[1];
+        break;
+      }
+      
+      // Pattern 4: URL to image
+      match = item.text.match(/(https?:\/\/[^\s]+\.(?:png|jpg|jpeg|webp|gif))/i);
+      if (match) {
+        console.log("[MCP] Found screenshot via HTTP URL:", match[1]);
+        rawScreenshot = match[1];
+        break;
+      }
+      
+      // Pattern 5: Very long base64 string (likely screenshot)
+      match = item.text.match(/^([A-Za-z0-9+/=]{1000,})$/);
+      if (match) {
+        console.log("[MCP] Found likely screenshot via base64 pattern");
+        rawScreenshot = match[1];
+        break;
+      }
+    }
+  }
+  
+  if (rawScreenshot) {
+    const normalized = normalizeScreenshot(rawScreenshot);
+    console.log("[MCP] Screenshot normalized, format:", normalized.substring(0, 30));
+    return normalized;
+  }
+  
+  console.log("[MCP] No screenshot found in response");
+  return null;
 }
 
+/**
+ * What an Orchestrator or Replayer needs from its MCP connection: a single
+ * McpClient, or an McpFederation of several
+ */
+export type McpToolClient = Pick<
+  McpClient,
+  "connect" | "listTools" | "createSession" | "callFunction" | "getCurrentUrl" | "getSessionId" | "close"
+>;
+
 export class McpClient {
   private config: McpServerConfig;
-  private client: Client | null = null;
+  // Adds the configured credentials to transport requests; kept across
+  // reconnects so OAuth tokens are reused
+  private authFetch: FetchLike | undefined;
+  private connection: McpConnection | null = null;
   private sessionId: string | null = null;
+  // Secrets sent in any call so far, redacted from every response after it
+  private revealedSecrets = new Map<string, string>();
 
   constructor(config: McpServerConfig) {
     this.config = config;
+    this.authFetch = !("pool" in config) && config.transport !== "stdio" && hasMcpAuth(config)
+      ? createAuthFetch(config)
+      : undefined;
   }
 
+  // The connected client, or null when there is none or it was closed
+  // (e.g. a stdio server exited), so the next call reconnects
+  private get client(): Client | null {
+    return this.connection && !this.connection.closed ? this.connection.client : null;
+  }
+
+  /**
+   * Connect, or with a pool lease a connection; an existing connection is
+   * given back first
+   */
   async connect(): Promise<void> {
+    await this.disconnect();
     const maxRetries = 3;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-        console.log(`[MCP] Connecting to ${this.config.url} (attempt ${attempt}/${maxRetries})...`);
-      const transport = new StreamableHTTPClientTransport(new URL(this.config.url));
-
-      this.client = new Client({
-        name: "browserbase-orchestrator",
-        version: "1.0.0",
-      });
-
-        // Add error handler
-        this.client.onerror = (error) => {
-          console.error("[MCP] Client error:", error);
-        };
-
-      await this.client.connect(transport);
+        console.log(`[MCP] Connecting to ${this.describeServer()} (attempt ${attempt}/${maxRetries})...`);
+        const onStderr = (line: string) => this.forwardStderr(line);
+        if ("pool" in this.config) {
+          this.connection = await this.config.pool.acquire();
+          this.connection.onStderr = onStderr;
+        } else {
+          this.connection = await McpConnection.open(this.config, { fetch: this.authFetch, onStderr });
+        }
         console.log("[MCP] Successfully connected to MCP server");
         return; // Success, exit retry loop
     } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
-        const cleanMessage = this.cleanErrorMessage(lastError.message);
+        const cleanMessage = cleanErrorMessage(lastError.message);
         console.error(`[MCP] Connection attempt ${attempt} failed:`, cleanMessage);
         
         if (attempt < maxRetries) {
@@ -52,7 +299,7 @@ export class McpClient {
     }
 
     // All retries failed
-    const cleanMessage = lastError ? this.cleanErrorMessage(lastError.message) : "Unknown error";
+    const cleanMessage = lastError ? cleanErrorMessage(lastError.message) : "Unknown error";
     throw new Error(`Failed to connect to MCP server after ${maxRetries} attempts: ${cleanMessage}`);
   }
 
@@ -69,20 +316,16 @@ export class McpClient {
       }
 
       console.log("[MCP] Listing available tools...");
-      const response = await this.client.listTools();
-      const tools = Array.isArray(response.tools) ? response.tools : [];
+      const tools = await this.fetchTools();
       console.log(`[MCP] Found ${tools.length} tools`);
       return tools;
     } catch (error) {
       console.error("[MCP] Failed to list tools:", error);
       // Try to reconnect once
       try {
-        this.client = null;
+        await this.disconnect(true);
         await this.connect();
-        if (this.client) {
-          const response = await this.client.listTools();
-          return Array.isArray(response.tools) ? response.tools : [];
-        }
+        return await this.fetchTools();
       } catch (retryError) {
         console.error("[MCP] Retry also failed:", retryError);
       }
@@ -90,190 +333,6 @@ export class McpClient {
     }
   }
 
-  /**
-   * Clean error messages to remove HTML and show only relevant info
-   */
-  private cleanErrorMessage(errorMessage: string): string {
-    if (!errorMessage) return "Unknown error";
-    
-    // If error contains HTML (like 502 error pages), extract just the status code
-    if (errorMessage.includes("<!DOCTYPE html>") || errorMessage.includes("<html")) {
-      // Try to extract HTTP status code
-      const statusMatch = errorMessage.match(/HTTP (\d{3})/);
-      if (statusMatch) {
-        const statusCode = statusMatch[1];
-        if (statusCode === "502") {
-          return "MCP server is unavailable (502 Bad Gateway). The server may be down or overloaded. Please try again later.";
-        } else if (statusCode === "503") {
-          return "MCP server is temporarily unavailable (503 Service Unavailable). Please try again later.";
-        } else if (statusCode === "504") {
-          return "MCP server request timed out (504 Gateway Timeout). Please try again later.";
-        } else {
-          return `MCP server returned error ${statusCode}. Please check the server status.`;
-        }
-      }
-      // If HTML but no status code found, return generic message
-      return "MCP server returned an HTML error page. The server may be down or misconfigured.";
-    }
-    
-    // If error mentions HTTP status code directly
-    const httpStatusMatch = errorMessage.match(/\(HTTP (\d{3})\)/);
-    if (httpStatusMatch) {
-      const statusCode = httpStatusMatch[1];
-      if (statusCode === "502") {
-        return "MCP server is unavailable (502 Bad Gateway). The server may be down or overloaded.";
-      } else if (statusCode === "503") {
-        return "MCP server is temporarily unavailable (503 Service Unavailable).";
-      } else if (statusCode === "504") {
-        return "MCP server request timed out (504 Gateway Timeout).";
-      }
-    }
-    
-    // Remove long base64 strings or HTML content from error messages
-    let cleaned = errorMessage;
-    // Remove base64 data URLs
-    cleaned = cleaned.replace(/data:[^;]+;base64,[A-Za-z0-9+/=]{100,}/g, "[base64 data removed]");
-    // Remove HTML tags
-    cleaned = cleaned.replace(/<[^>]+>/g, "");
-    // Truncate very long messages
-    if (cleaned.length > 500) {
-      cleaned = cleaned.substring(0, 500) + "... [truncated]";
-    }
-    
-    return cleaned;
-  }
-
-  /**
-   * Extract sessionId from response content
-   */
-  private extractSessionId(content: any[]): string | null {
-    if (!Array.isArray(content)) return null;
-    
-    for (const item of content) {
-      if (item.type === "text" && item.text) {
-        // Look for sessionId in response (format: sessions/{id})
-        const match = item.text.match(/sessions\/([a-f0-9-]+)/i);
-        if (match) {
-          return match[1];
-        }
-      }
-    }
-    return null;
-  }
-
-  /**
-   * Normalize screenshot to proper data:image format
-   * Ensures all screenshots are in viewable format for UI
-   */
-  private normalizeScreenshot(screenshot: string): string {
-    if (!screenshot) return screenshot;
-
-    // If already in data:image format, return as-is
-    if (screenshot.startsWith("data:image/")) {
-      return screenshot;
-    }
-
-    // If it's a base64 string without prefix, add data:image/png;base64, prefix
-    if (/^[A-Za-z0-9+/=]+$/.test(screenshot) && screenshot.length > 100) {
-      return `data:image/png;base64,${screenshot}`;
-    }
-
-    // If it's a URL, return as-is (browser can handle it)
-    if (screenshot.startsWith("http://") || screenshot.startsWith("https://")) {
-      return screenshot;
-    }
-
-    // Default: assume it's base64 and add prefix
-    return `data:image/png;base64,${screenshot}`;
-  }
-
-  /**
-   * Extract screenshot from response content
-   * Handles multiple possible formats: base64 data urls, URLs, or embedded in various structures
-   * Returns normalized screenshot in proper viewable format
-   */
-  private extractScreenshot(content: any[]): string | null {
-    if (!Array.isArray(content)) return null;
-    
-    console.log("[MCP] Extracting screenshot from", content.length, "content items");
-    
-    let rawScreenshot: string | null = null;
-    
-    for (const item of content) {
-      console.log("[MCP] Item type:", item.type);
-      
-      // Handle image/resource type directly
-      if (item.type === "image") {
-        console.log("[MCP] Found direct image item");
-        if (item.data && typeof item.data === "string") {
-          rawScreenshot = item.data;
-          break;
-        }
-        if (item.source && item.source.data) {
-          rawScreenshot = item.source.data;
-          break;
-        }
-        if (item.source && item.source.uri) {
-          rawScreenshot = item.source.uri;
-          break;
-        }
-      }
-      
-      if (item.type === "text" && item.text) {
-        console.log("[MCP] Text content length:", item.text.length);
-        
-        // Pattern 1: Direct data:image URL (most common)
-        let match = item.text.match(/data:image\/[^;\s]+;base64,[A-Za-z0-9+/=]+/);
-        if (match) {
-          console.log("[MCP] Found screenshot via direct data URL");
-          rawScreenshot = match[0];
-          break;
-        }
-        
-        // Pattern 2: In markdown code block
-        match = item.text.match(/```[\s\S]*?(data:image\/[^;\s]+;base64,[A-Za-z0-9+/=]+)[\s\S]*?```/);
-        if (match) {
-          console.log("[MCP] Found screenshot via markdown code block");
-          rawScreenshot = match[1];
-          break;
-        }
-        
-        // Pattern 3: In JSON object
-        match = item.text.match(/"(?:image|screenshot|data)":\s*"(data:image\/[^"]+)"/);
-        if (match) {
-          console.log("[MCP] Found screenshot via JSON property");
-          rawScreenshot = match[1];
-          break;
-        }
-        
-        // Pattern 4: URL to image
-        match = item.text.match(/(https?:\/\/[^\s]+\.(?:png|jpg|jpeg|webp|gif))/i);
-        if (match) {
-          console.log("[MCP] Found screenshot via HTTP URL:", match[1]);
-          rawScreenshot = match[1];
-          break;
-        }
-        
-        // Pattern 5: Very long base64 string (likely screenshot)
-        match = item.text.match(/^([A-Za-z0-9+/=]{1000,})$/);
-        if (match) {
-          console.log("[MCP] Found likely screenshot via base64 pattern");
-          rawScreenshot = match[1];
-          break;
-        }
-      }
-    }
-    
-    if (rawScreenshot) {
-      const normalized = this.normalizeScreenshot(rawScreenshot);
-      console.log("[MCP] Screenshot normalized, format:", normalized.substring(0, 30));
-      return normalized;
-    }
-    
-    console.log("[MCP] No screenshot found in response");
-    return null;
-  }
-
   /**
    * Create a new browser session or reuse an existing one for replay
    * 
@@ -303,7 +362,7 @@ export class McpClient {
         });
 
         // Extract sessionId from response to verify it's the same
-        const returnedSessionId = this.extractSessionId((result.content as any[]) || []);
+        const returnedSessionId = extractSessionId((result.content as any[]) || []);
         if (returnedSessionId && returnedSessionId === replaySessionId) {
           this.sessionId = returnedSessionId;
           console.log("[MCP] Session reused successfully:", returnedSessionId);
@@ -327,7 +386,7 @@ export class McpClient {
         arguments: {},
       });
 
-      const sessionId = this.extractSessionId((result.content as any[]) || []);
+      const sessionId = extractSessionId((result.content as any[]) || []);
       if (!sessionId) {
         throw new Error("Failed to extract sessionId from response");
       }
@@ -367,11 +426,19 @@ export class McpClient {
   }
 
   /**
-   * Call an MCP function with automatic sessionId injection
+   * Call an MCP function with automatic sessionId injection. A call that
+   * outlives `timeoutMs` (SDK default 60s) fails with `timedOut` set. Aborting
+   * `signal` cancels the call on the server and rejects with the abort reason
+   * instead of returning an error.
+   *
+   * {{secret:name}} placeholders in the arguments are filled in here and
+   * nowhere else; secret values are redacted from the result and error, so
+   * callers only ever see the placeholders.
    */
   async callFunction(
-    functionCall: Omit<McpFunctionCall, "result" | "error">
-  ): Promise<McpFunctionCall & { sessionId?: string; screenshot?: string }> {
+    functionCall: Omit<McpFunctionCall, "result" | "error">,
+    options: { timeoutMs?: number; signal?: AbortSignal } = {},
+  ): Promise<McpFunctionCall & { sessionId?: string; screenshot?: string; timedOut?: boolean }> {
     try {
       // Ensure connection is established
       if (!this.client) {
@@ -393,11 +460,17 @@ export class McpClient {
       }
 
       console.log(`[MCP] Calling ${functionCall.function}`, arguments_with_session);
-      
+
+      if (!SECRET_INPUT_TOOLS.has(functionCall.function) && findSecretNames(JSON.stringify(arguments_with_session)).length > 0) {
+        throw new Error(`Secrets can only be typed into the page with browserbase_stagehand_act, not sent to ${functionCall.function}`);
+      }
+      const { value: filledArguments, used } = await fillSecrets(arguments_with_session, (name) => this.revealSecret(name));
+      used.forEach((value, name) => this.revealedSecrets.set(name, value));
+
       const result = await this.client.callTool({
         name: functionCall.function,
-        arguments: arguments_with_session,
-      });
+        arguments: filledArguments,
+      }, undefined, options.timeoutMs || options.signal ? { timeout: options.timeoutMs, signal: options.signal } : undefined);
 
       console.log(`[MCP] Response received from ${functionCall.function}, content items:`, (result.content as any[])?.length);
 
@@ -409,11 +482,11 @@ export class McpClient {
       if (Array.isArray(content)) {
         for (const item of content) {
           if (item.type === "text" && typeof item.text === "string") {
-            resultText += item.text;
+            resultText += this.redact(item.text);
 
             // Extract sessionId from session_create responses
             if (functionCall.function === "browserbase_session_create") {
-              const sessionIdMatch = this.extractSessionId(content);
+              const sessionIdMatch = extractSessionId(content);
               if (sessionIdMatch) {
                 extractedSessionId = sessionIdMatch;
                 this.sessionId = sessionIdMatch;
@@ -423,13 +496,21 @@ export class McpClient {
         }
 
         // Try to extract screenshot from any response
-        const potentialScreenshot = this.extractScreenshot(content);
+        const potentialScreenshot = extractScreenshot(content);
         if (potentialScreenshot) {
           screenshot = potentialScreenshot;
           console.log("[MCP] Screenshot extracted and normalized, length:", screenshot.length, "format:", screenshot.substring(0, 30));
         }
       }
 
+      // Tool-level failures come back as a normal result flagged isError
+      if (result.isError) {
+        return {
+          ...functionCall,
+          error: cleanErrorMessage(resultText || `${functionCall.function} failed`),
+        };
+      }
+
       const response: any = {
         ...functionCall,
         result: resultText,
@@ -443,26 +524,103 @@ export class McpClient {
 
       return response;
     } catch (error) {
-      console.error("MCP function call error:", error);
+      options.signal?.throwIfAborted();
+      const message = this.redact(error instanceof Error ? error.message : "Unknown error");
+      console.error("MCP function call error:", message);
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+        return {
+          ...functionCall,
+          error: `${functionCall.function} timed out${options.timeoutMs ? ` after ${options.timeoutMs}ms` : ""}`,
+          timedOut: true,
+        };
+      }
       return {
         ...functionCall,
-        error: error instanceof Error ? error.message : "Unknown error",
+        error: cleanErrorMessage(message),
       };
     }
   }
 
+  private async revealSecret(name: string): Promise<string | undefined> {
+    if (!this.config.revealSecret) {
+      throw new Error(`Secret ${name} is not available: secrets are not configured`);
+    }
+    return this.config.revealSecret(name);
+  }
+
+  /**
+   * Tools of the connected server; pooled connections share a cached list
+   */
+  private async fetchTools(): Promise<any[]> {
+    const connection = this.connection;
+    if (!connection || connection.closed) {
+      throw new Error("MCP client not initialized");
+    }
+    if ("pool" in this.config) {
+      return this.config.pool.listTools(connection);
+    }
+    const response = await connection.client.listTools();
+    return Array.isArray(response.tools) ? response.tools : [];
+  }
+
+  private describeServer(): string {
+    return "pool" in this.config ? this.config.pool.describe() : describeMcpServer(this.config);
+  }
+
+  private forwardStderr(line: string): void {
+    const text = this.redact(line);
+    if (this.config.onStderr) {
+      this.config.onStderr(text);
+    } else {
+      console.error("[MCP] Server stderr:", text);
+    }
+  }
+
+  /**
+   * Give the connection back to the pool, or close it (stopping a stdio
+   * server's process). A `broken` one is closed even when pooled.
+   */
+  private async disconnect(broken = false): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    if (!connection) return;
+    if ("pool" in this.config) {
+      if (broken) {
+        await this.config.pool.discard(connection);
+      } else {
+        this.config.pool.release(connection);
+      }
+    } else {
+      await connection.close();
+    }
+  }
+
+  private redact(text: string): string {
+    return this.revealedSecrets.size > 0 ? redactSecrets(text, this.revealedSecrets) : text;
+  }
+
+  /**
+   * Read the current page URL via browserbase_stagehand_get_url. Returns null
+   * if the server doesn't support it or the call fails; `options` are as for
+   * callFunction.
+   */
+  async getCurrentUrl(options: { timeoutMs?: number; signal?: AbortSignal } = {}): Promise<string | null> {
+    const response = await this.callFunction({
+      function: "browserbase_stagehand_get_url",
+      arguments: {},
+    }, options);
+    if (response.error || typeof response.result !== "string") {
+      return null;
+    }
+    return extractUrl(response.result);
+  }
+
   getSessionId(): string | null {
     return this.sessionId;
   }
 
   async close(): Promise<void> {
     await this.closeSession();
-    if (this.client) {
-      try {
-        await this.client.close();
-      } catch (error) {
-        console.error("Error closing MCP client:", error);
-      }
-    }
+    await this.disconnect();
   }
 }
@@ -0,0 +1,170 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Task } from "@shared/schema";
+import { ScriptedLlmProvider, type LlmProvider } from "./llm-provider";
+import { McpEndpoint } from "./mcp-endpoint";
+import { McpConnectionPool } from "./mcp-pool";
+import { MockMcpServer } from "./mock-mcp-server";
+import { MemStorage } from "./storage";
+import { TaskManager } from "./task-manager";
+
+const HOME = "https://example.com";
+const WORKSPACE = "agents";
+
+// The provider tasks run with, set by each test that runs one
+const llm = vi.hoisted(() => ({ provider: undefined as LlmProvider | undefined }));
+vi.mock("./llm-provider", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./llm-provider")>();
+  return { ...actual, createLlmProvider: () => llm.provider! };
+});
+
+function parse(result: CallToolResult): any {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("McpEndpoint", () => {
+  const browser = new MockMcpServer({ pages: { [HOME]: { title: "Example Domain" } } });
+  const storage = new MemStorage();
+  let pool: McpConnectionPool;
+  let taskManager: TaskManager;
+  let httpServer: Server;
+  let client: Client;
+  let recorded: Task;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await browser.start();
+
+    pool = new McpConnectionPool({ server: { url: browser.url }, minIdle: 0 });
+    taskManager = new TaskManager({
+      storage,
+      mcpPool: pool,
+      onLog: (log) => endpoint.handleLog(log),
+      onTaskUpdate: (task) => endpoint.handleTaskUpdate(task),
+    });
+    const endpoint = new McpEndpoint({ storage, taskManager, waitTimeoutMs: 1000 });
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = { id: "user", username: "agent", workspaceId: WORKSPACE, createdAt: 0 };
+      next();
+    });
+    app.all("/mcp", endpoint.handler());
+    httpServer = app.listen(0);
+    await new Promise((resolve) => httpServer.once("listening", resolve));
+
+    const original = await storage.createTask({ prompt: "Open example.com", workspaceId: WORKSPACE });
+    recorded = (await storage.updateTask(original.id, {
+      status: "completed",
+      replayState: { sessionId: "recorded", actions: [{ function: "browserbase_stagehand_navigate", arguments: { url: HOME } }] },
+    }))!;
+
+    client = new Client({ name: "test-agent", version: "1.0.0" });
+    const { port } = httpServer.address() as AddressInfo;
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await taskManager.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await browser.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("offers the task tools", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "run_browser_task", "get_task", "replay_task", "answer_task_question", "approve_task_action", "list_tasks",
+    ]);
+  });
+
+  it("replays a task, streaming its logs as progress until it finishes", async () => {
+    const progress: string[] = [];
+
+    const result = await client.callTool({ name: "replay_task", arguments: { id: recorded.id } }, undefined, {
+      onprogress: ({ message }) => progress.push(message ?? ""),
+    }) as CallToolResult;
+
+    const replay = parse(result);
+    expect(result.isError).toBe(false);
+    expect(replay.status).toBe("completed");
+    expect(replay.prompt).toBe("Replay: Open example.com");
+    expect(progress).toContain(`[success] Navigated to ${HOME}`);
+  });
+
+  it("returns the queued task at once when not waiting, for get_task to poll", async () => {
+    const result = await client.callTool({ name: "replay_task", arguments: { id: recorded.id, wait: false } }) as CallToolResult;
+    const queued = parse(result);
+
+    await vi.waitFor(async () => {
+      const polled = parse(await client.callTool({ name: "get_task", arguments: { id: queued.id } }) as CallToolResult);
+      expect(polled.status).toBe("completed");
+    });
+    const listed = parse(await client.callTool({ name: "list_tasks", arguments: { status: "completed" } }) as CallToolResult);
+    expect(listed.map((task: Task) => task.id)).toContain(queued.id);
+  });
+
+  it("returns a task paused on a question, and waits again once it is answered", async () => {
+    llm.provider = new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("ask_user", { question: "Which page?" }),
+      ScriptedLlmProvider.reply("Opened the home page"),
+    ]);
+
+    const asked = parse(await client.callTool({ name: "run_browser_task", arguments: { prompt: "Open a page" } }) as CallToolResult);
+    expect(asked).toMatchObject({ status: "awaiting_input", pendingQuestion: { question: "Which page?" } });
+
+    const result = await client.callTool({ name: "answer_task_question", arguments: { id: asked.id, answer: "The home page" } }) as CallToolResult;
+    expect(parse(result)).toMatchObject({ status: "completed", result: "Opened the home page" });
+  });
+
+  it("returns a replay paused for approval, and waits again once it is approved", async () => {
+    const guarded = (await storage.updateTask((await storage.createTask({ prompt: "Open example.com", workspaceId: WORKSPACE })).id, {
+      status: "completed",
+      approvalRules: { formSubmissions: false, purchases: false, offDomain: false, actionPatterns: [], tools: ["browserbase_stagehand_navigate"] },
+      replayState: recorded.replayState,
+    }))!;
+
+    const paused = parse(await client.callTool({ name: "replay_task", arguments: { id: guarded.id } }) as CallToolResult);
+    expect(paused).toMatchObject({ status: "awaiting_approval", pendingApproval: { function: "browserbase_stagehand_navigate" } });
+
+    const result = await client.callTool({ name: "approve_task_action", arguments: { id: paused.id, approved: true } }) as CallToolResult;
+    expect(parse(result).status).toBe("completed");
+  });
+
+  it("gives up waiting after the wait timeout and returns the task as it is", async () => {
+    llm.provider = {
+      name: "stalled",
+      chat: ({ signal }) => new Promise((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason))),
+    };
+
+    const result = await client.callTool({ name: "run_browser_task", arguments: { prompt: "Think forever" } }) as CallToolResult;
+    const running = parse(result);
+
+    expect(result.isError).toBe(false);
+    expect(running.status).toBe("running");
+    await taskManager.cancel(running.id);
+  });
+
+  it("only sees the caller's workspace", async () => {
+    const other = await storage.createTask({ prompt: "Someone else's task", workspaceId: "other" });
+
+    const result = await client.callTool({ name: "get_task", arguments: { id: other.id } }) as CallToolResult;
+    const listed = parse(await client.callTool({ name: "list_tasks", arguments: {} }) as CallToolResult);
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Task not found" }]);
+    expect(listed.map((task: Task) => task.id)).not.toContain(other.id);
+  });
+});
@@ -0,0 +1,285 @@
+import type { RequestHandler } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  approvalDecisionSchema,
+  executeTaskSchema,
+  replayTaskSchema,
+  taskMessageSchema,
+  taskStatusSchema,
+  type LogEntry,
+  type Task,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { TaskManager } from "./task-manager";
+import { isFinished } from "./retention";
+
+const DEFAULT_LIST_LIMIT = 20;
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Whether a tool call returns at once or when the task is done or needs the caller
+const waitSchema = z.boolean().default(true)
+  .describe("Wait for the task to finish or to pause on a question (awaiting_input) or approval (awaiting_approval), streaming its logs as progress notifications (default true). Gives up after a few minutes and returns the task as it is. With false the task is returned at once; poll it with get_task");
+
+export interface McpEndpointConfig {
+  storage: IStorage;
+  taskManager: TaskManager;
+  /** How long a tool call waits for a task before returning it as it is (default 5 minutes) */
+  waitTimeoutMs?: number;
+}
+
+interface TaskWatcher {
+  onLog: (log: LogEntry) => void;
+  onUpdate: (task: Task) => void;
+}
+
+/**
+ * Whether a waiting tool call returns with the task: once it has finished, or
+ * paused on a question or approval the caller hasn't just `answered` (the
+ * task only leaves that pause after the answer reaches it)
+ */
+function needsCaller(task: Task, answered?: string): boolean {
+  if (isFinished(task)) return true;
+  const pending = task.status === "awaiting_input" ? task.pendingQuestion
+    : task.status === "awaiting_approval" ? task.pendingApproval
+    : undefined;
+  return pending !== undefined && pending.id !== answered;
+}
+
+function json(value: unknown, isError = false): CallToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }], isError };
+}
+
+function failure(message: string): CallToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+/**
+ * This service as an MCP server, so other agents can run browser tasks as a
+ * tool: run_browser_task, get_task, replay_task, list_tasks, and
+ * answer_task_question / approve_task_action for tasks paused on the caller,
+ * in the workspace of the caller's API key. A task run through a tool waits
+ * for the task to finish or pause and streams its logs as progress
+ * notifications when the caller sends a progress token. Served statelessly
+ * over Streamable HTTP: each POST gets its own McpServer.
+ */
+export class McpEndpoint {
+  private storage: IStorage;
+  private taskManager: TaskManager;
+  private waitTimeoutMs: number;
+  /** Tool calls waiting on a task, by task id */
+  private watchers = new Map<string, Set<TaskWatcher>>();
+
+  constructor(config: McpEndpointConfig) {
+    this.storage = config.storage;
+    this.taskManager = config.taskManager;
+    this.waitTimeoutMs = config.waitTimeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  }
+
+  /**
+   * Pass on a task log (TaskManager's onLog) to the calls waiting on it
+   */
+  handleLog(log: LogEntry): void {
+    this.watchers.get(log.taskId)?.forEach((watcher) => watcher.onLog(log));
+  }
+
+  /**
+   * Pass on a task update (TaskManager's onTaskUpdate); finished or paused
+   * tasks end the calls waiting on them
+   */
+  handleTaskUpdate(task: Task): void {
+    this.watchers.get(task.id)?.forEach((watcher) => watcher.onUpdate(task));
+  }
+
+  /**
+   * Express handler for the endpoint; mount it behind requireAuth
+   */
+  handler(): RequestHandler {
+    return async (req, res) => {
+      if (req.method !== "POST") {
+        return res.status(405).set("Allow", "POST").json({ message: "Use POST; this MCP endpoint is stateless" });
+      }
+      // Stops waiting for tasks when the caller goes away; the tasks keep running
+      const closed = new AbortController();
+      const server = this.createServer(req.user!.workspaceId, closed.signal);
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on("close", () => {
+        closed.abort(new Error("MCP client disconnected"));
+        void transport.close();
+        void server.close();
+      });
+      try {
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        console.error("[MCP Endpoint] Failed to handle request:", error);
+        if (!res.headersSent) {
+          res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal server error" }, id: null });
+        }
+      }
+    };
+  }
+
+  private createServer(workspaceId: string, closed: AbortSignal): McpServer {
+    const server = new McpServer({ name: "browserbase-orchestrator", version: "1.0.0" });
+
+    const loadTask = async (id: string): Promise<Task | undefined> => {
+      const task = await this.storage.getTask(id);
+      return task?.workspaceId === workspaceId ? task : undefined;
+    };
+
+    // The finished or paused task when the caller waits for it, otherwise the task as it is
+    const respond = async (
+      task: Task,
+      wait: boolean,
+      extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+      answered?: string,
+    ): Promise<CallToolResult> => {
+      if (!wait) return json(task);
+      const progressToken = extra._meta?.progressToken;
+      let progress = 0;
+      const current = await this.waitForTask(task.id, AbortSignal.any([extra.signal, closed]), answered, (log) => {
+        if (progressToken === undefined) return;
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: ++progress, message: `[${log.level}] ${log.message}` },
+        }).catch((error) => console.error("[MCP Endpoint] Failed to send progress:", error));
+      });
+      return json(current, current.status === "failed");
+    };
+
+    server.registerTool("run_browser_task", {
+      description: "Run a browser automation task from a natural-language prompt and return the finished task with its result, extractions and usage. A task paused on a question or approval is returned as well; answer it with answer_task_question or approve_task_action",
+      inputSchema: { ...executeTaskSchema.shape, wait: waitSchema },
+    }, async ({ prompt, wait, ...options }, extra) => {
+      let task: Task;
+      try {
+        task = await this.taskManager.execute(prompt, { ...options, workspaceId });
+      } catch (error) {
+        return failure(error instanceof Error ? error.message : "Failed to execute task");
+      }
+      return respond(task, wait, extra);
+    });
+
+    server.registerTool("get_task", {
+      description: "Get a task by id: its status, result, error, extractions, usage and replay state",
+      inputSchema: { id: z.string() },
+    }, async ({ id }) => {
+      const task = await loadTask(id);
+      return task ? json(task) : failure("Task not found");
+    });
+
+    server.registerTool("replay_task", {
+      description: "Replay a finished task's recorded actions without the LLM, filling in its {{variables}}, and return the replay task",
+      inputSchema: { id: z.string(), ...replayTaskSchema.shape, wait: waitSchema },
+    }, async ({ id, onDivergence, variables, wait }, extra) => {
+      const original = await loadTask(id);
+      if (!original) return failure("Task not found");
+      let task: Task;
+      try {
+        task = await this.taskManager.replay(original, { onDivergence, variables });
+      } catch (error) {
+        return failure(error instanceof Error ? error.message : "Failed to replay task");
+      }
+      return respond(task, wait, extra);
+    });
+
+    server.registerTool("answer_task_question", {
+      description: "Answer the question a task asked (status awaiting_input, see its pendingQuestion), then wait for it like run_browser_task",
+      inputSchema: { id: z.string(), answer: taskMessageSchema.shape.content, wait: waitSchema },
+    }, async ({ id, answer, wait }, extra) => {
+      const task = await loadTask(id);
+      if (!task) return failure("Task not found");
+      if (task.status !== "awaiting_input" || !task.pendingQuestion) {
+        return failure("Task is not waiting for an answer");
+      }
+      try {
+        await this.taskManager.postMessage(task.id, answer);
+      } catch (error) {
+        return failure(error instanceof Error ? error.message : "Failed to answer question");
+      }
+      return respond(task, wait, extra, task.pendingQuestion.id);
+    });
+
+    server.registerTool("approve_task_action", {
+      description: "Approve or reject the tool call a task is paused on (status awaiting_approval, see its pendingApproval), then wait for it like run_browser_task. A rejection reason is passed on to the model",
+      inputSchema: { id: z.string(), approved: z.boolean(), ...approvalDecisionSchema.shape, wait: waitSchema },
+    }, async ({ id, approved, approvalId, reason, wait }, extra) => {
+      const task = await loadTask(id);
+      if (!task) return failure("Task not found");
+      try {
+        this.taskManager.decideApproval(task.id, { approved, approvalId, reason });
+      } catch (error) {
+        return failure(error instanceof Error ? error.message : "Failed to decide on approval");
+      }
+      return respond(task, wait, extra, approvalId ?? task.pendingApproval?.id);
+    });
+
+    server.registerTool("list_tasks", {
+      description: "List the workspace's tasks, newest first",
+      inputSchema: {
+        status: taskStatusSchema.optional(),
+        limit: z.number().int().min(1).max(100).default(DEFAULT_LIST_LIMIT),
+      },
+    }, async ({ status, limit }) => {
+      const tasks = (await this.storage.getAllTasks(workspaceId))
+        .filter((task) => !status || task.status === status)
+        .slice(0, limit);
+      return json(tasks.map(({ id, prompt, status, createdAt, completedAt, error }) => ({ id, prompt, status, createdAt, completedAt, error })));
+    });
+
+    return server;
+  }
+
+  /**
+   * Resolves with the task once it has finished or paused on something other
+   * than `answered`, passing its logs to `onLog` until then, or with the task
+   * as it is after the wait timeout; rejects when `signal` aborts first
+   */
+  private waitForTask(
+    taskId: string,
+    signal: AbortSignal,
+    answered: string | undefined,
+    onLog: (log: LogEntry) => void,
+  ): Promise<Task> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) return reject(signal.reason);
+      const watchers = this.watchers.get(taskId) ?? new Set<TaskWatcher>();
+      let timer: NodeJS.Timeout | undefined;
+      let done = false;
+      const stop = () => {
+        done = true;
+        clearTimeout(timer);
+        watchers.delete(watcher);
+        if (watchers.size === 0) this.watchers.delete(taskId);
+        signal.removeEventListener("abort", onAbort);
+      };
+      const watcher: TaskWatcher = {
+        onLog,
+        onUpdate: (task) => {
+          if (done || !needsCaller(task, answered)) return;
+          stop();
+          resolve(task);
+        },
+      };
+      const onAbort = () => {
+        stop();
+        reject(signal.reason);
+      };
+      watchers.add(watcher);
+      this.watchers.set(taskId, watchers);
+      signal.addEventListener("abort", onAbort, { once: true });
+      timer = setTimeout(() => {
+        stop();
+        this.storage.getTask(taskId).then((task) => task ? resolve(task) : reject(new Error("Task not found")), reject);
+      }, this.waitTimeoutMs);
+      // In case it finished or paused before we started watching
+      this.storage.getTask(taskId).then((task) => {
+        if (task) watcher.onUpdate(task);
+      }, reject);
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { McpClient } from "./mcp-client";
+import { McpFederation } from "./mcp-federation";
+import { MockMcpServer } from "./mock-mcp-server";
+import { Orchestrator } from "./orchestrator";
+import { ScriptedLlmProvider } from "./llm-provider";
+import { Replayer } from "./replay";
+
+const HOME = "https://example.com";
+
+describe("McpFederation", () => {
+  const browser = new MockMcpServer({ pages: { [HOME]: { title: "Example Domain" } } });
+  const files = new MockMcpServer({
+    pages: {},
+    tools: { read_file: (args) => `Contents of ${args.path}` },
+  });
+  const noopLog = async () => {};
+
+  function federate(): McpFederation {
+    return new McpFederation({
+      primary: new McpClient({ url: browser.url }),
+      servers: { files: new McpClient({ url: files.url }) },
+    });
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await Promise.all([browser.start(), files.start()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([browser.stop(), files.stop()]);
+    vi.restoreAllMocks();
+  });
+
+  it("lists the browser tools as they are and attached tools with their server's prefix", async () => {
+    const client = federate();
+
+    const tools = await client.listTools();
+    await client.close();
+
+    const names = tools.map((tool) => tool.name);
+    expect(names).toContain("browserbase_stagehand_navigate");
+    expect(names).toContain("files__read_file");
+    expect(tools.find((tool) => tool.name === "files__read_file")?.description).toBe("[files] Mock read_file tool");
+  });
+
+  it("routes calls to their server, records where they ran and replays them there", async () => {
+    const orchestrator = new Orchestrator({
+      mcpClient: federate(),
+      llm: new ScriptedLlmProvider([
+        ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: HOME }),
+        ScriptedLlmProvider.toolCall("files__read_file", { path: "notes.txt" }),
+        ScriptedLlmProvider.reply("Done"),
+      ]),
+      model: "scripted",
+      onLog: noopLog,
+    });
+
+    const result = await orchestrator.execute("Open example.com and read notes.txt");
+    const recorded = orchestrator.getReplayState()!;
+
+    expect(result.success).toBe(true);
+    expect(files.calls).toEqual([{ name: "read_file", arguments: { path: "notes.txt" } }]);
+    expect(browser.calls.map((call) => call.name)).not.toContain("read_file");
+    expect(recorded.actions.map(({ function: name, server }) => [name, server])).toEqual([
+      ["browserbase_stagehand_navigate", undefined],
+      ["files__read_file", "files"],
+    ]);
+
+    const replayer = new Replayer({ mcpClient: federate(), onLog: noopLog });
+    const report = await replayer.run(recorded);
+
+    expect(report.divergences).toEqual([]);
+    // No browser session id is sent to an attached server
+    expect(files.calls.at(-1)).toEqual({ name: "read_file", arguments: { path: "notes.txt" } });
+  });
+
+  it("fails calls to a server that isn't attached", async () => {
+    const client = federate();
+
+    const response = await client.callFunction({ function: "read_table", arguments: {}, server: "db" });
+    await client.close();
+
+    expect(response.error).toBe("MCP server db is not attached to this task");
+  });
+});
@@ -0,0 +1,91 @@
+import type { McpFunctionCall } from "@shared/schema";
+import type { McpClient, McpToolClient } from "./mcp-client";
+
+// Joins an attached server's name and its tool's name: files__read_file
+const TOOL_NAME_SEPARATOR = "__";
+
+export function qualifyToolName(server: string, name: string): string {
+  return `${server}${TOOL_NAME_SEPARATOR}${name}`;
+}
+
+/**
+ * The browser MCP server plus the servers attached to a task behind one
+ * client. The browser server's tools keep their names, so prompts, policies,
+ * approvals and existing replays are unaffected; an attached server's tools
+ * are offered as <server>__<tool> and calls to them are routed back to it.
+ * Browser sessions and page state only involve the browser server.
+ */
+export class McpFederation implements McpToolClient {
+  private primary: McpClient;
+  private servers: Map<string, McpClient>;
+
+  constructor(config: { primary: McpClient; servers: Record<string, McpClient> }) {
+    this.primary = config.primary;
+    this.servers = new Map(Object.entries(config.servers));
+  }
+
+  async connect(): Promise<void> {
+    await Promise.all([this.primary, ...Array.from(this.servers.values())].map((client) => client.connect()));
+  }
+
+  /**
+   * The browser server's tools followed by each attached server's, renamed
+   * with the server's prefix
+   */
+  async listTools(): Promise<any[]> {
+    const [own, ...attached] = await Promise.all([
+      this.primary.listTools(),
+      ...Array.from(this.servers, async ([server, client]) => (await client.listTools()).map((tool) => ({
+        ...tool,
+        name: qualifyToolName(server, tool.name),
+        description: `[${server}] ${tool.description ?? ""}`.trim(),
+      }))),
+    ]);
+    return [...own, ...attached.flat()];
+  }
+
+  createSession(replaySessionId?: string): Promise<string> {
+    return this.primary.createSession(replaySessionId);
+  }
+
+  /**
+   * Call a tool on the server named by `server` or, failing that, by the
+   * tool name's prefix; anything else goes to the browser server. Results of
+   * attached servers carry the `server` they ran on.
+   */
+  async callFunction(
+    functionCall: Omit<McpFunctionCall, "result" | "error">,
+    options: { timeoutMs?: number; signal?: AbortSignal } = {},
+  ): Promise<McpFunctionCall & { sessionId?: string; screenshot?: string; timedOut?: boolean }> {
+    const server = functionCall.server ?? this.serverOf(functionCall.function);
+    if (!server) {
+      return this.primary.callFunction(functionCall, options);
+    }
+    const client = this.servers.get(server);
+    if (!client) {
+      return { ...functionCall, error: `MCP server ${server} is not attached to this task` };
+    }
+    const prefix = qualifyToolName(server, "");
+    const name = functionCall.function.startsWith(prefix) ? functionCall.function.slice(prefix.length) : functionCall.function;
+    const response = await client.callFunction({ function: name, arguments: functionCall.arguments }, options);
+    return { ...response, function: functionCall.function, server };
+  }
+
+  getCurrentUrl(options?: { timeoutMs?: number; signal?: AbortSignal }): Promise<string | null> {
+    return this.primary.getCurrentUrl(options);
+  }
+
+  getSessionId(): string | null {
+    return this.primary.getSessionId();
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.primary, ...Array.from(this.servers.values())].map((client) => client.close()));
+  }
+
+  private serverOf(toolName: string): string | undefined {
+    const index = toolName.indexOf(TOOL_NAME_SEPARATOR);
+    const server = index > 0 ? toolName.slice(0, index) : undefined;
+    return server && this.servers.has(server) ? server : undefined;
+  }
+}
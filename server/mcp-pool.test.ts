@@ -0,0 +1,103 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { McpClient } from "./mcp-client";
+import { McpConnectionPool } from "./mcp-pool";
+import { MockMcpServer } from "./mock-mcp-server";
+
+describe("McpConnectionPool", () => {
+  const server = new MockMcpServer({
+    pages: { "https://example.com/": { title: "Example Domain" } },
+  });
+  let pool: McpConnectionPool;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps a connection warm and leases it to one client after another", async () => {
+    pool = new McpConnectionPool({ server: { url: server.url } });
+    pool.start();
+    const acquire = vi.spyOn(pool, "acquire");
+
+    for (const url of ["https://example.com/", "https://example.com/"]) {
+      const client = new McpClient({ pool });
+      await client.connect();
+      await client.createSession();
+      const navigated = await client.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url } });
+      expect(navigated.error).toBeUndefined();
+      await client.close();
+    }
+
+    const [first, second] = await Promise.all(acquire.mock.results.map((result) => result.value));
+    expect(second).toBe(first);
+  });
+
+  it("lists tools once until the server says they changed", async () => {
+    pool = new McpConnectionPool({ server: { url: server.url }, minIdle: 0 });
+    const connection = await pool.acquire();
+    const listTools = vi.spyOn(connection.client, "listTools");
+
+    const tools = await pool.listTools(connection);
+    expect(await pool.listTools(connection)).toBe(tools);
+    expect(listTools).toHaveBeenCalledTimes(1);
+
+    server.notifyToolListChanged();
+    await vi.waitFor(async () => {
+      await pool.listTools(connection);
+      expect(listTools).toHaveBeenCalledTimes(2);
+    });
+    expect(tools.map((tool) => tool.name)).toContain("browserbase_stagehand_navigate");
+  });
+
+  it("replaces idle connections that fail their health check", async () => {
+    pool = new McpConnectionPool({ server: { url: server.url }, minIdle: 1 });
+    const broken = await pool.acquire();
+    pool.release(broken);
+    vi.spyOn(broken.client, "ping").mockRejectedValue(new Error("Session not found"));
+
+    await pool.checkHealth();
+
+    expect(broken.closed).toBe(true);
+    const replacement = await pool.acquire();
+    expect(replacement).not.toBe(broken);
+    expect(replacement.closed).toBe(false);
+  });
+
+  it("closes idle connections beyond minIdle after the idle timeout", async () => {
+    pool = new McpConnectionPool({ server: { url: server.url }, minIdle: 0, idleTimeoutMs: 0 });
+    const connection = await pool.acquire();
+    pool.release(connection);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    await pool.checkHealth();
+
+    expect(connection.closed).toBe(true);
+  });
+
+  it("discards a connection the client found broken", async () => {
+    pool = new McpConnectionPool({ server: { url: server.url }, minIdle: 0 });
+    const connection = await pool.acquire();
+    pool.release(connection);
+    vi.spyOn(connection.client, "listTools").mockRejectedValueOnce(new Error("Connection reset"));
+    const discard = vi.spyOn(pool, "discard");
+    const client = new McpClient({ pool });
+
+    const tools = await client.listTools();
+    await client.close();
+
+    expect(tools.length).toBeGreaterThan(0);
+    expect(discard).toHaveBeenCalledWith(connection);
+    expect(connection.closed).toBe(true);
+  });
+});
@@ -0,0 +1,308 @@
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ToolListChangedNotificationSchema, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import { createAuthFetch, hasMcpAuth } from "./mcp-auth";
+import { createMcpTransport, describeMcpServer, type McpTransportConfig } from "./mcp-transport";
+
+const DEFAULT_MIN_IDLE = 1;
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 30_000;
+const PING_TIMEOUT_MS = 10_000;
+// Longer stderr lines from a stdio server are cut to this many characters
+const MAX_STDERR_LINE = 1000;
+
+/**
+ * One connected MCP client and its transport (for stdio, its child process)
+ */
+export class McpConnection {
+  readonly client: Client;
+  /** Receives the lines a stdio server writes to stderr; our console otherwise */
+  onStderr?: (line: string) => void;
+  /** Set once the transport has closed, by us or because the server went away */
+  closed = false;
+
+  private constructor(client: Client) {
+    this.client = client;
+  }
+
+  static async open(
+    config: McpTransportConfig,
+    options: { fetch?: FetchLike; onStderr?: (line: string) => void } = {},
+  ): Promise<McpConnection> {
+    const transport = createMcpTransport(config, options.fetch);
+    const connection = new McpConnection(new Client({
+      name: "browserbase-orchestrator",
+      version: "1.0.0",
+    }));
+    connection.onStderr = options.onStderr;
+    if (transport instanceof StdioClientTransport) {
+      connection.captureStderr(transport);
+    }
+    connection.client.onerror = (error) => {
+      console.error("[MCP] Client error:", error);
+    };
+    connection.client.onclose = () => {
+      connection.closed = true;
+    };
+
+    try {
+      await connection.client.connect(transport);
+    } catch (error) {
+      // Stops the child process of a stdio server that failed to initialize
+      await connection.close();
+      throw error;
+    }
+    return connection;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    try {
+      await this.client.close();
+    } catch (error) {
+      console.error("Error closing MCP client:", error);
+    }
+  }
+
+  private captureStderr(transport: StdioClientTransport): void {
+    const stderr = transport.stderr as Readable | null;
+    if (!stderr) return;
+    createInterface({ input: stderr }).on("line", (line) => {
+      if (!line.trim()) return;
+      const text = line.length > MAX_STDERR_LINE ? `${line.slice(0, MAX_STDERR_LINE)}... [truncated]` : line;
+      if (this.onStderr) {
+        this.onStderr(text);
+      } else {
+        console.error("[MCP] Server stderr:", text);
+      }
+    });
+  }
+}
+
+export interface McpConnectionPoolConfig {
+  server: McpTransportConfig;
+  /** Idle connections kept open for the next lease (default 1) */
+  minIdle?: number;
+  /** Idle connections beyond minIdle are closed after this long (default 5 min) */
+  idleTimeoutMs?: number;
+  /** How often idle connections are pinged (default 30s) */
+  healthCheckIntervalMs?: number;
+}
+
+/**
+ * Number of warm connections to keep from MCP_POOL_MIN_IDLE (0 disables
+ * warming)
+ */
+export function getMcpPoolMinIdle(): number {
+  const parsed = parseInt(process.env.MCP_POOL_MIN_IDLE || "", 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_MIN_IDLE;
+}
+
+/**
+ * Long-lived connections to one MCP server, leased to a task or replay at a
+ * time so runs skip the connect handshake. Idle connections are pinged and
+ * replaced when they stop answering, and `minIdle` of them are kept warm.
+ * The tool list is fetched once and shared until the server sends
+ * tools/list_changed.
+ */
+export class McpConnectionPool {
+  private server: McpTransportConfig;
+  private minIdle: number;
+  private idleTimeoutMs: number;
+  private healthCheckIntervalMs: number;
+  // Shared by all connections so they reuse one OAuth token
+  private fetch: FetchLike | undefined;
+  // Most recently released last
+  private idle: { connection: McpConnection; since: number }[] = [];
+  private leased = new Set<McpConnection>();
+  private opening = 0;
+  // The warm-up in progress, which acquire waits for rather than opening another
+  private filling: Promise<void> | null = null;
+  private tools: Promise<Tool[]> | null = null;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private closed = false;
+
+  constructor(config: McpConnectionPoolConfig) {
+    this.server = config.server;
+    this.minIdle = config.minIdle ?? DEFAULT_MIN_IDLE;
+    this.idleTimeoutMs = config.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.healthCheckIntervalMs = config.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+    this.fetch = this.server.transport !== "stdio" && hasMcpAuth(this.server) ? createAuthFetch(this.server) : undefined;
+  }
+
+  describe(): string {
+    return describeMcpServer(this.server);
+  }
+
+  /**
+   * Open the warm connections and start health checks
+   */
+  start(): void {
+    if (this.healthTimer || this.closed) return;
+    this.healthTimer = setInterval(() => void this.checkHealth(), this.healthCheckIntervalMs);
+    this.healthTimer.unref();
+    void this.fillIdle();
+  }
+
+  /**
+   * A connection for the caller's exclusive use until release or discard
+   */
+  async acquire(): Promise<McpConnection> {
+    if (this.closed) {
+      throw new Error("MCP connection pool is closed");
+    }
+    if (this.idle.length === 0 && this.filling) {
+      await this.filling;
+    }
+    let connection: McpConnection | undefined;
+    while (!connection) {
+      const entry = this.idle.pop();
+      if (!entry) break;
+      if (!entry.connection.closed) connection = entry.connection;
+    }
+    if (connection) {
+      console.log("[MCP] Reusing pooled connection");
+    } else {
+      connection = await this.open();
+    }
+    this.leased.add(connection);
+    // Replace the connection just taken so the next run finds one warm
+    void this.fillIdle();
+    return connection;
+  }
+
+  /**
+   * Return a working connection to the pool
+   */
+  release(connection: McpConnection): void {
+    if (!this.leased.delete(connection)) return;
+    connection.onStderr = undefined;
+    if (this.closed || connection.closed) {
+      void connection.close();
+      return;
+    }
+    this.idle.push({ connection, since: Date.now() });
+  }
+
+  /**
+   * Close a leased connection that failed instead of returning it
+   */
+  async discard(connection: McpConnection): Promise<void> {
+    this.leased.delete(connection);
+    await connection.close();
+  }
+
+  /**
+   * The server's tools, listed through `connection` the first time and after
+   * the server announces a change
+   */
+  async listTools(connection: McpConnection): Promise<Tool[]> {
+    if (!this.tools) {
+      const pending = connection.client.listTools().then((response) => Array.isArray(response.tools) ? response.tools : []);
+      this.tools = pending;
+      pending.catch(() => {
+        if (this.tools === pending) this.tools = null;
+      });
+    }
+    return this.tools;
+  }
+
+  invalidateTools(): void {
+    this.tools = null;
+  }
+
+  /**
+   * Ping idle connections, closing the ones that don't answer and the ones
+   * idle past idleTimeoutMs beyond minIdle, then top the warm set up again
+   */
+  async checkHealth(): Promise<void> {
+    if (this.checking || this.closed) return;
+    this.checking = true;
+    try {
+      const now = Date.now();
+      const entries = [...this.idle];
+      // Oldest first: those are the ones to let go of beyond minIdle
+      let surplus = entries.length - this.minIdle;
+      for (const entry of entries) {
+        let healthy = !entry.connection.closed;
+        if (healthy && surplus > 0 && now - entry.since > this.idleTimeoutMs) {
+          healthy = false;
+        } else if (healthy) {
+          try {
+            await entry.connection.client.ping({ timeout: PING_TIMEOUT_MS });
+          } catch (error) {
+            console.warn("[MCP] Pooled connection failed its health check:", error instanceof Error ? error.message : error);
+            healthy = false;
+          }
+        }
+        // Leave it alone if it was leased while we were pinging
+        const index = this.idle.indexOf(entry);
+        if (!healthy && index !== -1) {
+          this.idle.splice(index, 1);
+          surplus--;
+          await entry.connection.close();
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+    await this.fillIdle();
+  }
+
+  /**
+   * Close every connection, leased ones included
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    const connections = [...this.idle.map((entry) => entry.connection), ...Array.from(this.leased)];
+    this.idle = [];
+    this.leased.clear();
+    await Promise.all(connections.map((connection) => connection.close()));
+  }
+
+  private async open(): Promise<McpConnection> {
+    const connection = await McpConnection.open(this.server, { fetch: this.fetch });
+    connection.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      console.log("[MCP] Server tool list changed");
+      this.invalidateTools();
+    });
+    return connection;
+  }
+
+  private fillIdle(): Promise<void> {
+    if (!this.filling) {
+      this.filling = this.openIdle().finally(() => {
+        this.filling = null;
+      });
+    }
+    return this.filling;
+  }
+
+  private async openIdle(): Promise<void> {
+    while (!this.closed && this.idle.length + this.opening < this.minIdle) {
+      this.opening++;
+      try {
+        const connection = await this.open();
+        if (this.closed) {
+          await connection.close();
+        } else {
+          this.idle.push({ connection, since: Date.now() });
+        }
+      } catch (error) {
+        // Tasks still connect on demand; the next health check tries again
+        console.warn("[MCP] Could not open a warm connection:", error instanceof Error ? error.message : error);
+        return;
+      } finally {
+        this.opening--;
+      }
+    }
+  }
+}
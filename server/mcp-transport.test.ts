@@ -0,0 +1,97 @@
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { McpClient } from "./mcp-client";
+import { getMcpServerConfig } from "./mcp-transport";
+import { MockMcpServer } from "./mock-mcp-server";
+
+const stdioServer = fileURLToPath(new URL("./__fixtures__/stdio-mcp-server.ts", import.meta.url));
+
+describe("getMcpServerConfig", () => {
+  it("defaults to Streamable HTTP with the auth settings", () => {
+    expect(getMcpServerConfig({ MCP_SERVER_URL: "https://mcp.example.com/mcp", MCP_API_KEY: "key" })).toEqual({
+      transport: "streamable-http",
+      url: "https://mcp.example.com/mcp",
+      apiKey: "key",
+      apiKeyHeader: undefined,
+    });
+    expect(getMcpServerConfig({ MCP_TRANSPORT: "sse", MCP_SERVER_URL: "https://mcp.example.com/sse" }))
+      .toEqual({ transport: "sse", url: "https://mcp.example.com/sse" });
+  });
+
+  it("reads a stdio server's command line", () => {
+    expect(getMcpServerConfig({
+      MCP_TRANSPORT: "stdio",
+      MCP_COMMAND: "npx",
+      MCP_ARGS: '["@browserbasehq/mcp", "--headless"]',
+      MCP_ENV: '{"BROWSERBASE_PROJECT_ID": "proj"}',
+    })).toEqual({
+      transport: "stdio",
+      command: "npx",
+      args: ["@browserbasehq/mcp", "--headless"],
+      env: { BROWSERBASE_PROJECT_ID: "proj" },
+      cwd: undefined,
+    });
+  });
+
+  it("rejects invalid settings", () => {
+    expect(() => getMcpServerConfig({ MCP_TRANSPORT: "websocket" })).toThrow(/^Invalid MCP_TRANSPORT/);
+    expect(() => getMcpServerConfig({ MCP_TRANSPORT: "stdio" })).toThrow("MCP_COMMAND is required when MCP_TRANSPORT is stdio");
+    expect(() => getMcpServerConfig({ MCP_TRANSPORT: "stdio", MCP_COMMAND: "npx", MCP_ARGS: '"--headless"' }))
+      .toThrow("Invalid MCP_ARGS: expected a JSON array of strings");
+    expect(() => getMcpServerConfig({ MCP_TRANSPORT: "stdio", MCP_COMMAND: "npx", MCP_ENV: '{"DEBUG": true}' }))
+      .toThrow("Invalid MCP_ENV: expected a JSON object of string values");
+  });
+});
+
+describe("McpClient transports", () => {
+  const server = new MockMcpServer({
+    pages: { "https://example.com/": { title: "Example Domain" } },
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("talks to a legacy SSE server", async () => {
+    const client = new McpClient({ transport: "sse", url: server.sseUrl });
+
+    const tools = await client.listTools();
+    await client.createSession();
+    const navigated = await client.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com/" } });
+    await client.close();
+
+    expect(tools.map((tool) => tool.name)).toContain("browserbase_stagehand_navigate");
+    expect(navigated.error).toBeUndefined();
+    expect(server.calls.map((call) => call.name)).toEqual([
+      "browserbase_session_create",
+      "browserbase_stagehand_navigate",
+      "browserbase_session_close",
+    ]);
+  });
+
+  it("runs a stdio server as a child process and forwards its stderr", async () => {
+    const stderr: string[] = [];
+    const client = new McpClient({
+      transport: "stdio",
+      command: process.execPath,
+      args: ["--import", "tsx", stdioServer],
+      env: { MOCK_GREETING: "hello from the child" },
+      onStderr: (line) => stderr.push(line),
+    });
+
+    await client.createSession();
+    const navigated = await client.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com/" } });
+    await client.close();
+
+    expect(navigated.error).toBeUndefined();
+    expect(navigated.result).toContain("example.com");
+    await vi.waitFor(() => expect(stderr).toContain("Mock MCP server ready (hello from the child)"));
+  }, 30_000);
+});
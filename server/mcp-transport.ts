@@ -0,0 +1,167 @@
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { FetchLike, Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { z } from "zod";
+import { mcpServerNameSchema } from "@shared/schema";
+import { getMcpAuthOptions, type McpAuthOptions } from "./mcp-auth";
+
+const DEFAULT_MCP_SERVER_URL = "https://mcp-browser-automation-render.onrender.com/api/mcp";
+
+/**
+ * An MCP server reached over HTTP: Streamable HTTP (the default), or the
+ * older HTTP+SSE transport for servers that only speak that
+ */
+export interface McpHttpServerConfig extends McpAuthOptions {
+  transport?: "streamable-http" | "sse";
+  url: string;
+}
+
+/**
+ * An MCP server run as a child process, spoken to over stdin/stdout
+ */
+export interface McpStdioServerConfig {
+  transport: "stdio";
+  command: string;
+  args?: string[];
+  /** Added to the few variables (PATH, HOME, ...) the child inherits */
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export type McpTransportConfig = McpHttpServerConfig | McpStdioServerConfig;
+
+/**
+ * Where a server is, for logs: its URL or its command line
+ */
+export function describeMcpServer(config: McpTransportConfig): string {
+  if (config.transport === "stdio") {
+    return [config.command, ...(config.args ?? [])].join(" ");
+  }
+  return config.url;
+}
+
+/**
+ * The SDK transport for a server. `fetch` carries the HTTP transports'
+ * credentials; a stdio transport pipes the child's stderr (read it from
+ * `transport.stderr`) instead of mixing it into ours.
+ */
+export function createMcpTransport(config: McpTransportConfig, fetch?: FetchLike): Transport {
+  switch (config.transport) {
+    case "stdio":
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args,
+        env: config.env,
+        cwd: config.cwd,
+        stderr: "pipe",
+      });
+    case "sse":
+      return new SSEClientTransport(new URL(config.url), fetch ? { fetch } : undefined);
+    default:
+      return new StreamableHTTPClientTransport(new URL(config.url), fetch ? { fetch } : undefined);
+  }
+}
+
+function parseJsonEnv<T>(name: string, raw: string, check: (value: unknown) => boolean, expected: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid ${name}: ${error instanceof Error ? error.message : "not JSON"}`);
+  }
+  if (!check(value)) {
+    throw new Error(`Invalid ${name}: expected ${expected}`);
+  }
+  return value as T;
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isStringRecord(value: unknown): boolean {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value)
+    && Object.values(value as object).every((item) => typeof item === "string");
+}
+
+/**
+ * The MCP server tasks run against, from the environment: MCP_TRANSPORT
+ * picks the transport; HTTP servers are at MCP_SERVER_URL with the
+ * credentials from getMcpAuthOptions, stdio servers are started with
+ * MCP_COMMAND, MCP_ARGS (JSON array), MCP_ENV (JSON object) and MCP_CWD.
+ * Throws when the settings are invalid.
+ */
+export function getMcpServerConfig(env: NodeJS.ProcessEnv = process.env): McpTransportConfig {
+  const transport = env.MCP_TRANSPORT || "streamable-http";
+  if (transport === "stdio") {
+    if (!env.MCP_COMMAND) {
+      throw new Error("MCP_COMMAND is required when MCP_TRANSPORT is stdio");
+    }
+    return {
+      transport,
+      command: env.MCP_COMMAND,
+      args: env.MCP_ARGS
+        ? parseJsonEnv<string[]>("MCP_ARGS", env.MCP_ARGS, isStringArray, "a JSON array of strings")
+        : undefined,
+      env: env.MCP_ENV
+        ? parseJsonEnv<Record<string, string>>("MCP_ENV", env.MCP_ENV, isStringRecord, "a JSON object of string values")
+        : undefined,
+      cwd: env.MCP_CWD || undefined,
+    };
+  }
+  if (transport !== "streamable-http" && transport !== "sse") {
+    throw new Error("Invalid MCP_TRANSPORT: expected streamable-http, sse or stdio");
+  }
+  return {
+    transport,
+    url: env.MCP_SERVER_URL || DEFAULT_MCP_SERVER_URL,
+    ...getMcpAuthOptions(env),
+  };
+}
+
+const mcpServerProfileSchema = z.union([
+  z.object({
+    transport: z.literal("stdio"),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().optional(),
+  }).strict(),
+  z.object({
+    transport: z.enum(["streamable-http", "sse"]).optional(),
+    url: z.string().url(),
+    apiKey: z.string().optional(),
+    apiKeyHeader: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    oauth: z.object({
+      tokenUrl: z.string().url(),
+      clientId: z.string().min(1),
+      clientSecret: z.string().min(1),
+      scope: z.string().optional(),
+      audience: z.string().optional(),
+      authMethod: z.enum(["client_secret_basic", "client_secret_post"]).optional(),
+    }).optional(),
+  }).strict(),
+]);
+
+/**
+ * MCP servers tasks can attach next to the browser server, by name, from
+ * MCP_SERVERS: a JSON object of names to server settings, e.g.
+ * `{"files": {"transport": "stdio", "command": "npx", "args": [...]}}`.
+ * Throws when it is invalid.
+ */
+export function getMcpServerProfiles(env: NodeJS.ProcessEnv = process.env): Record<string, McpTransportConfig> {
+  if (!env.MCP_SERVERS) return {};
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.MCP_SERVERS);
+  } catch (error) {
+    throw new Error(`Invalid MCP_SERVERS: ${error instanceof Error ? error.message : "not JSON"}`);
+  }
+  const parsed = z.record(mcpServerNameSchema, mcpServerProfileSchema).safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid MCP_SERVERS: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,436 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHash, randomUUID } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * An element on a scripted page, returned by observe and usable by act
+ */
+export interface MockElement {
+  description: string;
+  selector: string;
+  method?: string;
+  /** URL the browser ends up on after acting on this element (stays put if omitted) */
+  navigatesTo?: string;
+}
+
+export interface MockPage {
+  title: string;
+  /** Visible text, returned by extract when `extract` is not set */
+  text?: string;
+  /** Natural-language act instructions (matched case-insensitively as substrings) to resulting URL, or null to stay */
+  actions?: Record<string, string | null>;
+  elements?: MockElement[];
+  /** Data returned by browserbase_stagehand_extract */
+  extract?: unknown;
+}
+
+export interface MockMcpServerOptions {
+  /** Scripted pages keyed by URL */
+  pages: Record<string, MockPage>;
+  /**
+   * Extra tools by name, answered with the text the function returns for
+   * the call's arguments (e.g. to stand in for a non-browser MCP server)
+   */
+  tools?: Record<string, (args: Record<string, any>) => string>;
+}
+
+export interface MockToolCall {
+  name: string;
+  arguments: Record<string, any>;
+}
+
+interface MockSession {
+  id: string;
+  url: string | null;
+  closed: boolean;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Deterministic screenshot: a small solid PNG whose colour is derived from the URL
+ */
+export function mockScreenshot(url: string | null, size = 16): string {
+  const digest = createHash("sha256").update(url ?? "about:blank").digest();
+  const [r, g, b] = [digest[0], digest[1], digest[2]];
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+  const row = Buffer.concat([Buffer.from([0]), Buffer.from(Array.from({ length: size }, () => [r, g, b]).flat())]);
+  const pixels = Buffer.concat(Array.from({ length: size }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]).toString("base64");
+}
+
+function text(value: string): CallToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+function toolError(message: string): CallToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+/**
+ * In-process stand-in for the Browserbase MCP server. Serves the same
+ * `browserbase_*` tools over Streamable HTTP (and legacy SSE at `sseUrl`)
+ * against a set of scripted pages, so McpClient, Orchestrator and replays can
+ * run without network access. `connect` serves it over any other transport.
+ */
+export class MockMcpServer {
+  readonly calls: MockToolCall[] = [];
+  private pages: Record<string, MockPage>;
+  private tools: Record<string, (args: Record<string, any>) => string>;
+  private sessions = new Map<string, MockSession>();
+  private transports = new Map<string, StreamableHTTPServerTransport>();
+  private sseTransports = new Map<string, SSEServerTransport>();
+  private servers = new Set<McpServer>();
+  private httpServer: Server | null = null;
+  private origin: string | null = null;
+
+  constructor(options: MockMcpServerOptions) {
+    this.pages = options.pages;
+    this.tools = options.tools ?? {};
+  }
+
+  get url(): string {
+    return `${this.getOrigin()}/mcp`;
+  }
+
+  /** Endpoint of the legacy HTTP+SSE transport */
+  get sseUrl(): string {
+    return `${this.getOrigin()}/sse`;
+  }
+
+  private getOrigin(): string {
+    if (!this.origin) {
+      throw new Error("Mock MCP server is not running");
+    }
+    return this.origin;
+  }
+
+  getSession(sessionId: string): MockSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  async start(): Promise<string> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("[MockMCP] Request failed:", error);
+        if (!res.headersSent) {
+          res.writeHead(500).end(String(error));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => this.httpServer!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.httpServer.address() as AddressInfo;
+    this.origin = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  /**
+   * Send tools/list_changed to every connected client
+   */
+  notifyToolListChanged(): void {
+    this.servers.forEach((server) => server.sendToolListChanged());
+  }
+
+  /**
+   * Serve the tools over a transport of the caller's, e.g. stdio
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.createMcpServer().connect(transport);
+  }
+
+  async stop(): Promise<void> {
+    for (const transport of Array.from(this.transports.values())) {
+      await transport.close();
+    }
+    this.transports.clear();
+    for (const transport of Array.from(this.sseTransports.values())) {
+      await transport.close();
+    }
+    this.sseTransports.clear();
+    if (this.httpServer) {
+      const server = this.httpServer;
+      this.httpServer = null;
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString("utf8");
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.url?.startsWith("/sse") || req.url?.startsWith("/messages")) {
+      await this.handleSseRequest(req, res);
+      return;
+    }
+    if (!req.url?.startsWith("/mcp")) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const body = req.method === "POST" ? await this.readBody(req) : undefined;
+    const sessionHeader = req.headers["mcp-session-id"];
+    const existing = typeof sessionHeader === "string" ? this.transports.get(sessionHeader) : undefined;
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.transports.set(id, transport);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.transports.delete(transport.sessionId);
+        }
+      };
+      await this.createMcpServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message: "Bad Request: No valid session ID provided" },
+      id: null,
+    }));
+  }
+
+  private async handleSseRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method === "GET" && req.url?.startsWith("/sse")) {
+      const transport = new SSEServerTransport("/messages", res);
+      this.sseTransports.set(transport.sessionId, transport);
+      transport.onclose = () => {
+        this.sseTransports.delete(transport.sessionId);
+      };
+      await this.connect(transport);
+      return;
+    }
+
+    const sessionId = new URL(req.url ?? "", "http://localhost").searchParams.get("sessionId");
+    const transport = sessionId ? this.sseTransports.get(sessionId) : undefined;
+    if (req.method !== "POST" || !transport) {
+      res.writeHead(404).end("Unknown SSE session");
+      return;
+    }
+    await transport.handlePostMessage(req, res, await this.readBody(req));
+  }
+
+  private resolveSession(args: Record<string, any>): MockSession | string {
+    if (!args.sessionId) {
+      return "No sessionId provided";
+    }
+    const session = this.sessions.get(args.sessionId);
+    if (!session || session.closed) {
+      return `Session ${args.sessionId} not found or closed`;
+    }
+    return session;
+  }
+
+  private currentPage(session: MockSession): MockPage | undefined {
+    return session.url ? this.pages[session.url] : undefined;
+  }
+
+  private record(name: string, args: Record<string, any>) {
+    this.calls.push({ name, arguments: args });
+  }
+
+  private createMcpServer(): McpServer {
+    const server = new McpServer({ name: "mock-browserbase", version: "1.0.0" });
+    this.servers.add(server);
+    server.server.onclose = () => {
+      this.servers.delete(server);
+    };
+    const sessionId = z.string().optional();
+
+    server.registerTool("browserbase_session_create", {
+      description: "Create or reuse a Browserbase browser session",
+      inputSchema: { sessionId },
+    }, async (args) => {
+      this.record("browserbase_session_create", args);
+      const id = args.sessionId ?? randomUUID();
+      const existing = this.sessions.get(id);
+      if (existing) {
+        existing.closed = false;
+      } else {
+        this.sessions.set(id, { id, url: null, closed: false });
+      }
+      return text(`Browserbase session ${existing ? "reused" : "created"}: https://www.browserbase.com/sessions/${id}`);
+    });
+
+    server.registerTool("browserbase_session_close", {
+      description: "Close a Browserbase session",
+      inputSchema: { sessionId },
+    }, async (args) => {
+      this.record("browserbase_session_close", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      session.closed = true;
+      return text(`Session ${session.id} closed`);
+    });
+
+    server.registerTool("browserbase_stagehand_navigate", {
+      description: "Navigate to a URL",
+      inputSchema: { url: z.string(), sessionId },
+    }, async (args) => {
+      this.record("browserbase_stagehand_navigate", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      if (!this.pages[args.url]) {
+        return toolError(`Failed to navigate to ${args.url}: net::ERR_NAME_NOT_RESOLVED`);
+      }
+      session.url = args.url;
+      return text(`Navigated to ${args.url}`);
+    });
+
+    server.registerTool("browserbase_stagehand_act", {
+      description: "Perform an action on the page, by instruction or with an observation",
+      inputSchema: {
+        action: z.string().optional(),
+        observation: z.record(z.any()).optional(),
+        variables: z.record(z.any()).optional(),
+        sessionId,
+      },
+    }, async (args) => {
+      this.record("browserbase_stagehand_act", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      const page = this.currentPage(session);
+      if (!page) return toolError("No page loaded");
+
+      if (args.observation) {
+        const element = page.elements?.find((candidate) => candidate.selector === args.observation?.selector);
+        if (!element) {
+          return toolError(`Could not find element matching selector ${args.observation.selector}`);
+        }
+        if (element.navigatesTo) session.url = element.navigatesTo;
+        return text(`Action performed: ${element.description}`);
+      }
+
+      const instruction = (args.action || "").toLowerCase();
+      const match = Object.entries(page.actions || {}).find(([key]) => instruction.includes(key.toLowerCase()));
+      if (!match) {
+        return toolError(`Could not perform action "${args.action}": no matching element found`);
+      }
+      if (match[1]) session.url = match[1];
+      return text(`Action performed: ${args.action}`);
+    });
+
+    server.registerTool("browserbase_stagehand_observe", {
+      description: "Find elements on the page and return deterministic observations",
+      inputSchema: { instruction: z.string(), returnAction: z.boolean().optional(), sessionId },
+    }, async (args) => {
+      this.record("browserbase_stagehand_observe", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      const page = this.currentPage(session);
+      const words = args.instruction.toLowerCase().split(/\s+/).filter((word) => word.length > 3);
+      const observations = (page?.elements || [])
+        .filter((element) => words.length === 0 || words.some((word) => element.description.toLowerCase().includes(word)))
+        .map((element) => ({
+          method: element.method || "click",
+          selector: element.selector,
+          xpath: `//*[@data-mock="${element.selector}"]`,
+          arguments: [],
+          description: element.description,
+        }));
+      return text(`Observations:\n${JSON.stringify(observations, null, 2)}`);
+    });
+
+    server.registerTool("browserbase_stagehand_extract", {
+      description: "Extract structured data from the page",
+      inputSchema: { instruction: z.string().optional(), sessionId },
+    }, async (args) => {
+      this.record("browserbase_stagehand_extract", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      const page = this.currentPage(session);
+      if (!page) return toolError("No page loaded");
+      return text(`Extracted content:\n${JSON.stringify(page.extract ?? { title: page.title, text: page.text ?? "" }, null, 2)}`);
+    });
+
+    server.registerTool("browserbase_stagehand_get_url", {
+      description: "Get the current page URL",
+      inputSchema: { sessionId },
+    }, async (args) => {
+      this.record("browserbase_stagehand_get_url", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      return text(`Current URL: ${session.url ?? "about:blank"}`);
+    });
+
+    server.registerTool("browserbase_screenshot", {
+      description: "Take a screenshot of the current page",
+      inputSchema: { sessionId },
+    }, async (args) => {
+      this.record("browserbase_screenshot", args);
+      const session = this.resolveSession(args);
+      if (typeof session === "string") return toolError(session);
+      return { content: [{ type: "image", data: mockScreenshot(session.url), mimeType: "image/png" }] };
+    });
+
+    for (const [name, reply] of Object.entries(this.tools)) {
+      server.registerTool(name, {
+        description: `Mock ${name} tool`,
+        inputSchema: z.object({}).passthrough(),
+      }, async (args) => {
+        this.record(name, args);
+        return text(reply(args));
+      });
+    }
+
+    return server;
+  }
+}
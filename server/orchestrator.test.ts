@@ -0,0 +1,339 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fixtures from "./__fixtures__/mcp-responses.json";
+import { McpClient } from "./mcp-client";
+import { Orchestrator } from "./orchestrator";
+import { ScriptedLlmProvider } from "./llm-provider";
+import { UsageTracker } from "./usage";
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+function createOrchestrator(mcpClient: McpClient) {
+  const logs: Array<{ level: string; message: string }> = [];
+  const orchestrator = new Orchestrator({
+    mcpClient,
+    llm: new ScriptedLlmProvider([]),
+    model: "scripted",
+    onLog: async (level, message) => {
+      logs.push({ level, message });
+    },
+  });
+  return { orchestrator, logs };
+}
+
+describe("Orchestrator.execute error reporting", () => {
+  it.each(fixtures.errors.map((fixture) => [fixture.name, fixture] as const))("cleans %s", async (_name, fixture) => {
+    const mcpClient = new McpClient({ url: "http://mcp.test/mcp" });
+    vi.spyOn(mcpClient, "connect").mockResolvedValue();
+    vi.spyOn(mcpClient, "listTools").mockResolvedValue([{ name: "browserbase_stagehand_navigate" }]);
+    vi.spyOn(mcpClient, "createSession").mockRejectedValue(new Error(fixture.error));
+    const { orchestrator, logs } = createOrchestrator(mcpClient);
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: fixture.expected.error });
+    expect(logs).toContainEqual({ level: "error", message: `Task failed: ${fixture.expected.error}` });
+  });
+});
+
+describe("Orchestrator.execute budget", () => {
+  it("stops the loop with a clear error once the budget is exceeded", async () => {
+    const mcpClient = new McpClient({ url: "http://mcp.test/mcp" });
+    vi.spyOn(mcpClient, "connect").mockResolvedValue();
+    vi.spyOn(mcpClient, "listTools").mockResolvedValue([{ name: "browserbase_stagehand_navigate" }]);
+    vi.spyOn(mcpClient, "createSession").mockResolvedValue("session-1");
+    vi.spyOn(mcpClient, "callFunction").mockImplementation(async (call) => ({ ...call, result: "ok" }));
+    vi.spyOn(mcpClient, "close").mockResolvedValue();
+    const navigate = ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: "https://example.com" });
+    const usage = new UsageTracker({ model: "scripted", budget: { maxTokens: 2500 } });
+    const reported: number[] = [];
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: new ScriptedLlmProvider([navigate, navigate, navigate], { promptTokens: 1000, completionTokens: 100 }),
+      model: "scripted",
+      onLog: async () => {},
+      usage,
+      onUsage: async (totals) => {
+        reported.push(totals.calls.length);
+      },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Budget exceeded: used 3300 of the 2500 token budget after 3 LLM call(s)",
+      limitReached: "budget",
+    });
+    expect(reported).toEqual([1, 2, 3]);
+    expect(orchestrator.getUsage().promptTokens).toBe(3000);
+  });
+});
+
+describe("Orchestrator.execute policy", () => {
+  const navigate = ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: "https://example.com" });
+
+  function connectedClient() {
+    const mcpClient = new McpClient({ url: "http://mcp.test/mcp" });
+    vi.spyOn(mcpClient, "connect").mockResolvedValue();
+    vi.spyOn(mcpClient, "listTools").mockResolvedValue([{ name: "browserbase_stagehand_navigate" }]);
+    vi.spyOn(mcpClient, "createSession").mockResolvedValue("session-1");
+    vi.spyOn(mcpClient, "close").mockResolvedValue();
+    return mcpClient;
+  }
+
+  it("reports maxIterations when the loop runs out of iterations", async () => {
+    const mcpClient = connectedClient();
+    vi.spyOn(mcpClient, "callFunction").mockImplementation(async (call) => ({ ...call, result: "ok" }));
+    const llm = new ScriptedLlmProvider([navigate, navigate, navigate]);
+    const orchestrator = new Orchestrator({
+      mcpClient, llm, model: "scripted", onLog: async () => {},
+      policy: { maxIterations: 2, maxCompletionTokens: 1024 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: "Max iterations reached (2)", limitReached: "maxIterations" });
+    expect(llm.requests.map((request) => request.maxTokens)).toEqual([1024, 1024]);
+  });
+
+  it("stops after too many tool calls fail in a row", async () => {
+    const mcpClient = connectedClient();
+    vi.spyOn(mcpClient, "callFunction").mockImplementation(async (call) => ({ ...call, error: "Element not found" }));
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: new ScriptedLlmProvider([navigate, navigate, navigate, navigate]),
+      model: "scripted",
+      onLog: async () => {},
+      policy: { maxConsecutiveFailures: 3 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: "3 tool calls failed in a row", limitReached: "maxConsecutiveFailures" });
+  });
+
+  it("answers a tool call with malformed arguments with an error the model can retry", async () => {
+    const mcpClient = connectedClient();
+    const callFunction = vi.spyOn(mcpClient, "callFunction").mockImplementation(async (call) => ({ ...call, result: "ok" }));
+    const llm = new ScriptedLlmProvider([
+      {
+        role: "assistant",
+        content: null,
+        toolCalls: [{ id: "call_1", name: "browserbase_stagehand_navigate", arguments: "{\"url\": \"https://exa" }],
+      },
+      ScriptedLlmProvider.reply("Done"),
+    ]);
+    const orchestrator = new Orchestrator({ mcpClient, llm, model: "scripted", onLog: async () => {} });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result.success).toBe(true);
+    expect(callFunction).not.toHaveBeenCalled();
+    expect(llm.requests[1].messages).toContainEqual({
+      role: "tool",
+      toolCallId: "call_1",
+      content: "Error: The arguments are not valid JSON. Call the tool again with a JSON object.",
+    });
+  });
+
+  it("passes the per-call timeout to MCP and stops when a call times out", async () => {
+    const mcpClient = connectedClient();
+    const callFunction = vi.spyOn(mcpClient, "callFunction")
+      .mockImplementation(async (call) => ({ ...call, error: "timed out", timedOut: true }));
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: new ScriptedLlmProvider([navigate]),
+      model: "scripted",
+      onLog: async () => {},
+      policy: { mcpCallTimeoutMs: 5000 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(callFunction.mock.calls[0][1]).toEqual({ timeoutMs: 5000 });
+    expect(result).toEqual({ success: false, error: "navigate did not respond within 5000ms", limitReached: "mcpCallTimeoutMs" });
+  });
+
+  it("stops an LLM call that runs past the maximum duration", async () => {
+    const mcpClient = connectedClient();
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: { name: "slow", chat: () => new Promise(() => {}) },
+      model: "scripted",
+      onLog: async () => {},
+      policy: { maxDurationMs: 20 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: "Task exceeded its maximum duration of 20ms", limitReached: "maxDurationMs" });
+  });
+
+  it("aborts the LLM call in flight once the maximum duration passes", async () => {
+    const mcpClient = connectedClient();
+    let providerSignal: AbortSignal | undefined;
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: {
+        name: "slow",
+        chat: (request) => {
+          providerSignal = request.signal;
+          return new Promise(() => {});
+        },
+      },
+      model: "scripted",
+      onLog: async () => {},
+      policy: { maxDurationMs: 20 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result.limitReached).toBe("maxDurationMs");
+    expect(providerSignal?.aborted).toBe(true);
+  });
+
+  it("aborts the MCP call in flight once the maximum duration passes", async () => {
+    const mcpClient = connectedClient();
+    let callSignal: AbortSignal | undefined;
+    vi.spyOn(mcpClient, "callFunction").mockImplementation((_call, options) => {
+      callSignal = options?.signal;
+      return new Promise(() => {});
+    });
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: new ScriptedLlmProvider([navigate]),
+      model: "scripted",
+      onLog: async () => {},
+      policy: { maxDurationMs: 50 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: "Task exceeded its maximum duration of 50ms", limitReached: "maxDurationMs" });
+    expect(callSignal?.aborted).toBe(true);
+  });
+
+  it("stops waiting for the checkpoint URL once the maximum duration passes", async () => {
+    const mcpClient = connectedClient();
+    vi.spyOn(mcpClient, "listTools").mockResolvedValue([
+      { name: "browserbase_stagehand_navigate" },
+      { name: "browserbase_stagehand_get_url" },
+    ]);
+    vi.spyOn(mcpClient, "callFunction").mockImplementation(async (call) => ({ ...call, result: "ok" }));
+    let urlSignal: AbortSignal | undefined;
+    vi.spyOn(mcpClient, "getCurrentUrl").mockImplementation((options) => {
+      urlSignal = options?.signal;
+      return new Promise(() => {});
+    });
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: new ScriptedLlmProvider([navigate]),
+      model: "scripted",
+      onLog: async () => {},
+      policy: { maxDurationMs: 50 },
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: "Task exceeded its maximum duration of 50ms", limitReached: "maxDurationMs" });
+    expect(urlSignal?.aborted).toBe(true);
+  });
+});
+
+describe("Orchestrator.execute cancellation", () => {
+  it("aborts the LLM call in flight and still closes the browser session", async () => {
+    const mcpClient = new McpClient({ url: "http://mcp.test/mcp" });
+    vi.spyOn(mcpClient, "connect").mockResolvedValue();
+    vi.spyOn(mcpClient, "listTools").mockResolvedValue([{ name: "browserbase_stagehand_navigate" }]);
+    vi.spyOn(mcpClient, "createSession").mockResolvedValue("session-1");
+    const close = vi.spyOn(mcpClient, "close").mockResolvedValue();
+    const abort = new AbortController();
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm: {
+        name: "slow",
+        chat: ({ signal }) => new Promise((_, reject) => {
+          signal?.addEventListener("abort", () => reject(new Error("Request was aborted.")));
+          abort.abort(new Error("Task cancelled by user"));
+        }),
+      },
+      model: "scripted",
+      onLog: async () => {},
+      signal: abort.signal,
+    });
+
+    const result = await orchestrator.execute("Open example.com");
+
+    expect(result).toEqual({ success: false, error: "Task cancelled by user" });
+    expect(close).toHaveBeenCalled();
+  });
+});
+
+describe("Orchestrator user input", () => {
+  function connectedClient() {
+    const mcpClient = new McpClient({ url: "http://mcp.test/mcp" });
+    vi.spyOn(mcpClient, "connect").mockResolvedValue();
+    vi.spyOn(mcpClient, "listTools").mockResolvedValue([{ name: "browserbase_stagehand_navigate" }]);
+    vi.spyOn(mcpClient, "createSession").mockResolvedValue("session-1");
+    vi.spyOn(mcpClient, "callFunction").mockImplementation(async (call) => ({ ...call, result: "ok" }));
+    vi.spyOn(mcpClient, "close").mockResolvedValue();
+    return mcpClient;
+  }
+
+  it("adds messages from the user before the next LLM call", async () => {
+    const inbox: string[] = [];
+    const llm = new ScriptedLlmProvider([
+      () => {
+        inbox.push("Use the second search result");
+        return ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: "https://example.com" });
+      },
+      ScriptedLlmProvider.reply("Done"),
+    ]);
+    const orchestrator = new Orchestrator({
+      mcpClient: connectedClient(),
+      llm,
+      model: "scripted",
+      onLog: async () => {},
+      userInput: { takeMessages: () => inbox.splice(0), ask: async () => "" },
+    });
+
+    const result = await orchestrator.execute("Search for example domains");
+
+    expect(result.success).toBe(true);
+    expect(llm.requests[1].messages.at(-1)).toEqual({
+      role: "user",
+      content: "Message from the user while you work: Use the second search result",
+    });
+  });
+
+  it("offers ask_user and returns the user's answer as the tool result", async () => {
+    const questions: string[] = [];
+    const llm = new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("ask_user", { question: "Which colour should I pick?" }),
+      ScriptedLlmProvider.reply("Picked blue"),
+    ]);
+    const orchestrator = new Orchestrator({
+      mcpClient: connectedClient(),
+      llm,
+      model: "scripted",
+      onLog: async () => {},
+      userInput: {
+        takeMessages: () => [],
+        ask: async (question) => {
+          questions.push(question);
+          return "Blue";
+        },
+      },
+    });
+
+    const result = await orchestrator.execute("Pick a colour");
+
+    expect(result).toEqual({ success: true, result: "Picked blue" });
+    expect(llm.requests[0].tools?.map((tool) => tool.name)).toContain("ask_user");
+    expect(questions).toEqual(["Which colour should I pick?"]);
+    expect(llm.requests[1].messages.at(-1)).toEqual({ role: "tool", toolCallId: "call_1", content: "The user answered: Blue" });
+  });
+});
@@ -1,31 +1,132 @@
-import OpenAI from "openai";
-import type { McpFunctionCall } from "@shared/schema";
-import { McpClient } from "./mcp-client";
-
-// User requested gpt-4o model
-function getOpenAIClient(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured. Please add your OPENAI_API_KEY to secrets.");
-  }
-  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-}
+import { executionPolicySchema } from "@shared/schema";
+import type { ApprovalRules, ContextStrategy, ExecutionPolicy, ReplayAction, ReplayCheckpoint, ReplayState, TaskLimit, TaskUsage } from "@shared/schema";
+import { cleanErrorMessage, type McpToolClient } from "./mcp-client";
+import type { LlmContentPart, LlmMessage, LlmProvider, LlmTool, LlmToolCall } from "./llm-provider";
+import { hashScreenshot } from "./checkpoints";
+import { ExtractionRecorder } from "./extractions";
+import { UsageTracker } from "./usage";
+import { ContextPruner } from "./context";
+import { PolicyLimitError, withDeadline } from "./policy";
+import { ToolGuard } from "./tool-policy";
+import { ApprovalChecker, type ApprovalDecision, type ApprovalRequest } from "./approvals";
+
+const MAX_REPAIR_ITERATIONS = 5;
+
+// Answered by the user rather than the MCP server; offered when the task takes user input
+const ASK_USER_TOOL: LlmTool = {
+  name: "ask_user",
+  description: "Ask the user a question and wait for their answer. Only use this when you cannot continue without information or a decision that only the user has.",
+  parameters: {
+    type: "object",
+    properties: { question: { type: "string", description: "The question, in one or two sentences" } },
+    required: ["question"],
+  },
+};
 
 export interface OrchestratorConfig {
-  mcpClient: McpClient;
+  mcpClient: McpToolClient;
+  llm: LlmProvider;
+  model: string;
   onLog: (level: "info" | "success" | "error" | "warning", message: string, details?: any) => Promise<void>;
+  /** JSON Schema that extracted data is validated against */
+  outputSchema?: Record<string, any>;
+  /** Token/cost accounting and budget for the task (default: unlimited for `model`) */
+  usage?: UsageTracker;
+  /** Called with the running totals after every LLM call */
+  onUsage?: (usage: TaskUsage) => Promise<void>;
+  /** How old screenshots and tool results are pruned from the conversation */
+  contextStrategy?: ContextStrategy;
+  /** Iteration, time and failure limits for `execute` (defaults: 20 iterations, no other limits) */
+  policy?: Partial<ExecutionPolicy>;
+  /** Cancels the run, aborting the LLM or MCP call in flight */
+  signal?: AbortSignal;
+  /** Tool policies the model's calls are checked against (default: no restrictions) */
+  toolGuard?: ToolGuard;
+  /** Messages the user sends while the task runs, and answers to ask_user */
+  userInput?: {
+    /** Messages sent since the last call, oldest first */
+    takeMessages: () => string[];
+    /** Ask the user a question and wait for the answer */
+    ask: (question: string) => Promise<string>;
+  };
+  /** Pause calls matching `rules` until `request` resolves with a user's decision */
+  approvals?: {
+    rules: ApprovalRules;
+    request: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  };
+}
+
+export interface RepairRequest {
+  /** Prompt of the task being replayed */
+  goal: string;
+  sessionId: string;
+  /** 1-based step number */
+  step: number;
+  action: ReplayAction;
+  expected: ReplayCheckpoint;
+  actual: { url: string | null };
+  error?: string;
+  screenshot?: string;
+}
+
+/**
+ * Describe what a recorded action was meant to do, for repair prompts
+ */
+function describeStepIntent(action: ReplayAction): string {
+  const args = action.arguments;
+  if (args.observation?.description) return args.observation.description;
+  if (args.action) return args.action;
+  if (args.instruction) return args.instruction;
+  if (args.url) return `open ${args.url}`;
+  return action.function;
+}
+
+export interface RepairResult {
+  success: boolean;
+  /** Tool calls made during the repair, in replayState.actions form */
+  actions: ReplayAction[];
+  error?: string;
 }
 
 export class Orchestrator {
-  private mcpClient: McpClient;
+  private mcpClient: McpToolClient;
+  private llm: LlmProvider;
+  private model: string;
   private onLog: OrchestratorConfig["onLog"];
   private tools: any[] = [];
-  private cancelled = false;
+  private signal?: AbortSignal;
+  private toolGuard: ToolGuard;
+  private userInput?: OrchestratorConfig["userInput"];
+  private approvals?: { checker: ApprovalChecker; request: (request: ApprovalRequest) => Promise<ApprovalDecision> };
   private lastScreenshot: string | null = null;
-  private replayState: { sessionId: string; url?: string; pages?: string[]; actions: Array<{ function: string; arguments: Record<string, any> }> } | null = null;
+  private replayState: ReplayState | null = null;
+  private outputSchema?: Record<string, any>;
+  private extractions: ExtractionRecorder;
+  private usage: UsageTracker;
+  private onUsage?: OrchestratorConfig["onUsage"];
+  private context: ContextPruner;
+  private policy: ExecutionPolicy;
+  /** Epoch ms after which the current run stops, from policy.maxDurationMs */
+  private deadline: number | null = null;
+  private consecutiveFailures = 0;
 
   constructor(config: OrchestratorConfig) {
     this.mcpClient = config.mcpClient;
+    this.llm = config.llm;
+    this.model = config.model;
     this.onLog = config.onLog;
+    this.outputSchema = config.outputSchema;
+    this.extractions = new ExtractionRecorder(config.outputSchema);
+    this.usage = config.usage ?? new UsageTracker({ model: config.model });
+    this.onUsage = config.onUsage;
+    this.context = new ContextPruner({ strategy: config.contextStrategy });
+    this.policy = executionPolicySchema.parse(config.policy ?? {});
+    this.signal = config.signal;
+    this.toolGuard = config.toolGuard ?? new ToolGuard([]);
+    this.userInput = config.userInput;
+    if (config.approvals) {
+      this.approvals = { checker: new ApprovalChecker(config.approvals.rules), request: config.approvals.request };
+    }
   }
 
   getReplayState() {
@@ -36,6 +137,14 @@ export class Orchestrator {
     return null;
   }
 
+  getExtractions() {
+    return this.extractions.getExtractions();
+  }
+
+  getUsage() {
+    return this.usage.getUsage();
+  }
+
   /**
    * Clean function names for UI display - remove browserbase_ and stagehand_ prefixes
    */
@@ -72,7 +181,7 @@ export class Orchestrator {
       await this.mcpClient.connect();
       await this.onLog("info", "MCP server connection established");
       
-      this.tools = await this.mcpClient.listTools();
+      this.tools = this.toolGuard.filterTools(await this.mcpClient.listTools());
       if (this.tools.length > 0) {
         await this.onLog("success", `Loaded ${this.tools.length} MCP tools`);
         // Log available tool names for debugging (cleaned for UI)
@@ -90,66 +199,38 @@ export class Orchestrator {
     }
   }
 
-  cancel(): void {
-    this.cancelled = true;
-  }
-
-  async execute(prompt: string): Promise<{ success: boolean; result?: any; error?: string }> {
+  /**
+   * Run a task to completion. When a limit from the execution policy or the
+   * budget ends the run, `limitReached` says which one.
+   */
+  async execute(prompt: string): Promise<{ success: boolean; result?: any; error?: string; limitReached?: TaskLimit }> {
     let sessionId: string | null = null;
+    this.deadline = this.policy.maxDurationMs ? Date.now() + this.policy.maxDurationMs : null;
+    this.consecutiveFailures = 0;
     try {
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error("OpenAI API key not configured. Please add your OPENAI_API_KEY to secrets.");
-      }
-
       await this.initialize();
       await this.onLog("info", `Executing task: ${prompt}`);
+      await this.onLog("info", `Using ${this.llm.name} model ${this.model}`);
 
-      // Create a new browser session
+      // Create a new browser session. Not aborted mid-call: the session id is
+      // needed to close the session again
       await this.onLog("info", "Creating new browser session...");
       sessionId = await this.mcpClient.createSession();
       await this.onLog("success", `Browser session created: ${sessionId}`);
+      this.signal?.throwIfAborted();
       
       // Initialize replay state
       this.replayState = {
         sessionId,
         pages: [],
         actions: [],
+        revision: 1,
       };
 
-      const systemPrompt = `You are a browser automation orchestrator. You have access to browser automation tools via MCP (Model Context Protocol).
-
-Your job is to:
-1. Understand the user's automation task
-2. Break it down into a series of browser actions
-3. Call the appropriate MCP functions in the correct order
-4. The sessionId is automatically managed - just call functions normally
-5. CRITICAL: After EVERY action (navigate, act, observe, etc), a screenshot will be automatically taken
-6. You MUST analyze the screenshot images provided to determine the next action needed
-7. Use the visual information from screenshots to identify elements, text, buttons, forms, etc.
-8. Repeat until the task is complete
-
-CRITICAL WORKFLOW:
-- Step 1: Call browserbase_stagehand_navigate to go to a URL
-- Step 2: Screenshot is automatically taken and shown to you - ANALYZE IT
-- Step 3: Based on screenshot, call browserbase_stagehand_observe to find elements OR browserbase_stagehand_act to perform actions
-- Step 4: Screenshot is automatically taken after each action - ANALYZE IT
-- Step 5: Continue until task is complete
-
-Important Guidelines:
-- Screenshots are automatically captured after navigate and act calls - you will see them in the response
-- ALWAYS analyze the screenshot before deciding the next action
-- Use browserbase_stagehand_observe with returnAction: true to get deterministic selectors
-- Use browserbase_stagehand_act with either 'action' (natural language) or 'observation' (deterministic)
-- If an action fails, look at the screenshot to understand why and try alternative approaches
-- When you see the desired result in the screenshot, report success
-
-Available tools:
-${this.tools.length > 0 ? JSON.stringify(this.tools, null, 2) : "No tools currently available. Try to help the user understand what went wrong."}`;
-
-      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      const messages: LlmMessage[] = [
         {
           role: "system",
-          content: systemPrompt,
+          content: this.buildSystemPrompt(),
         },
         {
           role: "user",
@@ -157,250 +238,517 @@ ${this.tools.length > 0 ? JSON.stringify(this.tools, null, 2) : "No tools curren
         },
       ];
 
-      const tools = this.tools.map((tool) => ({
-        type: "function" as const,
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: tool.parameters,
-        },
-      }));
+      const finalResult = await this.runToolLoop(messages, this.policy.maxIterations);
+      await this.onLog("success", `Task completed: ${finalResult}`);
+      return { success: true, result: finalResult };
+    } catch (error) {
+      const errorMessage = cleanErrorMessage(error instanceof Error ? error.message : "Unknown error");
+      await this.onLog("error", `Task failed: ${errorMessage}`);
+      const limitReached = error instanceof PolicyLimitError ? error.limit : undefined;
+      return { success: false, error: errorMessage, limitReached };
+    } finally {
+      this.deadline = null;
+      // Close the browser session, also after a cancel or a failed start
+      if (sessionId) {
+        await this.onLog("info", "Closing browser session...");
+      }
+      await this.mcpClient.close();
+      
+      // Ensure replayState is valid before returning
+      // It should already be set, but double-check
+      if (this.replayState && this.replayState.sessionId) {
+        console.log(`[Orchestrator] Final replay state: sessionId=${this.replayState.sessionId}, url=${this.replayState.url || "none"}, actions=${this.replayState.actions.length}`);
+      } else {
+        console.log("[Orchestrator] No replay state to save");
+      }
+      
+      // Note: replayState is saved to task in routes.ts, but we keep it in memory
+      // until the task is updated. After that, it will be cleared when orchestrator is reset.
+    }
+  }
+
+  /**
+   * Ask the LLM to bring a diverged replay step back on track in the current
+   * session. The tool calls it makes are returned as replacement actions.
+   */
+  async repairStep(request: RepairRequest): Promise<RepairResult> {
+    const previousReplayState = this.replayState;
+    this.replayState = { sessionId: request.sessionId, actions: [] };
+
+    try {
+      if (this.tools.length === 0) {
+        this.tools = this.toolGuard.filterTools(await this.mcpClient.listTools());
+      }
+      await this.onLog("info", `Asking ${this.llm.name} to repair step ${request.step}...`);
+
+      const { action, expected, actual } = request;
+      const problem = request.error
+        ? `failed with: ${request.error}`
+        : `was expected to end on ${expected.url || "the recorded page"} but the browser is on ${actual.url || "an unknown page"}`;
+      const content: LlmContentPart[] = [{
+        type: "text",
+        text: `A deterministic replay of the task "${request.goal}" went off track. Step ${request.step} (${action.function} with ${JSON.stringify(action.arguments)}) ${problem}.
+
+The step was meant to: ${describeStepIntent(action)}
+
+Use the tools to do what this step was meant to do so that the page matches the recorded state, then reply with a one-line summary. Do not perform any later steps of the task.`,
+      }];
+      if (request.screenshot) {
+        content.unshift({ type: "image", url: request.screenshot });
+      }
+
+      const messages: LlmMessage[] = [
+        { role: "system", content: this.buildSystemPrompt() },
+        { role: "user", content },
+      ];
+      const summary = await this.runToolLoop(messages, MAX_REPAIR_ITERATIONS);
+      await this.onLog("success", `Repair finished: ${summary}`);
+      return { success: true, actions: this.replayState.actions };
+    } catch (error) {
+      const errorMessage = cleanErrorMessage(error instanceof Error ? error.message : "Unknown error");
+      await this.onLog("error", `Repair failed: ${errorMessage}`);
+      return { success: false, actions: this.replayState?.actions ?? [], error: errorMessage };
+    } finally {
+      this.replayState = previousReplayState;
+    }
+  }
 
-      let iterationCount = 0;
-      const maxIterations = 20;
+  /**
+   * Run the LLM/tool-call loop until the model replies without tool calls.
+   * Returns the final reply; throws the abort reason on cancellation, or a PolicyLimitError
+   * when out of iterations or past the deadline.
+   */
+  private async runToolLoop(messages: LlmMessage[], maxIterations: number): Promise<string> {
+    const tools: LlmTool[] = this.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema ?? tool.parameters,
+    }));
+    if (this.userInput) {
+      tools.push(ASK_USER_TOOL);
+    }
 
-      while (iterationCount < maxIterations && !this.cancelled) {
-        iterationCount++;
-        console.log(`[Orchestrator] Iteration ${iterationCount}/${maxIterations}`);
+    let iterationCount = 0;
+    while (iterationCount < maxIterations) {
+      this.signal?.throwIfAborted();
+      iterationCount++;
+      console.log(`[Orchestrator] Iteration ${iterationCount}/${maxIterations}`);
+      this.checkDeadline();
+      this.addUserMessages(messages);
+
+      const pruned = this.context.prune(messages);
+      if (pruned.screenshots > 0 || pruned.toolResults > 0) {
+        console.log(`[Orchestrator] Pruned ${pruned.screenshots} screenshot(s) and ${pruned.toolResults} tool result(s) from context`);
+      }
 
-        const openai = getOpenAIClient();
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o",
+      let response;
+      try {
+        response = await withDeadline((signal) => this.llm.chat({
+          model: this.model,
           messages,
-          tools: tools.length > 0 ? tools : undefined,
-          max_completion_tokens: 4096,
-        });
+          tools,
+          maxTokens: this.policy.maxCompletionTokens,
+          signal,
+        }), this.deadline, () => this.durationExceeded(), this.signal);
+      } catch (error) {
+        // Report a cancel as such rather than as the SDK's abort error
+        this.signal?.throwIfAborted();
+        throw error;
+      }
 
-        const message = response.choices[0].message;
-        messages.push(message);
+      // Throws once the task goes over budget, which ends the loop
+      try {
+        this.usage.record(messages, response.usage);
+      } finally {
+        await this.onUsage?.(this.usage.getUsage());
+      }
 
-        if (message.content) {
-          await this.onLog("info", message.content);
-        }
+      const message = response.message;
+      messages.push(message);
 
-        if (this.cancelled) {
-          throw new Error("Task cancelled by user");
-        }
+      if (message.content) {
+        await this.onLog("info", message.content);
+      }
 
-        if (message.tool_calls && message.tool_calls.length > 0) {
-          for (const toolCall of message.tool_calls) {
-            if (!("function" in toolCall)) continue;
-            const functionName = toolCall.function.name;
-            const functionArgs = JSON.parse(toolCall.function.arguments);
-
-            // Clean function name and args for UI display
-            const cleanFunctionName = this.cleanFunctionName(functionName);
-            const cleanArgs = this.cleanArgsForUI(functionArgs);
-            const cleanArgsStr = Object.keys(cleanArgs).length > 0 ? JSON.stringify(cleanArgs) : "";
-
-            await this.onLog(
-              "info",
-              `Calling ${cleanFunctionName}${cleanArgsStr ? ` with args: ${cleanArgsStr}` : ""}`
-            );
-
-            const result = await this.mcpClient.callFunction({
-              function: functionName,
-              arguments: functionArgs,
-            });
-
-            if (result.error) {
-              await this.onLog("error", `Function ${functionName} failed: ${result.error}`);
-              messages.push({
-                role: "tool",
-                tool_call_id: toolCall.id,
-                content: `Error: ${result.error}`,
-              });
-            } else {
-              // Clean function name for UI display
-              const cleanFunctionName = this.cleanFunctionName(functionName);
-              await this.onLog("success", `${cleanFunctionName} completed successfully`);
-              
-              // Update sessionId if returned from call
-              if (result.sessionId && !sessionId) {
-                sessionId = result.sessionId;
-              }
-
-              // Capture replay state: ALL function calls in exact execution order
-              // This preserves the sequence: navigate -> act -> extract -> navigate -> etc.
-              if (this.replayState) {
-                // Capture navigate calls
-                if (functionName === "browserbase_stagehand_navigate" && functionArgs.url) {
-                  // Store first URL for backward compatibility
-                  if (!this.replayState.url) {
-                    this.replayState.url = functionArgs.url;
-                  }
-                  // Store all pages in order (for backward compatibility)
-                  if (!this.replayState.pages) {
-                    this.replayState.pages = [];
-                  }
-                  // Only add if it's a new page (avoid duplicates of consecutive navigations)
-                  if (this.replayState.pages.length === 0 || 
-                      this.replayState.pages[this.replayState.pages.length - 1] !== functionArgs.url) {
-                    this.replayState.pages.push(functionArgs.url);
-                  }
-                  
-                  // Store navigate call in actions array to preserve order
-                  const actionArgs = { ...functionArgs };
-                  delete actionArgs.sessionId;
-                  this.replayState.actions.push({
-                    function: functionName,
-                    arguments: actionArgs,
-                  });
-                }
-                // Capture act, extract, and screenshot calls for replay
-                else if (functionName === "browserbase_stagehand_act" || 
-                         functionName === "browserbase_stagehand_extract" || 
-                         functionName === "browserbase_screenshot") {
-                  // Store the action for replay (without sessionId to avoid duplication)
-                  const actionArgs = { ...functionArgs };
-                  delete actionArgs.sessionId;
-                  this.replayState.actions.push({
-                    function: functionName,
-                    arguments: actionArgs,
-                  });
-                }
-              }
-
-              // Check if the function result itself contains a screenshot
-              let screenshotData: string | null = null;
-              if (result.screenshot) {
-                screenshotData = result.screenshot;
-                this.lastScreenshot = screenshotData;
-                console.log("[Orchestrator] Screenshot found in function result, length:", screenshotData.length);
-                await this.onLog("info", "Screenshot captured", { screenshot: screenshotData });
-              }
-              
-              // Automatically take a screenshot after ANY action that affects the page state
-              // This includes: navigate, act, observe (if it changes state), etc.
-              const shouldTakeScreenshot = [
-                "browserbase_stagehand_act",
-                "browserbase_stagehand_navigate",
-                "browserbase_stagehand_observe", // Sometimes observe can trigger page changes
-              ].includes(functionName);
-              
-              if (!screenshotData && shouldTakeScreenshot) {
-                await this.onLog("info", "Taking screenshot to see current state...");
-                try {
-                const screenshotResult = await this.mcpClient.callFunction({
-                  function: "browserbase_screenshot",
-                    arguments: { sessionId: result.sessionId || sessionId },
-                });
-                
-                if (!screenshotResult.error) {
-                  if (screenshotResult.screenshot) {
-                    screenshotData = screenshotResult.screenshot;
-                    this.lastScreenshot = screenshotData;
-                      console.log("[Orchestrator] Screenshot captured and normalized, length:", screenshotData.length);
-                      // Log screenshot for UI display - ensure it's in proper format
-                      // Note: storage.addLog will extract screenshot from details and add it to log.screenshot
-                    await this.onLog("info", "Screenshot captured", { screenshot: screenshotData });
-                    } else {
-                      await this.onLog("warning", "Screenshot function returned no image data");
-                  }
-                } else {
-                  await this.onLog("warning", `Failed to capture screenshot: ${screenshotResult.error}`);
-                  }
-                } catch (screenshotError) {
-                  await this.onLog("warning", `Screenshot capture error: ${screenshotError instanceof Error ? screenshotError.message : "Unknown error"}`);
-                }
-              }
-              
-              // Send tool result - include screenshot reference in text so GPT knows we captured it
-              const resultMessage = screenshotData 
-                ? `Success. Result: ${result.result || "Action completed"}. Screenshot captured and shown below.`
-                : `Success. Result: ${result.result || "Action completed"}`;
-              
-              messages.push({
-                role: "tool",
-                tool_call_id: toolCall.id,
-                content: resultMessage,
-              });
-              
-              // If we have a screenshot, add it as the next user message so GPT can see it
-              if (screenshotData) {
-                // Ensure we have proper data URL format (should already be normalized by MCP client)
-                let imageUrl = screenshotData;
-                if (!screenshotData.startsWith("data:image")) {
-                  imageUrl = `data:image/png;base64,${screenshotData}`;
-                }
-                
-                messages.push({
-                  role: "user",
-                  content: [
-                    {
-                      type: "image_url",
-                      image_url: {
-                        url: imageUrl,
-                      },
-                    },
-                    {
-                      type: "text",
-                      text: "This is the current screenshot of the page. Examine it carefully to determine your next action.",
-                    },
-                  ],
-                } as OpenAI.Chat.ChatCompletionMessageParam);
-              }
-            }
+      this.signal?.throwIfAborted();
+
+      if (!message.toolCalls || message.toolCalls.length === 0) {
+        // Guidance sent while the model was finishing up still gets a say
+        if (this.addUserMessages(messages)) continue;
+        return message.content || "Task completed";
+      }
+
+      for (const toolCall of message.toolCalls) {
+        await this.runToolCall(toolCall, messages);
+      }
+    }
+
+    throw new PolicyLimitError("maxIterations", `Max iterations reached (${maxIterations})`);
+  }
+
+  /**
+   * Append messages the user sent since the last iteration. Returns whether
+   * there were any.
+   */
+  private addUserMessages(messages: LlmMessage[]): boolean {
+    const received = this.userInput?.takeMessages() ?? [];
+    for (const text of received) {
+      messages.push({ role: "user", content: `Message from the user while you work: ${text}` });
+    }
+    return received.length > 0;
+  }
+
+  /**
+   * Handle an ask_user call: wait for the user's answer and return it as the
+   * tool result
+   */
+  private async askUser(toolCall: LlmToolCall, args: Record<string, any>, messages: LlmMessage[]): Promise<void> {
+    const question = typeof args.question === "string" ? args.question.trim() : "";
+    if (!question) {
+      messages.push({ role: "tool", toolCallId: toolCall.id, content: "Error: question is required" });
+      return;
+    }
+    const answer = await withDeadline(() => this.userInput!.ask(question), this.deadline, () => this.durationExceeded());
+    messages.push({ role: "tool", toolCallId: toolCall.id, content: `The user answered: ${answer}` });
+  }
+
+  private durationExceeded(): PolicyLimitError {
+    return new PolicyLimitError("maxDurationMs", `Task exceeded its maximum duration of ${this.policy.maxDurationMs}ms`);
+  }
+
+  private checkDeadline(): void {
+    if (this.deadline !== null && Date.now() >= this.deadline) {
+      throw this.durationExceeded();
+    }
+  }
+
+  /**
+   * Make an MCP call under the policy's per-call timeout, aborted once the
+   * deadline passes
+   */
+  private callMcp(functionCall: Parameters<McpToolClient["callFunction"]>[0]): ReturnType<McpToolClient["callFunction"]> {
+    return withDeadline((signal) => this.mcpClient.callFunction(functionCall, {
+      timeoutMs: this.policy.mcpCallTimeoutMs,
+      signal,
+    }), this.deadline, () => this.durationExceeded(), this.signal);
+  }
+
+  /**
+   * Count a tool call towards the consecutive failure limit, ending the run
+   * once it's reached
+   */
+  private trackToolOutcome(failed: boolean): void {
+    if (!failed) {
+      this.consecutiveFailures = 0;
+      return;
+    }
+    this.consecutiveFailures++;
+    const max = this.policy.maxConsecutiveFailures;
+    if (max !== undefined && this.consecutiveFailures >= max) {
+      throw new PolicyLimitError("maxConsecutiveFailures", `${this.consecutiveFailures} tool calls failed in a row`);
+    }
+  }
+
+  /**
+   * Execute one tool call: run it over MCP, record it for replay, capture a
+   * screenshot and push the tool result (and screenshot) onto the conversation
+   */
+  private async runToolCall(toolCall: LlmToolCall, messages: LlmMessage[]): Promise<void> {
+    const functionName = toolCall.name;
+    let functionArgs: Record<string, any>;
+    try {
+      functionArgs = JSON.parse(toolCall.arguments || "{}");
+    } catch {
+      await this.onLog("warning", `Invalid arguments for ${this.cleanFunctionName(functionName)}`);
+      messages.push({
+        role: "tool",
+        toolCallId: toolCall.id,
+        content: "Error: The arguments are not valid JSON. Call the tool again with a JSON object.",
+      });
+      this.trackToolOutcome(true);
+      return;
+    }
+    if (functionName === ASK_USER_TOOL.name && this.userInput) {
+      await this.askUser(toolCall, functionArgs, messages);
+      return;
+    }
+
+    // Clean function name and args for UI display
+    const cleanFunctionName = this.cleanFunctionName(functionName);
+    const cleanArgs = this.cleanArgsForUI(functionArgs);
+    const cleanArgsStr = Object.keys(cleanArgs).length > 0 ? JSON.stringify(cleanArgs) : "";
+
+    await this.onLog(
+      "info",
+      `Calling ${cleanFunctionName}${cleanArgsStr ? ` with args: ${cleanArgsStr}` : ""}`
+    );
+
+    const violation = this.toolGuard.check({ function: functionName, arguments: functionArgs });
+    if (violation) {
+      await this.onLog("warning", `Blocked ${cleanFunctionName}: ${violation}`);
+      messages.push({
+        role: "tool",
+        toolCallId: toolCall.id,
+        content: `Error: Blocked by tool policy: ${violation}`,
+      });
+      this.trackToolOutcome(true);
+      return;
+    }
+
+    if (!await this.approve(toolCall, functionArgs, messages)) {
+      return;
+    }
+
+    const result = await this.callMcp({
+      function: functionName,
+      arguments: functionArgs,
+    });
+
+    if (result.error) {
+      await this.onLog("error", `Function ${functionName} failed: ${result.error}`);
+      messages.push({
+        role: "tool",
+        toolCallId: toolCall.id,
+        content: `Error: ${result.error}`,
+      });
+      // A hung call leaves the page in an unknown state, so a timeout ends the
+      // run (the SDK's own 60s default aside) rather than going back to the model
+      this.checkDeadline();
+      if (result.timedOut && this.policy.mcpCallTimeoutMs !== undefined) {
+        throw new PolicyLimitError("mcpCallTimeoutMs", `${cleanFunctionName} did not respond within ${this.policy.mcpCallTimeoutMs}ms`);
+      }
+      this.trackToolOutcome(true);
+    } else {
+      this.trackToolOutcome(false);
+      // Clean function name for UI display
+      const cleanFunctionName = this.cleanFunctionName(functionName);
+      await this.onLog("success", `${cleanFunctionName} completed successfully`);
+      
+      let recordedAction: ReplayAction | null = null;
+
+      // Capture replay state: ALL function calls in exact execution order
+      // This preserves the sequence: navigate -> act -> extract -> navigate -> etc.
+      if (this.replayState) {
+        // Capture navigate calls
+        if (functionName === "browserbase_stagehand_navigate" && functionArgs.url) {
+          // Store first URL for backward compatibility
+          if (!this.replayState.url) {
+            this.replayState.url = functionArgs.url;
           }
-        } else {
-          const finalResult = message.content || "Task completed";
-          await this.onLog("success", `Task completed: ${finalResult}`);
-          return { success: true, result: finalResult };
+          // Store all pages in order (for backward compatibility)
+          if (!this.replayState.pages) {
+            this.replayState.pages = [];
+          }
+          // Only add if it's a new page (avoid duplicates of consecutive navigations)
+          if (this.replayState.pages.length === 0 || 
+              this.replayState.pages[this.replayState.pages.length - 1] !== functionArgs.url) {
+            this.replayState.pages.push(functionArgs.url);
+          }
+          
+          // Store navigate call in actions array to preserve order
+          const actionArgs = { ...functionArgs };
+          delete actionArgs.sessionId;
+          recordedAction = { function: functionName, arguments: actionArgs };
+          this.replayState.actions.push(recordedAction);
+        }
+        // Capture act, extract, and screenshot calls for replay
+        else if (functionName === "browserbase_stagehand_act" || 
+                 functionName === "browserbase_stagehand_extract" || 
+                 functionName === "browserbase_screenshot") {
+          // Store the action for replay (without sessionId to avoid duplication)
+          const actionArgs = { ...functionArgs };
+          delete actionArgs.sessionId;
+          recordedAction = { function: functionName, arguments: actionArgs };
+          this.replayState.actions.push(recordedAction);
+        }
+        // Calls to attached MCP servers are replayed against the same server
+        else if (result.server) {
+          this.replayState.actions.push({ function: functionName, arguments: functionArgs, server: result.server });
         }
       }
 
-      if (iterationCount >= maxIterations) {
-        throw new Error("Max iterations reached");
+      // Check if the function result itself contains a screenshot
+      let screenshotData: string | null = null;
+      if (result.screenshot) {
+        screenshotData = result.screenshot;
+        this.lastScreenshot = screenshotData;
+        console.log("[Orchestrator] Screenshot found in function result, length:", screenshotData.length);
+        await this.onLog("info", "Screenshot captured", { screenshot: screenshotData });
       }
-
-      return { success: true, result: "Task completed" };
-    } catch (error) {
-      let errorMessage = error instanceof Error ? error.message : "Unknown error";
       
-      // Clean up HTML/502 error messages
-      if (errorMessage.includes("<!DOCTYPE html>") || errorMessage.includes("<html")) {
-        if (errorMessage.includes("502") || errorMessage.match(/HTTP 502/)) {
-          errorMessage = "MCP server is unavailable (502 Bad Gateway). The server may be down or overloaded. Please try again later.";
-        } else if (errorMessage.includes("503") || errorMessage.match(/HTTP 503/)) {
-          errorMessage = "MCP server is temporarily unavailable (503 Service Unavailable). Please try again later.";
-        } else if (errorMessage.includes("504") || errorMessage.match(/HTTP 504/)) {
-          errorMessage = "MCP server request timed out (504 Gateway Timeout). Please try again later.";
+      // Automatically take a screenshot after ANY action that affects the page state
+      // This includes: navigate, act, observe (if it changes state), etc.
+      const shouldTakeScreenshot = [
+        "browserbase_stagehand_act",
+        "browserbase_stagehand_navigate",
+        "browserbase_stagehand_observe", // Sometimes observe can trigger page changes
+      ].includes(functionName);
+      
+      if (!screenshotData && shouldTakeScreenshot) {
+        await this.onLog("info", "Taking screenshot to see current state...");
+        try {
+        const screenshotResult = await this.callMcp({
+          function: "browserbase_screenshot",
+            arguments: { sessionId: result.sessionId || this.mcpClient.getSessionId() },
+        });
+        
+        if (!screenshotResult.error) {
+          if (screenshotResult.screenshot) {
+            screenshotData = screenshotResult.screenshot;
+            this.lastScreenshot = screenshotData;
+              console.log("[Orchestrator] Screenshot captured and normalized, length:", screenshotData.length);
+              // Log screenshot for UI display - ensure it's in proper format
+              // Note: storage.addLog moves the screenshot from details into the screenshot store
+            await this.onLog("info", "Screenshot captured", { screenshot: screenshotData });
+            } else {
+              await this.onLog("warning", "Screenshot function returned no image data");
+          }
         } else {
-          errorMessage = "MCP server returned an error. The server may be down or misconfigured.";
+          await this.onLog("warning", `Failed to capture screenshot: ${screenshotResult.error}`);
+          }
+        } catch (screenshotError) {
+          this.signal?.throwIfAborted();
+          if (screenshotError instanceof PolicyLimitError) throw screenshotError;
+          await this.onLog("warning", `Screenshot capture error: ${screenshotError instanceof Error ? screenshotError.message : "Unknown error"}`);
         }
-      } else if (errorMessage.match(/\(HTTP 502\)/)) {
-        errorMessage = "MCP server is unavailable (502 Bad Gateway). The server may be down or overloaded.";
       }
       
-      await this.onLog("error", `Task failed: ${errorMessage}`);
-      return { success: false, error: errorMessage };
-    } finally {
-      // Close the browser session
-      if (sessionId) {
-        await this.onLog("info", "Closing browser session...");
-        await this.mcpClient.close();
+      // Record where the action left the page so replay can detect divergence
+      if (recordedAction) {
+        recordedAction.checkpoint = await this.captureCheckpoint(screenshotData);
       }
-      
-      // Ensure replayState is valid before returning
-      // It should already be set, but double-check
-      if (this.replayState && this.replayState.sessionId) {
-        console.log(`[Orchestrator] Final replay state: sessionId=${this.replayState.sessionId}, url=${this.replayState.url || "none"}, actions=${this.replayState.actions.length}`);
-      } else {
-        console.log("[Orchestrator] No replay state to save");
+
+      // Keep extracted data as structured task output, telling the model when
+      // it doesn't match the output schema so it can extract again
+      let schemaFeedback = "";
+      if (recordedAction && functionName === "browserbase_stagehand_extract" && this.replayState) {
+        const extraction = this.extractions.record(this.replayState.actions.length, recordedAction, result.result || "");
+        if (extraction.valid === false) {
+          await this.onLog("warning", "Extracted data does not match the output schema", { errors: extraction.errors });
+          schemaFeedback = ` The extracted data does not match the required output schema: ${extraction.errors?.join("; ")}.`;
+        }
       }
+
+      // Send tool result - include screenshot reference in text so GPT knows we captured it
+      const resultMessage = screenshotData 
+        ? `Success. Result: ${result.result || "Action completed"}.${schemaFeedback} Screenshot captured and shown below.`
+        : `Success. Result: ${result.result || "Action completed"}${schemaFeedback}`;
       
-      // Note: replayState is saved to task in routes.ts, but we keep it in memory
-      // until the task is updated. After that, it will be cleared when orchestrator is reset.
+      messages.push({
+        role: "tool",
+        toolCallId: toolCall.id,
+        content: resultMessage,
+      });
+      
+      // If we have a screenshot, add it as the next user message so GPT can see it
+      if (screenshotData) {
+        // Ensure we have proper data URL format (should already be normalized by MCP client)
+        let imageUrl = screenshotData;
+        if (!screenshotData.startsWith("data:image")) {
+          imageUrl = `data:image/png;base64,${screenshotData}`;
+        }
+        
+        const screenshotMessage: LlmMessage = {
+          role: "user",
+          content: [
+            {
+              type: "image",
+              url: imageUrl,
+            },
+            {
+              type: "text",
+              text: "This is the current screenshot of the page. Examine it carefully to determine your next action.",
+            },
+          ],
+        };
+        messages.push(screenshotMessage);
+        // Stands in for the image once it's pruned from the conversation
+        const url = recordedAction?.checkpoint?.url;
+        this.context.describeScreenshot(
+          screenshotMessage,
+          `It showed the page after ${cleanFunctionName}${cleanArgsStr ? ` with ${cleanArgsStr}` : ""}${url ? ` (at ${url})` : ""}.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Wait for a user's decision on a call that matches the approval rules.
+   * Returns false when it was rejected, after telling the model so.
+   */
+  private async approve(toolCall: LlmToolCall, args: Record<string, any>, messages: LlmMessage[]): Promise<boolean> {
+    const reason = this.approvals?.checker.check({ function: toolCall.name, arguments: args }, this.replayState?.url);
+    if (!this.approvals || !reason) return true;
+
+    const decision = await withDeadline(() => this.approvals!.request({
+      function: toolCall.name,
+      arguments: this.cleanArgsForUI(args),
+      reason,
+      screenshot: this.lastScreenshot ?? undefined,
+    }), this.deadline, () => this.durationExceeded());
+
+    const name = this.cleanFunctionName(toolCall.name);
+    if (decision.approved) {
+      await this.onLog("success", `${name} approved`);
+      return true;
     }
+    await this.onLog("warning", `${name} rejected${decision.reason ? `: ${decision.reason}` : ""}`);
+    messages.push({
+      role: "tool",
+      toolCallId: toolCall.id,
+      content: `Error: The user rejected this action${decision.reason ? `: ${decision.reason}` : ""}. Do not try it again; find another way or finish the task.`,
+    });
+    return false;
+  }
+
+  /**
+   * Capture the post-action checkpoint: current URL and screenshot hash
+   */
+  private async captureCheckpoint(screenshot: string | null): Promise<ReplayCheckpoint> {
+    const checkpoint: ReplayCheckpoint = {};
+    if (this.tools.some((tool) => tool.name === "browserbase_stagehand_get_url")) {
+      const url = await withDeadline((signal) => this.mcpClient.getCurrentUrl({
+        timeoutMs: this.policy.mcpCallTimeoutMs,
+        signal,
+      }), this.deadline, () => this.durationExceeded(), this.signal);
+      if (url) checkpoint.url = url;
+    }
+    if (screenshot) {
+      checkpoint.screenshotHash = hashScreenshot(screenshot);
+    }
+    return checkpoint;
+  }
+
+  private buildSystemPrompt(): string {
+    return `You are a browser automation orchestrator. You have access to browser automation tools via MCP (Model Context Protocol).
+
+Your job is to:
+1. Understand the user's automation task
+2. Break it down into a series of browser actions
+3. Call the appropriate MCP functions in the correct order
+4. The sessionId is automatically managed - just call functions normally
+5. CRITICAL: After EVERY action (navigate, act, observe, etc), a screenshot will be automatically taken
+6. You MUST analyze the screenshot images provided to determine the next action needed
+7. Use the visual information from screenshots to identify elements, text, buttons, forms, etc.
+8. Repeat until the task is complete
+
+CRITICAL WORKFLOW:
+- Step 1: Call browserbase_stagehand_navigate to go to a URL
+- Step 2: Screenshot is automatically taken and shown to you - ANALYZE IT
+- Step 3: Based on screenshot, call browserbase_stagehand_observe to find elements OR browserbase_stagehand_act to perform actions
+- Step 4: Screenshot is automatically taken after each action - ANALYZE IT
+- Step 5: Continue until task is complete
+
+Important Guidelines:
+- Screenshots are automatically captured after navigate and act calls - you will see them in the response
+- ALWAYS analyze the screenshot before deciding the next action
+- Use browserbase_stagehand_observe with returnAction: true to get deterministic selectors
+- Use browserbase_stagehand_act with either 'action' (natural language) or 'observation' (deterministic)
+- If an action fails, look at the screenshot to understand why and try alternative approaches
+- When you see the desired result in the screenshot, report success
+- {{secret:name}} references stand for stored credentials. Put them into tool arguments exactly as written (e.g. act with "Type {{secret:password}} into the password field"); they are filled in when the tool runs, so never ask for or guess the real values
+${this.userInput ? "- The user may send you messages while you work; follow their guidance. If you cannot continue without information only the user has, call ask_user\n" : ""}${this.outputSchema ? `- Use browserbase_stagehand_extract to collect the task's output. Extracted data must match this JSON Schema:\n${JSON.stringify(this.outputSchema, null, 2)}\n` : ""}
+Available tools:
+${this.tools.length > 0 ? JSON.stringify(this.tools, null, 2) : "No tools currently available. Try to help the user understand what went wrong."}`;
   }
 }
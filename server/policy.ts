@@ -0,0 +1,41 @@
+import type { TaskLimit } from "@shared/schema";
+
+/**
+ * Thrown when a task runs into one of its limits; `limit` says which
+ */
+export class PolicyLimitError extends Error {
+  constructor(readonly limit: TaskLimit, message: string) {
+    super(message);
+    this.name = "PolicyLimitError";
+  }
+}
+
+/**
+ * Run `call` with a signal that aborts when `signal` does or once the
+ * deadline (epoch ms) passes, so an in-flight LLM or MCP call stops rather
+ * than running on after the caller gives up with `onExpired()`. A null
+ * deadline waits indefinitely.
+ */
+export async function withDeadline<T>(
+  call: (signal: AbortSignal | undefined) => Promise<T>,
+  deadline: number | null,
+  onExpired: () => Error,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (deadline === null) return call(signal);
+
+  const expiry = new AbortController();
+  const timer = setTimeout(() => expiry.abort(onExpired()), Math.max(0, deadline - Date.now()));
+  const expired = new Promise<never>((_, reject) => {
+    expiry.signal.addEventListener("abort", () => reject(expiry.signal.reason), { once: true });
+  });
+  try {
+    return await Promise.race([call(signal ? AbortSignal.any([signal, expiry.signal]) : expiry.signal), expired]);
+  } catch (error) {
+    // However the call reports its abort, the deadline is what ended it
+    if (expiry.signal.aborted) throw expiry.signal.reason;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
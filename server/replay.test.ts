@@ -0,0 +1,367 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { approvalRulesSchema, type ReplayState } from "@shared/schema";
+import type { ApprovalRequest } from "./approvals";
+import { McpClient } from "./mcp-client";
+import { MockMcpServer, type MockPage } from "./mock-mcp-server";
+import { Orchestrator } from "./orchestrator";
+import { ScriptedLlmProvider } from "./llm-provider";
+import { Replayer } from "./replay";
+import { templatizeReplayState } from "@shared/templates";
+
+const HOME = "https://example.com";
+const HELP = "https://www.iana.org/help/example-domains";
+const OTHER = "https://example.com/other";
+
+const moreLink = { description: "More information link", selector: "a#more", method: "click", navigatesTo: HELP };
+
+const pages: Record<string, MockPage> = {
+  [HOME]: { title: "Example Domain", actions: { "more information": HELP }, elements: [moreLink] },
+  [HELP]: { title: "Example Domains", extract: { heading: "Example Domains" } },
+  [OTHER]: { title: "Somewhere else" },
+};
+
+const server = new MockMcpServer({ pages });
+const noopLog = async () => {};
+let recorded: ReplayState;
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  await server.start();
+
+  const orchestrator = new Orchestrator({
+    mcpClient: new McpClient({ url: server.url }),
+    llm: new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: HOME }),
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_act", { action: "Click more information" }),
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_extract", { instruction: "Get the heading" }),
+      ScriptedLlmProvider.reply("Done"),
+    ]),
+    model: "scripted",
+    onLog: noopLog,
+  });
+  const result = await orchestrator.execute("Read the example domains help page");
+  expect(result.success).toBe(true);
+  recorded = orchestrator.getReplayState()!;
+});
+
+afterAll(async () => {
+  await server.stop();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  pages[HOME].actions = { "more information": HELP };
+  pages[HOME].elements = [moreLink];
+});
+
+describe("Orchestrator checkpoints", () => {
+  it("records the post-action URL and screenshot hash for each action", () => {
+    expect(recorded.actions.map((action) => [action.function, action.checkpoint?.url])).toEqual([
+      ["browserbase_stagehand_navigate", HOME],
+      ["browserbase_stagehand_act", HELP],
+      ["browserbase_stagehand_extract", HELP],
+    ]);
+    expect(recorded.actions[0].checkpoint?.screenshotHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(recorded.actions[1].checkpoint?.screenshotHash).not.toBe(recorded.actions[0].checkpoint?.screenshotHash);
+    // Extract takes no screenshot, so only the URL is checked
+    expect(recorded.actions[2].checkpoint?.screenshotHash).toBeUndefined();
+  });
+});
+
+describe("Replayer divergence detection", () => {
+  it("reports no divergences when the site behaves as recorded", async () => {
+    const replayer = new Replayer({ mcpClient: new McpClient({ url: server.url }), onLog: noopLog });
+
+    const report = await replayer.run(recorded);
+
+    expect(report).toEqual({ mode: "continue", steps: 3, divergences: [] });
+  });
+
+  it("flags every diverged step and keeps going in continue mode", async () => {
+    pages[HOME].actions = { "more information": OTHER };
+    const logs: string[] = [];
+    const replayer = new Replayer({
+      mcpClient: new McpClient({ url: server.url }),
+      onLog: async (_level, message) => {
+        logs.push(message);
+      },
+    });
+
+    const report = await replayer.run(recorded);
+
+    expect(report.stoppedAt).toBeUndefined();
+    expect(report.divergences.map((divergence) => [divergence.step, divergence.url])).toEqual([
+      [2, { expected: HELP, actual: OTHER }],
+      [3, { expected: HELP, actual: OTHER }],
+    ]);
+    expect(report.divergences[0].screenshot).toBeDefined();
+    expect(logs).toContain("Replay completed with 2 diverged step(s)");
+    expect(logs).not.toContain("Replay completed successfully");
+  });
+
+  it("stops at the first diverged step in stop mode", async () => {
+    pages[HOME].actions = { "more information": OTHER };
+    const callsBefore = server.calls.length;
+    const replayer = new Replayer({ mcpClient: new McpClient({ url: server.url }), onLog: noopLog, onDivergence: "stop" });
+
+    const report = await replayer.run(recorded);
+
+    expect(report.stoppedAt).toBe(2);
+    expect(report.divergences).toHaveLength(1);
+    const replayed = server.calls.slice(callsBefore).map((call) => call.name);
+    expect(replayed).not.toContain("browserbase_stagehand_extract");
+    expect(replayed.at(-1)).toBe("browserbase_session_close");
+  });
+
+  it("treats a failed step as a divergence", async () => {
+    pages[HOME].actions = {};
+    const replayer = new Replayer({ mcpClient: new McpClient({ url: server.url }), onLog: noopLog, onDivergence: "stop" });
+
+    const report = await replayer.run(recorded);
+
+    expect(report.stoppedAt).toBe(2);
+    expect(report.divergences[0].error).toContain("no matching element found");
+  });
+
+  it("lets the LLM repair a diverged step in repair mode", async () => {
+    pages[HOME].actions = { "more information": OTHER };
+    const mcpClient = new McpClient({ url: server.url });
+    const llm = new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: HELP }),
+      ScriptedLlmProvider.reply("Opened the help page directly"),
+    ]);
+    const repairer = new Orchestrator({ mcpClient, llm, model: "scripted", onLog: noopLog });
+    const repairStep = vi.fn((request) => repairer.repairStep({ ...request, goal: "Read the example domains help page" }));
+    const replayer = new Replayer({ mcpClient, onLog: noopLog, onDivergence: "repair", repairStep });
+
+    const report = await replayer.run(recorded);
+
+    expect(report.stoppedAt).toBeUndefined();
+    expect(report.divergences).toEqual([expect.objectContaining({ step: 2, repaired: true })]);
+    expect(repairStep).toHaveBeenCalledTimes(1);
+    await expect(repairStep.mock.results[0].value).resolves.toMatchObject({
+      success: true,
+      actions: [{ function: "browserbase_stagehand_navigate", arguments: { url: HELP } }],
+    });
+    // The model sees what went wrong along with the current page
+    const prompt = llm.requests[0].messages[1];
+    expect(JSON.stringify(prompt.content)).toContain(`expected to end on ${HELP}`);
+  });
+
+  it("stops when the repair does not reach the recorded URL", async () => {
+    pages[HOME].actions = { "more information": OTHER };
+    const mcpClient = new McpClient({ url: server.url });
+    const repairer = new Orchestrator({
+      mcpClient,
+      llm: new ScriptedLlmProvider([ScriptedLlmProvider.reply("I could not find it")]),
+      model: "scripted",
+      onLog: noopLog,
+    });
+    const replayer = new Replayer({
+      mcpClient,
+      onLog: noopLog,
+      onDivergence: "repair",
+      repairStep: (request) => repairer.repairStep({ ...request, goal: "Read the example domains help page" }),
+    });
+
+    const report = await replayer.run(recorded);
+
+    expect(report.stoppedAt).toBe(2);
+    expect(report.divergences[0].repaired).toBe(false);
+  });
+});
+
+describe("Replayer cancellation", () => {
+  it("stops at the step in flight and closes the session", async () => {
+    const mcpClient = new McpClient({ url: server.url });
+    const close = vi.spyOn(mcpClient, "close");
+    const abort = new AbortController();
+    const replayer = new Replayer({
+      mcpClient,
+      signal: abort.signal,
+      onLog: async (_level, message) => {
+        if (message.startsWith("Replaying act")) abort.abort(new Error("Replay cancelled by user"));
+      },
+    });
+
+    await expect(replayer.run(recorded)).rejects.toThrow("Replay cancelled by user");
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("stops while checking a step's URL", async () => {
+    const mcpClient = new McpClient({ url: server.url });
+    const abort = new AbortController();
+    vi.spyOn(mcpClient, "getCurrentUrl").mockImplementation(({ signal } = {}) => new Promise((_, reject) => {
+      signal?.addEventListener("abort", () => reject(signal.reason), { once: true });
+      abort.abort(new Error("Replay cancelled by user"));
+    }));
+    const replayer = new Replayer({ mcpClient, signal: abort.signal, onLog: noopLog });
+
+    await expect(replayer.run(recorded)).rejects.toThrow("Replay cancelled by user");
+  });
+});
+
+describe("Replayer heal mode", () => {
+  // Recorded with a deterministic observation selector that later breaks
+  const observed = (): ReplayState => ({
+    sessionId: recorded.sessionId,
+    revision: 1,
+    actions: [
+      { function: "browserbase_stagehand_navigate", arguments: { url: HOME }, checkpoint: { url: HOME } },
+      {
+        function: "browserbase_stagehand_act",
+        arguments: { observation: { selector: "a#more", description: "More information link", method: "click" } },
+        checkpoint: { url: HELP },
+      },
+      { function: "browserbase_stagehand_extract", arguments: { instruction: "Get the heading" }, checkpoint: { url: HELP } },
+    ],
+  });
+
+  function healingReplayer(llm: ScriptedLlmProvider) {
+    const mcpClient = new McpClient({ url: server.url });
+    const healer = new Orchestrator({ mcpClient, llm, model: "scripted", onLog: noopLog });
+    return new Replayer({
+      mcpClient,
+      onLog: noopLog,
+      onDivergence: "heal",
+      repairStep: (request) => healer.repairStep({ ...request, goal: "Read the example domains help page" }),
+    });
+  }
+
+  it("replaces a failed step and returns the next revision", async () => {
+    pages[HOME].elements = [{ ...moreLink, selector: "a.help-link" }];
+    const llm = new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_act", {
+        observation: { selector: "a.help-link", description: "More information link", method: "click" },
+      }),
+      ScriptedLlmProvider.reply("Clicked the renamed link"),
+    ]);
+    const replayer = healingReplayer(llm);
+
+    const report = await replayer.run(observed());
+
+    expect(report.stoppedAt).toBeUndefined();
+    expect(report.revision).toBe(2);
+    expect(report.divergences).toEqual([
+      expect.objectContaining({ step: 2, healed: true, error: expect.stringContaining("a#more") }),
+    ]);
+    const revised = replayer.getRevisedState()!;
+    expect(revised.revision).toBe(2);
+    expect(revised.actions.map((action) => [action.function, action.revision])).toEqual([
+      ["browserbase_stagehand_navigate", undefined],
+      ["browserbase_stagehand_act", 2],
+      ["browserbase_stagehand_extract", undefined],
+    ]);
+    expect(revised.actions[1].arguments.observation.selector).toBe("a.help-link");
+    expect(revised.actions[1].checkpoint?.url).toBe(HELP);
+
+    // The model is told what the step was for and shown the current page
+    const prompt = llm.requests[0].messages[1].content;
+    expect(JSON.stringify(prompt)).toContain("The step was meant to: More information link");
+    expect(Array.isArray(prompt) && prompt[0].type).toBe("image");
+  });
+
+  it("does not heal steps that ran but diverged", async () => {
+    pages[HOME].elements = [{ ...moreLink, navigatesTo: OTHER }];
+    const replayer = healingReplayer(new ScriptedLlmProvider([]));
+
+    const report = await replayer.run(observed());
+
+    expect(report.stoppedAt).toBe(2);
+    expect(report.divergences[0].healed).toBeUndefined();
+    expect(replayer.getRevisedState()).toBeNull();
+  });
+
+  it("stops when the failed step cannot be healed", async () => {
+    pages[HOME].elements = [];
+    const replayer = healingReplayer(new ScriptedLlmProvider([ScriptedLlmProvider.reply("Nothing to click")]));
+
+    const report = await replayer.run(observed());
+
+    expect(report.stoppedAt).toBe(2);
+    expect(report.divergences[0].healed).toBe(false);
+    expect(replayer.getRevisedState()).toBeNull();
+  });
+});
+
+describe("Replayer approvals", () => {
+  const rules = approvalRulesSchema.parse({ actionPatterns: ["more information"] });
+
+  function replayerDeciding(approved: boolean, reason?: string) {
+    const requests: ApprovalRequest[] = [];
+    const replayer = new Replayer({
+      mcpClient: new McpClient({ url: server.url }),
+      onLog: noopLog,
+      approvals: {
+        rules,
+        request: async (request) => {
+          requests.push(request);
+          return { approved, reason };
+        },
+      },
+    });
+    return { replayer, requests };
+  }
+
+  it("runs a step that matches the rules once it's approved", async () => {
+    const { replayer, requests } = replayerDeciding(true);
+
+    const report = await replayer.run(recorded);
+
+    expect(report.divergences).toEqual([]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      function: "browserbase_stagehand_act",
+      reason: "Matches /more information/: Click more information",
+    });
+    expect(requests[0].screenshot).toMatch(/^data:image\//);
+  });
+
+  it("fails a rejected step without running it", async () => {
+    const callsBefore = server.calls.length;
+    const { replayer } = replayerDeciding(false, "Not today");
+
+    const report = await replayer.run(recorded);
+
+    expect(server.calls.slice(callsBefore).map((call) => call.name)).not.toContain("browserbase_stagehand_act");
+    expect(report.divergences[0]).toMatchObject({ step: 2, error: "Rejected by user: Not today" });
+  });
+});
+
+describe("Replayer templates", () => {
+  it("fills {{variables}} into recorded actions and checkpoints", async () => {
+    const { replayState } = templatizeReplayState(recorded, { site: HOME });
+    expect(replayState.actions[0].arguments.url).toBe("{{site}}");
+    const callsBefore = server.calls.length;
+    const replayer = new Replayer({ mcpClient: new McpClient({ url: server.url }), onLog: noopLog, variables: { site: OTHER } });
+
+    const report = await replayer.run(replayState);
+
+    const navigate = server.calls.slice(callsBefore).find((call) => call.name === "browserbase_stagehand_navigate");
+    expect(navigate?.arguments.url).toBe(OTHER);
+    // The navigate checkpoint follows the variable; the next step fails on the other page
+    expect(report.divergences[0]).toMatchObject({ step: 2, error: expect.any(String) });
+  });
+});
+
+describe("Replayer extractions", () => {
+  it("collects replayed extract results, validated against the output schema", async () => {
+    const replayer = new Replayer({
+      mcpClient: new McpClient({ url: server.url }),
+      onLog: noopLog,
+      outputSchema: { type: "object", required: ["heading", "summary"] },
+    });
+
+    await replayer.run(recorded);
+
+    expect(replayer.getExtractions()).toEqual([{
+      step: 3,
+      instruction: "Get the heading",
+      data: { heading: "Example Domains" },
+      valid: false,
+      errors: ["/ must have required property 'summary'"],
+    }]);
+  });
+});
@@ -0,0 +1,411 @@
+import type {
+  ApprovalRules,
+  LogLevel,
+  ReplayAction,
+  ReplayDivergenceMode,
+  ReplayReport,
+  ReplayState,
+  ReplayStepReport,
+} from "@shared/schema";
+import type { McpToolClient } from "./mcp-client";
+import type { RepairRequest, RepairResult } from "./orchestrator";
+import { compareCheckpoint, hashScreenshot } from "./checkpoints";
+import { fillTemplate, templatizeAction } from "@shared/templates";
+import { ExtractionRecorder } from "./extractions";
+import { ToolGuard } from "./tool-policy";
+import { ApprovalChecker, type ApprovalDecision, type ApprovalRequest } from "./approvals";
+
+export interface ReplayerConfig {
+  mcpClient: McpToolClient;
+  onLog: (level: LogLevel, message: string, details?: any) => Promise<void>;
+  /** What to do when a step fails or lands on a different URL than recorded (default "continue") */
+  onDivergence?: ReplayDivergenceMode;
+  /** Used in "repair" and "heal" modes to let the LLM bring a diverged step back on track */
+  repairStep?: (request: Omit<RepairRequest, "goal">) => Promise<RepairResult>;
+  /** Values for {{variables}} in templated actions */
+  variables?: Record<string, string>;
+  /** JSON Schema that extracted data is validated against */
+  outputSchema?: Record<string, any>;
+  /** Cancels the replay, aborting the MCP call in flight */
+  signal?: AbortSignal;
+  /** Tool policies each replayed action is checked against (default: no restrictions) */
+  toolGuard?: ToolGuard;
+  /** Pause actions matching `rules` until `request` resolves with a user's decision */
+  approvals?: {
+    rules: ApprovalRules;
+    request: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  };
+}
+
+interface ActionOutcome {
+  error?: string;
+  /** Text result of the tool call */
+  result?: string;
+  /** Screenshot taken after the action, if any */
+  screenshot: string | null;
+}
+
+function describeDivergence(divergence: ReplayStepReport): string {
+  if (divergence.error) {
+    return `Step ${divergence.step} failed: ${divergence.error}`;
+  }
+  if (divergence.url) {
+    return `Step ${divergence.step} diverged: expected ${divergence.url.expected}, got ${divergence.url.actual ?? "unknown URL"}`;
+  }
+  return `Step ${divergence.step} looks different from the recording (screenshot changed)`;
+}
+
+/**
+ * Deterministic replay of a recorded task: reuses the recorded browser session
+ * and re-runs the cached actions in order, no LLM involved unless a diverged
+ * step is repaired. Each step is checked against its recorded checkpoint.
+ */
+export class Replayer {
+  private mcpClient: McpToolClient;
+  private onLog: ReplayerConfig["onLog"];
+  private onDivergence: ReplayDivergenceMode;
+  private repairStep?: ReplayerConfig["repairStep"];
+  private variables: Record<string, string>;
+  private signal?: AbortSignal;
+  private toolGuard: ToolGuard;
+  private approvals?: { checker: ApprovalChecker; request: (request: ApprovalRequest) => Promise<ApprovalDecision> };
+  /** First page of the recording; off-domain navigation is judged against it */
+  private homeUrl?: string;
+  private lastScreenshot: string | null = null;
+  private revisedState: ReplayState | null = null;
+  private extractions: ExtractionRecorder;
+
+  constructor(config: ReplayerConfig) {
+    this.mcpClient = config.mcpClient;
+    this.onLog = config.onLog;
+    this.onDivergence = config.onDivergence ?? "continue";
+    this.repairStep = config.repairStep;
+    this.variables = config.variables ?? {};
+    this.extractions = new ExtractionRecorder(config.outputSchema);
+    this.signal = config.signal;
+    this.toolGuard = config.toolGuard ?? new ToolGuard([]);
+    if (config.approvals) {
+      this.approvals = { checker: new ApprovalChecker(config.approvals.rules), request: config.approvals.request };
+    }
+    if ((this.onDivergence === "repair" || this.onDivergence === "heal") && !this.repairStep) {
+      throw new Error(`Replay ${this.onDivergence} mode requires a repairStep handler`);
+    }
+  }
+
+  private async log(level: LogLevel, message: string, details?: any): Promise<void> {
+    await this.onLog(level, message, details);
+  }
+
+  /**
+   * Replay state with healed steps replaced, or null if nothing was healed
+   */
+  getRevisedState(): ReplayState | null {
+    return this.revisedState;
+  }
+
+  /**
+   * Data returned by the replayed extract steps
+   */
+  getExtractions() {
+    return this.extractions.getExtractions();
+  }
+
+  /**
+   * Replay all recorded actions. Returns a report of every diverged step;
+   * `stoppedAt` is set when the replay gave up on a divergence. Throws the
+   * abort reason when cancelled; the session is closed either way.
+   */
+  async run(replayState: ReplayState): Promise<ReplayReport> {
+    const { sessionId, actions } = replayState;
+    const report: ReplayReport = { mode: this.onDivergence, steps: actions.length, divergences: [] };
+    const revision = (replayState.revision ?? 1) + 1;
+    // Healed actions replace failed ones here (still templated); offset maps
+    // recorded steps onto it
+    const revisedActions = [...actions];
+    let offset = 0;
+    this.homeUrl = replayState.url;
+
+    try {
+      // Connect MCP client
+      await this.mcpClient.connect();
+      await this.log("info", `Replaying task with session ${sessionId}...`);
+
+      // Reuse the session (deterministic - no new session creation)
+      await this.mcpClient.createSession(sessionId);
+      await this.log("success", `Reusing browser session: ${sessionId}`);
+
+      // Execute all cached actions in exact order (includes navigate, act, extract, screenshot)
+      // This preserves the exact sequence from original execution
+      for (let index = 0; index < actions.length; index++) {
+        this.signal?.throwIfAborted();
+
+        const action = fillTemplate(actions[index], this.variables);
+        const outcome = await this.runAction(action, sessionId);
+        if (!outcome.error && action.function === "browserbase_stagehand_extract") {
+          const extraction = this.extractions.record(index + 1, action, outcome.result ?? "");
+          if (extraction.valid === false) {
+            await this.log("warning", `Step ${index + 1} extracted data does not match the output schema`, { errors: extraction.errors });
+          }
+        }
+        const divergence = await this.checkStep(index + 1, action, outcome);
+        if (!divergence) continue;
+
+        report.divergences.push(divergence);
+        await this.log("warning", describeDivergence(divergence), { divergence });
+
+        // Screenshot-only differences are reported but never act on the
+        // replay: exact image hashes also change with dynamic page content
+        if (!divergence.error && !divergence.url) continue;
+        if (this.onDivergence === "continue") continue;
+
+        if (this.onDivergence === "repair") {
+          divergence.repaired = await this.repair(sessionId, divergence, action, outcome) !== null;
+          if (divergence.repaired) continue;
+        }
+
+        // Healing only replaces steps that failed outright; a step that ran but
+        // ended on the wrong page can't be fixed by swapping it out
+        if (this.onDivergence === "heal" && divergence.error) {
+          const replacement = await this.repair(sessionId, divergence, action, outcome);
+          divergence.healed = replacement !== null && replacement.length > 0;
+          if (replacement && divergence.healed) {
+            revisedActions.splice(index + offset, 1, ...replacement.map((healed) => ({
+              ...templatizeAction(healed, this.variables),
+              revision,
+            })));
+            offset += replacement.length - 1;
+            continue;
+          }
+        }
+
+        report.stoppedAt = divergence.step;
+        break;
+      }
+
+      if (report.divergences.some((divergence) => divergence.healed)) {
+        this.revisedState = { ...replayState, actions: revisedActions, revision };
+        report.revision = revision;
+      }
+
+      await this.log("info", "Closing browser session...");
+      await this.mcpClient.close();
+      if (report.stoppedAt) {
+        await this.log("error", `Replay stopped at step ${report.stoppedAt} of ${actions.length}`);
+      } else if (report.divergences.length > 0) {
+        await this.log("warning", `Replay completed with ${report.divergences.length} diverged step(s)`);
+      } else {
+        await this.log("success", "Replay completed successfully");
+      }
+      return report;
+    } finally {
+      try {
+        await this.mcpClient.close();
+      } catch (closeError) {
+        console.error("[Replay] Error closing MCP client:", closeError);
+      }
+    }
+  }
+
+  /**
+   * Compare a replayed step against its recorded checkpoint
+   */
+  private async checkStep(step: number, action: ReplayAction, outcome: ActionOutcome): Promise<ReplayStepReport | null> {
+    if (outcome.error) {
+      return { step, function: action.function, error: outcome.error };
+    }
+    if (!action.checkpoint) return null;
+
+    const url = action.checkpoint.url ? await this.mcpClient.getCurrentUrl({ signal: this.signal }) : null;
+    const divergence = compareCheckpoint(action.checkpoint, {
+      url,
+      screenshotHash: outcome.screenshot ? hashScreenshot(outcome.screenshot) : null,
+    });
+    return divergence ? { step, function: action.function, ...divergence } : null;
+  }
+
+  /**
+   * Ask the LLM to repair a diverged step, then re-check the URL checkpoint.
+   * Returns the actions the repair took, or null if the step is still off track.
+   */
+  private async repair(
+    sessionId: string,
+    divergence: ReplayStepReport,
+    action: ReplayAction,
+    outcome: ActionOutcome,
+  ): Promise<ReplayAction[] | null> {
+    // Failed steps took no screenshot; the model needs to see the page
+    let screenshot = outcome.screenshot;
+    if (!screenshot) {
+      const screenshotResult = await this.mcpClient.callFunction({
+        function: "browserbase_screenshot",
+        arguments: { sessionId },
+      }, { signal: this.signal });
+      screenshot = screenshotResult.screenshot ?? null;
+    }
+
+    const result = await this.repairStep!({
+      sessionId,
+      step: divergence.step,
+      action,
+      expected: action.checkpoint ?? {},
+      actual: { url: divergence.url?.actual ?? null },
+      error: divergence.error,
+      screenshot: screenshot ?? undefined,
+    });
+    if (!result.success) return null;
+
+    const expectedUrl = action.checkpoint?.url;
+    if (expectedUrl) {
+      const actualUrl = await this.mcpClient.getCurrentUrl({ signal: this.signal });
+      if (compareCheckpoint({ url: expectedUrl }, { url: actualUrl, screenshotHash: null })) {
+        await this.log("error", `Step ${divergence.step} still diverged after repair: on ${actualUrl ?? "unknown URL"}`);
+        return null;
+      }
+    }
+
+    await this.log("success", `Step ${divergence.step} repaired with ${result.actions.length} action(s)`);
+    return result.actions;
+  }
+
+  /**
+   * Replay one recorded action, logging its result and any screenshot
+   */
+  private async runAction(action: ReplayAction, sessionId: string): Promise<ActionOutcome> {
+    // Clean function name for UI display
+    const cleanFunctionName = action.function
+      .replace(/^browserbase_/i, "")
+      .replace(/^stagehand_/i, "")
+      .replace(/_/g, " ");
+    
+    // Determine log message based on function type
+    let logMessage = `Replaying ${cleanFunctionName}...`;
+    if (action.function === "browserbase_stagehand_navigate" && action.arguments.url) {
+      logMessage = `Navigating to ${action.arguments.url}...`;
+    }
+    
+    await this.log("info", logMessage);
+    // Filled-in variables can point a recorded action somewhere new
+    const violation = this.toolGuard.check(action);
+    if (violation) {
+      await this.log("error", `Blocked ${cleanFunctionName}: ${violation}`);
+      return { error: `Blocked by tool policy: ${violation}`, screenshot: null };
+    }
+    const rejection = await this.approve(action, cleanFunctionName);
+    if (rejection) {
+      return { error: rejection, screenshot: null };
+    }
+    let screenshot: string | null = null;
+    const actionResult = await this.mcpClient.callFunction({
+      function: action.function,
+      // Attached MCP servers have no browser session
+      arguments: action.server ? action.arguments : { ...action.arguments, sessionId },
+      server: action.server,
+    }, { signal: this.signal });
+    if (actionResult.error) {
+      await this.log("error", `${cleanFunctionName} failed: ${actionResult.error}`);
+      return { error: actionResult.error, screenshot: null };
+    } else {
+      // For navigate, log success with URL
+      if (action.function === "browserbase_stagehand_navigate" && action.arguments.url) {
+        await this.log("success", `Navigated to ${action.arguments.url}`);
+        
+        // Take screenshot after navigation
+        await this.log("info", "Taking screenshot after navigation...");
+        const screenshotResult = await this.mcpClient.callFunction({
+          function: "browserbase_screenshot",
+          arguments: { sessionId },
+        }, { signal: this.signal });
+        if (!screenshotResult.error && screenshotResult.screenshot) {
+          screenshot = screenshotResult.screenshot;
+          await this.log("info", "Screenshot captured", { screenshot: screenshotResult.screenshot });
+        } else {
+          await this.log("warning", "Failed to capture screenshot after navigation");
+        }
+      } else {
+        // Log success with response details
+        let responseMessage = `${cleanFunctionName} completed successfully`;
+        const responseDetails: any = {};
+        
+        // Capture screenshot from result if available
+        if (actionResult.screenshot) {
+          screenshot = actionResult.screenshot;
+          responseDetails.screenshot = actionResult.screenshot;
+          await this.log("info", "Screenshot captured", { screenshot: actionResult.screenshot });
+        }
+        
+        // Capture result text/content from function response
+        // The result object may have a 'result' property with text content
+        if (actionResult.result) {
+          if (typeof actionResult.result === 'string' && actionResult.result.length > 0) {
+            // Limit text to 1000 chars for display
+            responseDetails.response = actionResult.result.length > 1000 
+              ? actionResult.result.substring(0, 1000) + "..." 
+              : actionResult.result;
+          } else if (typeof actionResult.result === 'object' && actionResult.result !== null) {
+            // If result is an object, try to extract meaningful data
+            try {
+              const resultStr = JSON.stringify(actionResult.result, null, 2);
+              responseDetails.response = resultStr.length > 1000 
+                ? resultStr.substring(0, 1000) + "..." 
+                : resultStr;
+            } catch (e) {
+              // If JSON.stringify fails, just use string representation
+              responseDetails.response = String(actionResult.result).substring(0, 1000);
+            }
+          }
+        }
+        
+        // Log the response with details if available
+        if (Object.keys(responseDetails).length > 0 && !responseDetails.screenshot) {
+          // Only log details if there's something other than screenshot
+          await this.log("success", responseMessage, responseDetails);
+        } else if (Object.keys(responseDetails).length > 0) {
+          // If only screenshot, log success without details (screenshot already logged separately)
+          await this.log("success", responseMessage);
+        } else {
+          await this.log("success", responseMessage);
+        }
+        
+        // Take screenshot after act function if not already captured
+        if (action.function === "browserbase_stagehand_act" && !actionResult.screenshot) {
+          await this.log("info", "Taking screenshot after action...");
+          const screenshotResult = await this.mcpClient.callFunction({
+            function: "browserbase_screenshot",
+            arguments: { sessionId },
+          }, { signal: this.signal });
+          if (!screenshotResult.error && screenshotResult.screenshot) {
+            screenshot = screenshotResult.screenshot;
+            await this.log("info", "Screenshot captured", { screenshot: screenshotResult.screenshot });
+          }
+        }
+      }
+    }
+    if (screenshot) {
+      this.lastScreenshot = screenshot;
+    }
+    return { screenshot, result: actionResult.result };
+  }
+
+  /**
+   * Wait for a user's decision on a step that matches the approval rules.
+   * Returns why the step must not run, or null when it can.
+   */
+  private async approve(action: ReplayAction, name: string): Promise<string | null> {
+    const reason = this.approvals?.checker.check(action, this.homeUrl);
+    if (!this.approvals || !reason) return null;
+
+    const decision = await this.approvals.request({
+      function: action.function,
+      arguments: action.arguments,
+      reason,
+      screenshot: this.lastScreenshot ?? undefined,
+    });
+    if (decision.approved) {
+      await this.log("success", `${name} approved`);
+      return null;
+    }
+    const detail = decision.reason ? `: ${decision.reason}` : "";
+    await this.log("warning", `${name} rejected${detail}`);
+    return `Rejected by user${detail}`;
+  }
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Task, TaskStatus } from "@shared/schema";
+import { getRetentionPolicy, selectExpiredTasks } from "./retention";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+const task = (id: string, ageHours: number, status: TaskStatus = "completed", workspaceId = "default"): Task => ({
+  id,
+  workspaceId,
+  prompt: `Task ${id}`,
+  status,
+  createdAt: NOW - ageHours * HOUR,
+});
+
+describe("getRetentionPolicy", () => {
+  afterEach(() => {
+    delete process.env.TASK_RETENTION_MAX_AGE_HOURS;
+    delete process.env.TASK_RETENTION_MAX_COUNT;
+  });
+
+  it("keeps history forever unless a limit is set", () => {
+    expect(getRetentionPolicy()).toEqual({ maxAgeMs: undefined, maxCount: undefined });
+  });
+
+  it("reads the limits from env", () => {
+    process.env.TASK_RETENTION_MAX_AGE_HOURS = "24";
+    process.env.TASK_RETENTION_MAX_COUNT = "50";
+    expect(getRetentionPolicy()).toEqual({ maxAgeMs: 24 * HOUR, maxCount: 50 });
+  });
+});
+
+describe("selectExpiredTasks", () => {
+  it("selects finished tasks older than the age limit", () => {
+    const tasks = [task("new", 1), task("old", 30, "failed"), task("older", 48)];
+    expect(selectExpiredTasks(tasks, { maxAgeMs: 24 * HOUR }, NOW).sort()).toEqual(["old", "older"]);
+  });
+
+  it("keeps only the newest finished tasks under the count limit", () => {
+    const tasks = [task("b", 2), task("a", 1), task("d", 4), task("c", 3)];
+    expect(selectExpiredTasks(tasks, { maxCount: 2 }, NOW).sort()).toEqual(["c", "d"]);
+  });
+
+  it("applies the limits to each workspace separately", () => {
+    const tasks = [
+      task("busy-1", 1, "completed", "busy"),
+      task("busy-2", 2, "completed", "busy"),
+      task("busy-3", 3, "completed", "busy"),
+      task("quiet-old", 40, "completed", "quiet"),
+      task("quiet-older", 48, "failed", "quiet"),
+    ];
+    expect(selectExpiredTasks(tasks, { maxCount: 2 }, NOW)).toEqual(["busy-3"]);
+    expect(selectExpiredTasks(tasks, { maxAgeMs: 24 * HOUR }, NOW).sort()).toEqual(["quiet-old", "quiet-older"]);
+  });
+
+  it("never selects tasks that haven't finished", () => {
+    const tasks = [
+      task("queued", 100, "queued"),
+      task("running", 100, "running"),
+      task("approval", 100, "awaiting_approval"),
+      task("input", 100, "awaiting_input"),
+      task("done", 100),
+    ];
+    expect(selectExpiredTasks(tasks, { maxAgeMs: HOUR, maxCount: 1 }, NOW)).toEqual(["done"]);
+  });
+
+  it("selects nothing without limits", () => {
+    expect(selectExpiredTasks([task("old", 1000)], {}, NOW)).toEqual([]);
+  });
+});
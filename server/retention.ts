@@ -0,0 +1,71 @@
+import type { Task } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export interface RetentionPolicy {
+  /** Finished tasks older than this are deleted (undefined = keep forever) */
+  maxAgeMs?: number;
+  /** Only the newest N finished tasks of each workspace are kept (undefined = unlimited) */
+  maxCount?: number;
+}
+
+function parsePositiveNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Read the retention policy from env. Both limits are opt-in, so history is
+ * kept forever unless one is set:
+ * - TASK_RETENTION_MAX_AGE_HOURS
+ * - TASK_RETENTION_MAX_COUNT
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const hours = parsePositiveNumber(process.env.TASK_RETENTION_MAX_AGE_HOURS);
+  return {
+    maxAgeMs: hours !== undefined ? hours * 60 * 60 * 1000 : undefined,
+    maxCount: parsePositiveNumber(process.env.TASK_RETENTION_MAX_COUNT),
+  };
+}
+
+export function isFinished(task: Task): boolean {
+  return task.status === "completed" || task.status === "failed";
+}
+
+/**
+ * Pick the finished tasks that fall outside the retention policy, applied to
+ * each workspace on its own so a busy workspace can't evict another's
+ * history. Running tasks are never selected.
+ */
+export function selectExpiredTasks(tasks: Task[], policy: RetentionPolicy, now = Date.now()): string[] {
+  const byWorkspace = new Map<string, Task[]>();
+  for (const task of tasks.filter(isFinished)) {
+    byWorkspace.set(task.workspaceId, [...(byWorkspace.get(task.workspaceId) ?? []), task]);
+  }
+
+  const expired = new Set<string>();
+  byWorkspace.forEach((finished) => {
+    finished.sort((a, b) => b.createdAt - a.createdAt);
+    finished.forEach((task, index) => {
+      if (policy.maxAgeMs !== undefined && now - task.createdAt > policy.maxAgeMs) {
+        expired.add(task.id);
+      }
+      if (policy.maxCount !== undefined && index >= policy.maxCount) {
+        expired.add(task.id);
+      }
+    });
+  });
+  return Array.from(expired);
+}
+
+/**
+ * Delete finished tasks that fall outside the retention policy
+ */
+export async function pruneTaskHistory(storage: IStorage, policy = getRetentionPolicy()): Promise<string[]> {
+  if (policy.maxAgeMs === undefined && policy.maxCount === undefined) return [];
+  const expired = selectExpiredTasks(await storage.getAllTasks(), policy);
+  if (expired.length === 0) return [];
+  const deleted = await storage.deleteTasks(expired);
+  console.log(`[Retention] Pruned ${deleted.length} task(s) outside retention policy`);
+  return deleted;
+}
@@ -1,388 +1,429 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { McpClient } from "./mcp-client";
-import { Orchestrator } from "./orchestrator";
-import { insertTaskSchema, type LogEntry, type Task } from "@shared/schema";
-
-const connectedClients = new Set<WebSocket>();
-let currentOrchestrator: Orchestrator | null = null;
+import { isFinished, pruneTaskHistory } from "./retention";
+import { TaskManager } from "./task-manager";
+import { createSecretVault } from "./secrets";
+import { McpEndpoint } from "./mcp-endpoint";
+import { Auth, AuthError, createSessionMiddleware, requireAuth } from "./auth";
+import {
+  approvalDecisionSchema,
+  createApiKeySchema,
+  createSecretSchema,
+  credentialsSchema,
+  executeTaskSchema,
+  registrationSchema,
+  replayTaskSchema,
+  taskMessageSchema,
+  templateTaskSchema,
+  updateSecretSchema,
+  type LogEntry,
+  type PendingApproval,
+  type Task,
+  type User,
+} from "@shared/schema";
+import { templatizeReplayState } from "@shared/templates";
+import { extractionsToCsv } from "./extractions";
+import type { ScreenshotVariant } from "./screenshots";
+
+// Open sockets and the workspace each one receives updates for
+const connectedClients = new Map<WebSocket, string>();
+
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+  const sessionParser = createSessionMiddleware();
+  app.use(sessionParser);
+  const auth = new Auth({
+    storage,
+    allowSignup: process.env.ALLOW_SIGNUP === "true",
+    bootstrapToken: process.env.ADMIN_BOOTSTRAP_TOKEN,
+  });
+
+  // Sockets need a session cookie or API key, like the API, and only carry
+  // updates for tasks in the user's workspace
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/ws",
+    verifyClient: (info, done) => {
+      const req = info.req as Request;
+      sessionParser(req, {} as Response, () => {
+        auth.authenticate(req).then((user) => {
+          if (!user) return done(false, 401, "Authentication required");
+          req.user = user;
+          done(true);
+        }, () => done(false, 500));
+      });
+    },
+  });
+
+  wss.on("connection", (ws, req) => {
+    connectedClients.set(ws, (req as Request).user!.workspaceId);
 
-  wss.on("connection", (ws) => {
-    connectedClients.add(ws);
-    
     ws.on("close", () => {
       connectedClients.delete(ws);
     });
   });
 
-  function broadcastLog(log: LogEntry) {
-    const message = JSON.stringify({ type: "log", log, taskId: log.taskId });
-    connectedClients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
+  function broadcast(workspaceId: string, payload: unknown) {
+    const message = JSON.stringify(payload);
+    connectedClients.forEach((clientWorkspaceId, client) => {
+      if (clientWorkspaceId === workspaceId && client.readyState === WebSocket.OPEN) {
         client.send(message);
       }
     });
   }
 
+  // Workspace of each task seen in an update; logs only carry a task id
+  const taskWorkspaces = new Map<string, string>();
+  async function workspaceOf(taskId: string): Promise<string | undefined> {
+    if (!taskWorkspaces.has(taskId)) {
+      const task = await storage.getTask(taskId);
+      if (task) taskWorkspaces.set(taskId, task.workspaceId);
+    }
+    return taskWorkspaces.get(taskId);
+  }
+
+  async function broadcastLog(log: LogEntry) {
+    const workspaceId = await workspaceOf(log.taskId);
+    if (workspaceId) {
+      broadcast(workspaceId, { type: "log", log, taskId: log.taskId });
+    }
+  }
+
   function broadcastTaskUpdate(task: Task) {
-    const message = JSON.stringify({ type: "task_update", data: task });
-    connectedClients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
+    taskWorkspaces.set(task.id, task.workspaceId);
+    broadcast(task.workspaceId, { type: "task_update", data: task });
+  }
+
+  async function broadcastApprovalRequest(taskId: string, approval: PendingApproval) {
+    const workspaceId = await workspaceOf(taskId);
+    if (workspaceId) {
+      broadcast(workspaceId, { type: "approval_request", taskId, approval });
+    }
+  }
+
+  function broadcastTasksDeleted(taskIds: string[]) {
+    const byWorkspace = new Map<string, string[]>();
+    for (const taskId of taskIds) {
+      const workspaceId = taskWorkspaces.get(taskId);
+      taskWorkspaces.delete(taskId);
+      // A task no socket has been told about doesn't need a deletion either
+      if (workspaceId) {
+        byWorkspace.set(workspaceId, [...(byWorkspace.get(workspaceId) ?? []), taskId]);
+      }
+    }
+    byWorkspace.forEach((ids, workspaceId) => broadcast(workspaceId, { type: "tasks_deleted", taskIds: ids }));
+  }
+
+  async function pruneHistory() {
+    try {
+      broadcastTasksDeleted(await pruneTaskHistory(storage));
+    } catch (error) {
+      console.error("[Routes] Failed to prune task history:", error);
+    }
+  }
+
+  // Apply the retention policy on startup and then periodically
+  void pruneHistory();
+  setInterval(pruneHistory, RETENTION_INTERVAL_MS).unref();
+
+  const secrets = createSecretVault(storage);
+  // Attached once the task manager exists; updates before that have no MCP callers waiting
+  let mcpEndpoint: McpEndpoint | undefined;
+  const taskManager = new TaskManager({
+    storage,
+    secrets,
+    onLog: (log) => {
+      void broadcastLog(log);
+      mcpEndpoint?.handleLog(log);
+    },
+    onTaskUpdate: (task) => {
+      broadcastTaskUpdate(task);
+      mcpEndpoint?.handleTaskUpdate(task);
+      if (isFinished(task)) {
+        void pruneHistory();
       }
+    },
+    onApprovalRequest: (taskId, approval) => void broadcastApprovalRequest(taskId, approval),
+  });
+  mcpEndpoint = new McpEndpoint({ storage, taskManager });
+  taskManager.warmUp();
+  try {
+    await taskManager.recoverInterrupted();
+  } catch (error) {
+    console.error("[Routes] Failed to recover interrupted tasks:", error);
+  }
+
+  function signIn(req: Request, user: User): Promise<void> {
+    // A fresh session id on sign-in, so one set before it can't be reused
+    return new Promise((resolve, reject) => {
+      req.session.regenerate((error) => {
+        if (error) return reject(error);
+        req.session.userId = user.id;
+        req.session.save((saveError) => saveError ? reject(saveError) : resolve());
+      });
     });
   }
 
-  app.get("/api/tasks", async (_req, res) => {
-    const tasks = await storage.getAllTasks();
+  function sendAuthError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    res.status(500).json({ message: error instanceof Error ? error.message : fallback });
+  }
+
+  app.post("/api/auth/register", async (req, res) => {
+    const parsed = registrationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    try {
+      const user = await auth.register(parsed.data);
+      await signIn(req, user);
+      res.status(201).json(user);
+    } catch (error) {
+      sendAuthError(res, error, "Failed to register");
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    const parsed = credentialsSchema.safeParse(req.body ?? {});
+    try {
+      const user = parsed.success ? await auth.login(parsed.data) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      await signIn(req, user);
+      res.json(user);
+    } catch (error) {
+      sendAuthError(res, error, "Failed to sign in");
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy(() => {
+      res.json({ success: true });
+    });
+  });
+
+  // Other agents can run tasks as MCP tools, with an API key
+  app.all("/mcp", requireAuth(auth), mcpEndpoint.handler());
+
+  // Everything else under /api needs a signed-in user or an API key
+  app.use("/api", requireAuth(auth));
+
+  // Tasks outside the user's workspace are reported as not found
+  async function loadTask(req: Request, res: Response): Promise<Task | undefined> {
+    const task = await storage.getTask(req.params.id);
+    if (!task || task.workspaceId !== req.user!.workspaceId) {
+      res.status(404).json({ message: "Task not found" });
+      return undefined;
+    }
+    return task;
+  }
+
+  app.get("/api/auth/me", (req, res) => {
+    res.json(req.user);
+  });
+
+  // Add a user to the caller's workspace
+  app.post("/api/auth/users", async (req, res) => {
+    const parsed = credentialsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    try {
+      res.status(201).json(await auth.addUser(req.user!.workspaceId, parsed.data));
+    } catch (error) {
+      sendAuthError(res, error, "Failed to add user");
+    }
+  });
+
+  app.get("/api/auth/api-keys", async (req, res) => {
+    res.json(await auth.listApiKeys(req.user!));
+  });
+
+  // The key is only in this response; send it as `Authorization: Bearer <key>`
+  app.post("/api/auth/api-keys", async (req, res) => {
+    const parsed = createApiKeySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    res.status(201).json(await auth.createApiKey(req.user!, parsed.data.name));
+  });
+
+  app.delete("/api/auth/api-keys/:id", async (req, res) => {
+    if (!(await auth.deleteApiKey(req.user!, req.params.id))) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+    res.json({ success: true });
+  });
+
+  app.get("/api/tasks", async (req, res) => {
+    const tasks = await storage.getAllTasks(req.user!.workspaceId);
     res.json(tasks);
   });
 
-  app.get("/api/tasks/current", async (_req, res) => {
-    const task = await storage.getCurrentTask();
+  app.get("/api/tasks/current", async (req, res) => {
+    const task = await storage.getCurrentTask(req.user!.workspaceId);
     res.json(task);
   });
 
+  // The workspace's entries only; positions are still in the shared queue
+  app.get("/api/queue", async (req, res) => {
+    const ids = new Set((await storage.getAllTasks(req.user!.workspaceId)).map((task) => task.id));
+    const queue = taskManager.getQueue();
+    res.json({
+      ...queue,
+      running: queue.running.filter((entry) => ids.has(entry.taskId)),
+      queued: queue.queued.filter((entry) => ids.has(entry.taskId)),
+    });
+  });
+
   app.post("/api/tasks/execute", async (req, res) => {
     try {
-      if (!process.env.OPENAI_API_KEY) {
-        return res.status(400).json({
-          message: "OpenAI API key not configured. Please add your OPENAI_API_KEY to secrets.",
-        });
-      }
-
-      const { prompt } = insertTaskSchema.parse(req.body);
+      const { prompt, ...options } = executeTaskSchema.parse(req.body);
+      const task = await taskManager.execute(prompt, { ...options, workspaceId: req.user!.workspaceId });
+      res.json(task);
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Failed to execute task",
+      });
+    }
+  });
 
-      const task = await storage.createTask(prompt);
+  app.get("/api/tasks/:id", async (req, res) => {
+    const task = await loadTask(req, res);
+    if (!task) return;
+    res.json(task);
+  });
 
-      const mcpServerUrl = process.env.MCP_SERVER_URL || "https://mcp-browser-automation-render.onrender.com/api/mcp";
-      console.log(`[Routes] Using MCP server URL: ${mcpServerUrl}`);
+  // Structured extraction output as a JSON or CSV download (?format=csv)
+  app.get("/api/tasks/:id/extractions", async (req, res) => {
+    const task = await loadTask(req, res);
+    if (!task) return;
 
-      const mcpClient = new McpClient({
-        url: mcpServerUrl,
-        apiKey: process.env.MCP_API_KEY,
-      });
+    const format = req.query.format ?? "json";
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({ message: "format must be json or csv" });
+    }
 
-      const orchestrator = new Orchestrator({
-        mcpClient,
-        onLog: async (level, message, details) => {
-          const log = await storage.addLog({
-            taskId: task.id,
-            timestamp: Date.now(),
-            level,
-            message,
-            details,
-          });
-          broadcastLog(log);
-        },
-      });
+    const extractions = task.extractions ?? [];
+    res.attachment(`task-${task.id}-extractions.${format}`);
+    if (format === "csv") {
+      res.type("text/csv").send(extractionsToCsv(extractions));
+    } else {
+      res.json(extractions);
+    }
+  });
 
-      currentOrchestrator = orchestrator;
+  // Screenshot ids are unique per capture, so responses can be cached forever
+  const sendScreenshot = (variant: ScreenshotVariant) => async (req: Request, res: Response) => {
+    const workspaceId = await storage.getScreenshotWorkspace(req.params.id);
+    const screenshot = workspaceId === req.user!.workspaceId ? await storage.getScreenshot(req.params.id, variant) : null;
+    if (!screenshot) {
+      return res.status(404).json({ message: "Screenshot not found" });
+    }
+    res.set("Cache-Control", "private, max-age=31536000, immutable");
+    res.type(screenshot.contentType).send(screenshot.data);
+  };
+  app.get("/api/screenshots/:id", sendScreenshot("full"));
+  app.get("/api/screenshots/:id/thumbnail", sendScreenshot("thumbnail"));
+
+  app.post("/api/tasks/:id/cancel", async (req, res) => {
+    const task = await loadTask(req, res);
+    if (!task) return;
+
+    const cancelled = await taskManager.cancel(task.id);
+    if (!cancelled) {
+      return res.status(409).json({ message: "Task is not queued or running" });
+    }
+    res.json({ success: true });
+  });
 
-      res.json(task);
+  // Resume a task paused on a tool call (awaiting_approval), running the call or rejecting it
+  const decideApproval = (approved: boolean) => async (req: Request, res: Response) => {
+    const task = await loadTask(req, res);
+    if (!task) return;
 
-      setImmediate(async () => {
-        let result: { success: boolean; result?: any; error?: string } | null = null;
-        try {
-          result = await orchestrator.execute(prompt);
-          console.log(`[Routes] Task ${task.id} execute() returned:`, result);
-        } catch (error) {
-          console.error(`[Routes] Task ${task.id} execution error:`, error);
-          result = {
-            success: false,
-            error: error instanceof Error ? error.message : "Task execution failed",
-          };
-        }
-        
-        // Get replay state AFTER execution completes (orchestrator still has it)
-        const replayState = orchestrator.getReplayState();
-        console.log(`[Routes] Task ${task.id} execution completed, replayState:`, replayState ? {
-          sessionId: replayState.sessionId,
-          url: replayState.url,
-          actionsCount: replayState.actions.length
-        } : "null");
-        
-          // Update task status with replayState - CRITICAL: This must happen
-          try {
-            let updatedTask: Task | undefined;
-            if (result && result.success) {
-              updatedTask = await storage.updateTask(task.id, {
-              status: "completed",
-              completedAt: Date.now(),
-              duration: Date.now() - task.createdAt,
-              result: result.result,
-                replayState: replayState || undefined,
-              });
-              console.log(`[Routes] ✅ Task ${task.id} updated to completed`);
-              console.log(`[Routes] ReplayState saved:`, updatedTask?.replayState ? {
-                sessionId: updatedTask.replayState.sessionId,
-                url: updatedTask.replayState.url,
-                actionsCount: updatedTask.replayState.actions.length
-              } : "none");
-          } else {
-              updatedTask = await storage.updateTask(task.id, {
-              status: "failed",
-              completedAt: Date.now(),
-              duration: Date.now() - task.createdAt,
-                error: result?.error || "Task execution failed",
-                replayState: replayState || undefined,
-              });
-              console.log(`[Routes] ❌ Task ${task.id} updated to failed`);
-              console.log(`[Routes] ReplayState saved:`, updatedTask?.replayState ? "yes" : "no");
-            }
-            
-            // Broadcast task update to connected clients
-            if (updatedTask) {
-              console.log(`[Routes] Broadcasting task update for ${updatedTask.id}, replayState exists:`, !!updatedTask.replayState);
-              broadcastTaskUpdate(updatedTask);
-            }
-          } catch (updateError) {
-            console.error(`[Routes] CRITICAL: Failed to update task ${task.id} status:`, updateError);
-          } finally {
-        currentOrchestrator = null;
-          }
+    const parsed = approvalDecisionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    try {
+      taskManager.decideApproval(task.id, { approved, ...parsed.data });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(409).json({
+        message: error instanceof Error ? error.message : "Failed to decide on approval",
       });
+    }
+  };
+  app.post("/api/tasks/:id/approve", decideApproval(true));
+  app.post("/api/tasks/:id/reject", decideApproval(false));
+
+  // Guidance for a running task, or the answer to the question it asked with ask_user
+  app.post("/api/tasks/:id/messages", async (req, res) => {
+    const task = await loadTask(req, res);
+    if (!task) return;
+
+    const parsed = taskMessageSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    try {
+      const delivered = await taskManager.postMessage(task.id, parsed.data.content);
+      res.json({ success: true, delivered });
     } catch (error) {
-      res.status(400).json({
-        message: error instanceof Error ? error.message : "Failed to execute task",
+      res.status(409).json({
+        message: error instanceof Error ? error.message : "Failed to send message",
       });
     }
   });
 
-  app.post("/api/tasks/cancel", async (_req, res) => {
-    if (currentOrchestrator) {
-      currentOrchestrator.cancel();
-      const currentTask = await storage.getCurrentTask();
-      if (currentTask) {
-        await storage.updateTask(currentTask.id, {
-          status: "failed",
-          completedAt: Date.now(),
-          duration: Date.now() - currentTask.createdAt,
-          error: "Cancelled by user",
-        });
-      }
+  // Clear history: deletes every finished task, running tasks are left alone
+  app.delete("/api/tasks", async (req, res) => {
+    const tasks = await storage.getAllTasks(req.user!.workspaceId);
+    const deleted = await storage.deleteTasks(tasks.filter(isFinished).map((task) => task.id));
+    broadcastTasksDeleted(deleted);
+    res.json({ success: true, deleted });
+  });
+
+  app.delete("/api/tasks/:id", async (req, res) => {
+    const task = await loadTask(req, res);
+    if (!task) return;
+    if (!isFinished(task)) {
+      return res.status(409).json({ message: "Cannot delete a task that is still queued or running" });
     }
-    
-    // Clear all tasks and logs when task is cancelled
-    await storage.clearAllTasks();
-    await storage.clearAllLogs();
-    currentOrchestrator = null;
-    
-    // Broadcast that tasks have been cleared
-    const clearMessage = JSON.stringify({ 
-      type: "tasks_cleared",
-      message: "All tasks and execution data have been cleared after cancellation"
-    });
-    connectedClients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(clearMessage);
-      }
-    });
-    
+
+    const deleted = await storage.deleteTasks([task.id]);
+    broadcastTasksDeleted(deleted);
     res.json({ success: true });
   });
 
   app.get("/api/tasks/:id/logs", async (req, res) => {
-    const logs = await storage.getTaskLogs(req.params.id);
+    const task = await loadTask(req, res);
+    if (!task) return;
+    const logs = await storage.getTaskLogs(task.id);
     res.json(logs);
   });
 
   app.post("/api/tasks/:id/replay", async (req, res) => {
     try {
-      const task = await storage.getTask(req.params.id);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
-      }
+      const task = await loadTask(req, res);
+      if (!task) return;
 
       if (!task.replayState) {
         return res.status(400).json({ message: "No replay state available for this task" });
       }
 
-      const { sessionId, url, pages, actions } = task.replayState;
-
-      // Create a new task for the replay
-      const replayTask = await storage.createTask(`Replay: ${task.prompt}`);
-
-      const mcpServerUrl = process.env.MCP_SERVER_URL || "https://mcp-browser-automation-render.onrender.com/api/mcp";
-      console.log(`[Routes] Using MCP server URL for replay: ${mcpServerUrl}`);
-      
-      const mcpClient = new McpClient({
-        url: mcpServerUrl,
-        apiKey: process.env.MCP_API_KEY,
-      });
-
-      // Simple logging function for deterministic replay (no Orchestrator needed)
-      const log = async (level: "info" | "success" | "error" | "warning", message: string, details?: any) => {
-        const logEntry = await storage.addLog({
-          taskId: replayTask.id,
-          timestamp: Date.now(),
-          level,
-          message,
-          details,
-        });
-        broadcastLog(logEntry);
-      };
-
+      const { onDivergence, variables } = replayTaskSchema.parse(req.body ?? {});
+      const replayTask = await taskManager.replay(task, { onDivergence, variables });
       res.json(replayTask);
-
-      setImmediate(async () => {
-        try {
-          // Connect MCP client
-          await mcpClient.connect();
-          await log("info", `Replaying task with session ${sessionId}...`);
-
-          // Reuse the session (deterministic - no new session creation)
-          await mcpClient.createSession(sessionId);
-          await log("success", `Reusing browser session: ${sessionId}`);
-
-          // Execute all cached actions in exact order (includes navigate, act, extract, screenshot)
-          // This preserves the exact sequence from original execution
-          for (const action of actions) {
-            // Clean function name for UI display
-            const cleanFunctionName = action.function
-              .replace(/^browserbase_/i, "")
-              .replace(/^stagehand_/i, "")
-              .replace(/_/g, " ");
-            
-            // Determine log message based on function type
-            let logMessage = `Replaying ${cleanFunctionName}...`;
-            if (action.function === "browserbase_stagehand_navigate" && action.arguments.url) {
-              logMessage = `Navigating to ${action.arguments.url}...`;
-            }
-            
-            await log("info", logMessage);
-            const actionResult = await mcpClient.callFunction({
-              function: action.function,
-              arguments: { ...action.arguments, sessionId },
-            });
-            if (actionResult.error) {
-              await log("error", `${cleanFunctionName} failed: ${actionResult.error}`);
-            } else {
-              // For navigate, log success with URL
-              if (action.function === "browserbase_stagehand_navigate" && action.arguments.url) {
-                await log("success", `Navigated to ${action.arguments.url}`);
-                
-                // Take screenshot after navigation
-                await log("info", "Taking screenshot after navigation...");
-                const screenshotResult = await mcpClient.callFunction({
-                  function: "browserbase_screenshot",
-                  arguments: { sessionId },
-                });
-                if (!screenshotResult.error && screenshotResult.screenshot) {
-                  await log("info", "Screenshot captured", { screenshot: screenshotResult.screenshot });
-                } else {
-                  await log("warning", "Failed to capture screenshot after navigation");
-                }
-              } else {
-                // Log success with response details
-                let responseMessage = `${cleanFunctionName} completed successfully`;
-                const responseDetails: any = {};
-                
-                // Capture screenshot from result if available
-                if (actionResult.screenshot) {
-                  responseDetails.screenshot = actionResult.screenshot;
-                  await log("info", "Screenshot captured", { screenshot: actionResult.screenshot });
-                }
-                
-                // Capture result text/content from function response
-                // The result object may have a 'result' property with text content
-                if (actionResult.result) {
-                  if (typeof actionResult.result === 'string' && actionResult.result.length > 0) {
-                    // Limit text to 1000 chars for display
-                    responseDetails.response = actionResult.result.length > 1000 
-                      ? actionResult.result.substring(0, 1000) + "..." 
-                      : actionResult.result;
-                  } else if (typeof actionResult.result === 'object' && actionResult.result !== null) {
-                    // If result is an object, try to extract meaningful data
-                    try {
-                      const resultStr = JSON.stringify(actionResult.result, null, 2);
-                      responseDetails.response = resultStr.length > 1000 
-                        ? resultStr.substring(0, 1000) + "..." 
-                        : resultStr;
-                    } catch (e) {
-                      // If JSON.stringify fails, just use string representation
-                      responseDetails.response = String(actionResult.result).substring(0, 1000);
-                    }
-                  }
-                }
-                
-                // Log the response with details if available
-                if (Object.keys(responseDetails).length > 0 && !responseDetails.screenshot) {
-                  // Only log details if there's something other than screenshot
-                  await log("success", responseMessage, responseDetails);
-                } else if (Object.keys(responseDetails).length > 0) {
-                  // If only screenshot, log success without details (screenshot already logged separately)
-                  await log("success", responseMessage);
-                } else {
-                  await log("success", responseMessage);
-                }
-                
-                // Take screenshot after act function if not already captured
-                if (action.function === "browserbase_stagehand_act" && !actionResult.screenshot) {
-                  await log("info", "Taking screenshot after action...");
-                  const screenshotResult = await mcpClient.callFunction({
-                    function: "browserbase_screenshot",
-                    arguments: { sessionId },
-                  });
-                  if (!screenshotResult.error && screenshotResult.screenshot) {
-                    await log("info", "Screenshot captured", { screenshot: screenshotResult.screenshot });
-                  }
-                }
-              }
-            }
-          }
-
-          await log("info", "Closing browser session...");
-          await mcpClient.close();
-          await log("success", "Replay completed successfully");
-
-          // Clean up ALL execution data after replay completes
-          // This ensures no task history or execution data remains after replay
-          await storage.deleteLogsForTask(replayTask.id);
-          await storage.deleteLogsForTask(task.id);
-          
-          // Clear all tasks and logs from memory (no execution data should remain)
-          await storage.clearAllTasks();
-          await storage.clearAllLogs();
-          
-          // Broadcast task update to notify all clients that tasks have been cleared
-          // Send a special message indicating all tasks are cleared
-          const clearMessage = JSON.stringify({ 
-            type: "tasks_cleared",
-            message: "All tasks and execution data have been cleared after replay"
-          });
-          connectedClients.forEach((client) => {
-            if (client.readyState === WebSocket.OPEN) {
-              client.send(clearMessage);
-            }
-          });
-          
-          console.log(`[Routes] Replay completed - all tasks, logs, and execution data cleared from memory`);
-        } catch (error) {
-          await log("error", `Replay failed: ${error instanceof Error ? error.message : "Unknown error"}`);
-          await storage.updateTask(replayTask.id, {
-            status: "failed",
-            completedAt: Date.now(),
-            duration: Date.now() - replayTask.createdAt,
-            error: error instanceof Error ? error.message : "Replay failed",
-          });
-        } finally {
-          // Close the session and reset orchestrator
-          try {
-            await mcpClient.close();
-          } catch (closeError) {
-            console.error("[Routes] Error closing MCP client:", closeError);
-          }
-          currentOrchestrator = null;
-        }
-      });
     } catch (error) {
       res.status(400).json({
         message: error instanceof Error ? error.message : "Failed to replay task",
@@ -390,30 +431,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks/:id/cancel-replay", async (req, res) => {
+  // Turn recorded literals into {{variables}} so the replay can be re-run with other values
+  app.post("/api/tasks/:id/template", async (req, res) => {
     try {
-      const task = await storage.getTask(req.params.id);
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
+      const task = await loadTask(req, res);
+      if (!task) return;
+      if (!task.replayState) {
+        return res.status(400).json({ message: "No replay state available for this task" });
       }
 
-      // Clear all tasks and logs when replay is cancelled
-      await storage.clearAllTasks();
-      await storage.clearAllLogs();
-      currentOrchestrator = null;
-      
-      // Broadcast that tasks have been cleared
-      const clearMessage = JSON.stringify({ 
-        type: "tasks_cleared",
-        message: "All tasks and execution data have been cleared after replay cancellation"
-      });
-      connectedClients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(clearMessage);
-        }
+      const { variables } = templateTaskSchema.parse(req.body);
+      const { replayState, unused } = templatizeReplayState(task.replayState, variables);
+      if (unused.length > 0) {
+        return res.status(400).json({
+          message: `Values not found in recorded actions: ${unused.map((name) => `${name} ("${variables[name]}")`).join(", ")}`,
+        });
+      }
+
+      const updatedTask = await storage.updateTask(task.id, { replayState });
+      if (updatedTask) {
+        broadcastTaskUpdate(updatedTask);
+      }
+      res.json(updatedTask);
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Failed to create template",
       });
+    }
+  });
 
-      res.json({ success: true });
+  app.post("/api/tasks/:id/cancel-replay", async (req, res) => {
+    try {
+      const task = await loadTask(req, res);
+      if (!task) return;
+
+      // Stop any replays of this task; its recorded replay state is kept
+      const cancelled = await taskManager.cancelReplays(task.id);
+      res.json({ success: true, cancelled });
     } catch (error) {
       res.status(400).json({
         message: error instanceof Error ? error.message : "Failed to cancel replay",
@@ -421,23 +475,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Endpoint to clear all data (called on page refresh/load)
-  app.post("/api/tasks/clear-all", async (_req, res) => {
-    await storage.clearAllTasks();
-    await storage.clearAllLogs();
-    currentOrchestrator = null;
-    
-    // Broadcast that tasks have been cleared
-    const clearMessage = JSON.stringify({ 
-      type: "tasks_cleared",
-      message: "All tasks and execution data have been cleared"
-    });
-    connectedClients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(clearMessage);
-      }
-    });
-    
+  // Secrets for {{secret:name}} references. Values can be set but never read back.
+  function requireSecrets(res: Response) {
+    if (!secrets) {
+      res.status(503).json({ message: "Secrets are not configured. Set SECRETS_KEY." });
+    }
+    return secrets;
+  }
+
+  app.get("/api/secrets", async (req, res) => {
+    const vault = requireSecrets(res);
+    if (!vault) return;
+    res.json(await vault.list(req.user!.workspaceId));
+  });
+
+  app.post("/api/secrets", async (req, res) => {
+    const vault = requireSecrets(res);
+    if (!vault) return;
+    const parsed = createSecretSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    if (await vault.has(req.user!.workspaceId, parsed.data.name)) {
+      return res.status(409).json({ message: `Secret ${parsed.data.name} already exists` });
+    }
+    res.status(201).json(await vault.set(req.user!.workspaceId, parsed.data.name, parsed.data.value));
+  });
+
+  app.put("/api/secrets/:name", async (req, res) => {
+    const vault = requireSecrets(res);
+    if (!vault) return;
+    if (!(await vault.has(req.user!.workspaceId, req.params.name))) {
+      return res.status(404).json({ message: "Secret not found" });
+    }
+    const parsed = updateSecretSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+    res.json(await vault.set(req.user!.workspaceId, req.params.name, parsed.data.value));
+  });
+
+  app.delete("/api/secrets/:name", async (req, res) => {
+    const vault = requireSecrets(res);
+    if (!vault) return;
+    if (!(await vault.delete(req.user!.workspaceId, req.params.name))) {
+      return res.status(404).json({ message: "Secret not found" });
+    }
     res.json({ success: true });
   });
 
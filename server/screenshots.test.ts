@@ -0,0 +1,111 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { FileBlobStore, MemoryBlobStore } from "./blob-store";
+import { ScreenshotStore, detectImageType } from "./screenshots";
+import { MemStorage } from "./storage";
+
+async function png(width: number, height: number): Promise<string> {
+  const data = await sharp({ create: { width, height, channels: 3, background: "#3366cc" } }).png().toBuffer();
+  return `data:image/png;base64,${data.toString("base64")}`;
+}
+
+describe("detectImageType", () => {
+  it("recognizes common screenshot formats", async () => {
+    const image = sharp({ create: { width: 4, height: 4, channels: 3, background: "#fff" } });
+    expect(detectImageType(await image.clone().png().toBuffer())).toBe("image/png");
+    expect(detectImageType(await image.clone().jpeg().toBuffer())).toBe("image/jpeg");
+    expect(detectImageType(await image.clone().webp().toBuffer())).toBe("image/webp");
+    expect(detectImageType(Buffer.from("not an image"))).toBe("application/octet-stream");
+  });
+});
+
+describe("ScreenshotStore", () => {
+  it("saves data URLs and bare base64, but not remote URLs", async () => {
+    const store = new ScreenshotStore({ blobs: new MemoryBlobStore() });
+    const screenshot = await png(10, 10);
+
+    const id = await store.save(screenshot);
+    const bareId = await store.save(screenshot.replace(/^data:[^,]*,/, ""));
+
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(bareId).not.toBe(id);
+    await expect(store.save("https://cdn.example.com/shot.png")).resolves.toBeNull();
+    const loaded = await store.load(id!);
+    expect(loaded?.contentType).toBe("image/png");
+    expect(loaded?.data.toString("base64")).toBe(screenshot.replace(/^data:[^,]*,/, ""));
+  });
+
+  it("generates a thumbnail once and caches it", async () => {
+    const blobs = new MemoryBlobStore();
+    const store = new ScreenshotStore({ blobs });
+    const id = (await store.save(await png(1280, 720)))!;
+
+    const thumbnail = await store.load(id, "thumbnail");
+
+    expect(thumbnail?.contentType).toBe("image/webp");
+    await expect(sharp(thumbnail!.data).metadata()).resolves.toMatchObject({ width: 320, height: 180 });
+    expect(blobs.size).toBe(2);
+    await expect(store.load(id, "thumbnail")).resolves.toEqual(thumbnail);
+  });
+
+  it("returns null for unknown or malformed ids", async () => {
+    const store = new ScreenshotStore({ blobs: new MemoryBlobStore() });
+
+    await expect(store.load("00000000-0000-0000-0000-000000000000")).resolves.toBeNull();
+    await expect(store.load("../../etc/passwd")).resolves.toBeNull();
+  });
+});
+
+describe("FileBlobStore", () => {
+  let directory: string;
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("stores blobs as files and deletes them", async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "blobs-"));
+    const blobs = new FileBlobStore({ directory });
+
+    await blobs.put("screenshots/abc", Buffer.from("image"));
+
+    await expect(blobs.get("screenshots/abc")).resolves.toEqual(Buffer.from("image"));
+    await expect(readdir(path.join(directory, "screenshots"))).resolves.toEqual(["abc"]);
+    await blobs.delete(["screenshots/abc", "screenshots/missing"]);
+    await expect(blobs.get("screenshots/abc")).resolves.toBeNull();
+  });
+
+  it("rejects keys that escape the directory", async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "blobs-"));
+    const blobs = new FileBlobStore({ directory });
+
+    await expect(blobs.put("../outside", Buffer.from("x"))).rejects.toThrow("Invalid blob key");
+    await expect(blobs.get("screenshots/../../outside")).rejects.toThrow("Invalid blob key");
+  });
+});
+
+describe("MemStorage screenshots", () => {
+  it("keeps only a screenshot id on logs and deletes screenshots with their task", async () => {
+    const blobs = new MemoryBlobStore();
+    const storage = new MemStorage(new ScreenshotStore({ blobs }));
+    const task = await storage.createTask({ prompt: "Open example.com" });
+
+    const log = await storage.addLog({
+      taskId: task.id,
+      timestamp: Date.now(),
+      level: "info",
+      message: "Screenshot captured",
+      details: { screenshot: await png(10, 10), step: 1 },
+    });
+
+    expect(log.details).toEqual({ step: 1 });
+    expect(JSON.stringify(log)).not.toContain("base64");
+    await expect(storage.getScreenshot(log.screenshotId!)).resolves.not.toBeNull();
+
+    await storage.deleteTasks([task.id]);
+    expect(blobs.size).toBe(0);
+  });
+});
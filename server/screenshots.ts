@@ -0,0 +1,85 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { BlobStore } from "./blob-store";
+
+const THUMBNAIL_WIDTH = 320;
+
+export const SCREENSHOT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type ScreenshotVariant = "full" | "thumbnail";
+
+export interface Screenshot {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Guess an image's content type from its leading bytes
+ */
+export function detectImageType(data: Buffer): string {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") return "image/webp";
+  if (data.toString("ascii", 0, 4) === "GIF8") return "image/gif";
+  return "application/octet-stream";
+}
+
+export interface ScreenshotStoreConfig {
+  blobs: BlobStore;
+}
+
+/**
+ * Screenshots taken during tasks, saved to a blob store and referenced from
+ * logs by id. Thumbnails are generated on first request and kept alongside.
+ */
+export class ScreenshotStore {
+  private blobs: BlobStore;
+
+  constructor(config: ScreenshotStoreConfig) {
+    this.blobs = config.blobs;
+  }
+
+  private key(id: string, variant: ScreenshotVariant): string {
+    return variant === "thumbnail" ? `screenshots/${id}-thumbnail` : `screenshots/${id}`;
+  }
+
+  /**
+   * Save a data: URL or bare base64 screenshot. Returns its id, or null if
+   * the screenshot is not inline image data (e.g. a remote URL).
+   */
+  async save(screenshot: string): Promise<string | null> {
+    const base64 = screenshot.replace(/^data:[^,]*;base64,/, "");
+    if (!/^[A-Za-z0-9+/=\s]+$/.test(base64)) {
+      return null;
+    }
+
+    const id = randomUUID();
+    await this.blobs.put(this.key(id, "full"), Buffer.from(base64, "base64"));
+    return id;
+  }
+
+  async load(id: string, variant: ScreenshotVariant = "full"): Promise<Screenshot | null> {
+    if (!SCREENSHOT_ID_PATTERN.test(id)) return null;
+
+    if (variant === "thumbnail") {
+      const thumbnail = await this.blobs.get(this.key(id, "thumbnail"));
+      if (thumbnail) return { data: thumbnail, contentType: "image/webp" };
+    }
+
+    const data = await this.blobs.get(this.key(id, "full"));
+    if (!data) return null;
+    if (variant === "full") return { data, contentType: detectImageType(data) };
+
+    const thumbnail = await sharp(data)
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+    await this.blobs.put(this.key(id, "thumbnail"), thumbnail);
+    return { data: thumbnail, contentType: "image/webp" };
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const valid = ids.filter((id) => SCREENSHOT_ID_PATTERN.test(id));
+    await this.blobs.delete(valid.flatMap((id) => [this.key(id, "full"), this.key(id, "thumbnail")]));
+  }
+}
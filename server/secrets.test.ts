@@ -0,0 +1,147 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { McpClient } from "./mcp-client";
+import { MockMcpServer } from "./mock-mcp-server";
+import { SecretVault, createSecretVault, fillSecrets, findSecretNames, redactSecrets } from "./secrets";
+import { MemStorage } from "./storage";
+
+describe("SecretVault", () => {
+  it("stores values encrypted and only returns them from reveal", async () => {
+    const storage = new MemStorage();
+    const vault = new SecretVault({ storage, key: "test-key" });
+
+    const created = await vault.set("ws", "password", "hunter2");
+    const row = await storage.getSecret("ws", "password");
+
+    expect(row?.ciphertext).not.toContain("hunter2");
+    expect(await vault.list("ws")).toEqual([created]);
+    expect(await vault.reveal("ws", "password")).toBe("hunter2");
+    expect(await vault.reveal("ws", "missing")).toBeUndefined();
+    expect(await vault.reveal("other-ws", "password")).toBeUndefined();
+  });
+
+  it("keeps the creation time when a secret is replaced", async () => {
+    const vault = new SecretVault({ storage: new MemStorage(), key: "test-key" });
+
+    const created = await vault.set("ws", "token", "one");
+    const updated = await vault.set("ws", "token", "two");
+
+    expect(updated.createdAt).toBe(created.createdAt);
+    expect(await vault.reveal("ws", "token")).toBe("two");
+    expect(await vault.delete("ws", "token")).toBe(true);
+    expect(await vault.delete("ws", "token")).toBe(false);
+  });
+
+  it("refuses to decrypt with a different key", async () => {
+    const storage = new MemStorage();
+    await new SecretVault({ storage, key: "old-key" }).set("ws", "password", "hunter2");
+
+    await expect(new SecretVault({ storage, key: "new-key" }).reveal("ws", "password"))
+      .rejects.toThrow("Secret password could not be decrypted; was SECRETS_KEY changed?");
+  });
+
+  describe("createSecretVault", () => {
+    afterEach(() => {
+      delete process.env.SECRETS_KEY;
+    });
+
+    it("needs SECRETS_KEY", () => {
+      expect(createSecretVault(new MemStorage())).toBeNull();
+      process.env.SECRETS_KEY = "from-env";
+      expect(createSecretVault(new MemStorage())).toBeInstanceOf(SecretVault);
+    });
+  });
+});
+
+describe("secret placeholders", () => {
+  const values: Record<string, string> = { user: "alice", password: "hunter2" };
+  const reveal = async (name: string) => values[name];
+
+  it("finds and fills {{secret:name}} in nested arguments", async () => {
+    expect(findSecretNames("Log in as {{secret:user}} with {{ secret:password }}, {{secret:user}}, {{user}}"))
+      .toEqual(["user", "password"]);
+
+    const { value, used } = await fillSecrets({ action: "Type {{secret:password}}", fields: ["{{secret:user}}"] }, reveal);
+
+    expect(value).toEqual({ action: "Type hunter2", fields: ["alice"] });
+    expect(Array.from(used.keys())).toEqual(["password", "user"]);
+    await expect(fillSecrets({ action: "{{secret:pin}}" }, reveal)).rejects.toThrow("Unknown secret: pin");
+  });
+
+  it("redacts values back to placeholders, longest first", () => {
+    const used = new Map([["short", "abc"], ["long", "abcdef"]]);
+
+    expect(redactSecrets("abcdef and abc", used)).toBe("{{secret:long}} and {{secret:short}}");
+  });
+});
+
+describe("McpClient secrets", () => {
+  const server = new MockMcpServer({
+    pages: {
+      "https://example.com/login": {
+        title: "Log in",
+        actions: { "type": null },
+        extract: { password: "hunter2" },
+      },
+    },
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("fills secrets only in the call sent to the server and redacts them from responses", async () => {
+    const client = new McpClient({ url: server.url, revealSecret: async (name) => name === "password" ? "hunter2" : undefined });
+    await client.createSession();
+    await client.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com/login" } });
+
+    const typed = await client.callFunction({
+      function: "browserbase_stagehand_act",
+      arguments: { action: "Type {{secret:password}} into the password field" },
+    });
+    const extracted = await client.callFunction({ function: "browserbase_stagehand_extract", arguments: { instruction: "Read the form" } });
+    const failed = await client.callFunction({
+      function: "browserbase_stagehand_act",
+      arguments: { action: "Paste {{secret:password}}" },
+    });
+    const unknown = await client.callFunction({ function: "browserbase_stagehand_act", arguments: { action: "Type {{secret:pin}}" } });
+    await client.close();
+
+    expect(server.calls.find((call) => call.name === "browserbase_stagehand_act")?.arguments.action)
+      .toBe("Type hunter2 into the password field");
+    expect(typed.arguments.action).toBe("Type {{secret:password}} into the password field");
+    expect(extracted.result).toContain('"password": "{{secret:password}}"');
+    expect(failed.error).toBe('Could not perform action "Paste {{secret:password}}": no matching element found');
+    expect(unknown.error).toBe("Unknown secret: pin");
+    expect(JSON.stringify([typed, extracted, failed, unknown])).not.toContain("hunter2");
+  });
+
+  it("fills secrets only into actions that type into the page", async () => {
+    const client = new McpClient({ url: server.url, revealSecret: async () => "hunter2" });
+    await client.createSession();
+    server.calls.length = 0;
+
+    const navigated = await client.callFunction({
+      function: "browserbase_stagehand_navigate",
+      arguments: { url: "https://example.com/login?token={{secret:password}}" },
+    });
+    const extracted = await client.callFunction({
+      function: "browserbase_stagehand_extract",
+      arguments: { instruction: "Find {{secret:password}}" },
+    });
+    await client.close();
+
+    expect(navigated.error).toBe(
+      "Secrets can only be typed into the page with browserbase_stagehand_act, not sent to browserbase_stagehand_navigate",
+    );
+    expect(extracted.error).toContain("not sent to browserbase_stagehand_extract");
+    expect(server.calls.map((call) => call.name)).not.toContain("browserbase_stagehand_navigate");
+    expect(server.calls.map((call) => call.name)).not.toContain("browserbase_stagehand_extract");
+  });
+});
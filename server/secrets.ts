@@ -0,0 +1,138 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import type { Secret } from "@shared/schema";
+import { mapStrings } from "@shared/templates";
+import type { IStorage } from "./storage";
+
+// {{secret:name}} placeholders, filled in by McpClient right before a tool call
+const SECRET_PLACEHOLDER_PATTERN = /\{\{\s*secret:([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g;
+
+const KEY_SALT = "browser-orchestrator-secrets";
+
+export interface SecretVaultConfig {
+  storage: IStorage;
+  key: string; // SECRETS_KEY; any string, stretched to an AES-256 key
+}
+
+/**
+ * Secrets encrypted at rest with AES-256-GCM, kept per workspace. Values only
+ * leave the vault through reveal(), which McpClient calls when filling in a
+ * tool call.
+ */
+export class SecretVault {
+  private storage: IStorage;
+  private key: Buffer;
+
+  constructor(config: SecretVaultConfig) {
+    this.storage = config.storage;
+    this.key = scryptSync(config.key, KEY_SALT, 32);
+  }
+
+  async list(workspaceId: string): Promise<Secret[]> {
+    const rows = await this.storage.listSecrets(workspaceId);
+    return rows.map(({ name, createdAt, updatedAt }) => ({ name, createdAt, updatedAt }));
+  }
+
+  async has(workspaceId: string, name: string): Promise<boolean> {
+    return (await this.storage.getSecret(workspaceId, name)) !== undefined;
+  }
+
+  /**
+   * Create or replace a secret, keeping its original creation time
+   */
+  async set(workspaceId: string, name: string, value: string): Promise<Secret> {
+    const existing = await this.storage.getSecret(workspaceId, name);
+    const now = Date.now();
+    const secret = { name, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    await this.storage.saveSecret({ ...secret, workspaceId, ciphertext: this.encrypt(value) });
+    return secret;
+  }
+
+  async delete(workspaceId: string, name: string): Promise<boolean> {
+    return this.storage.deleteSecret(workspaceId, name);
+  }
+
+  /**
+   * Decrypted value of a secret, or undefined if there is none
+   */
+  async reveal(workspaceId: string, name: string): Promise<string | undefined> {
+    const row = await this.storage.getSecret(workspaceId, name);
+    if (!row) return undefined;
+    try {
+      return this.decrypt(row.ciphertext);
+    } catch {
+      throw new Error(`Secret ${name} could not be decrypted; was SECRETS_KEY changed?`);
+    }
+  }
+
+  // Stored as iv.tag.ciphertext, each base64
+  private encrypt(value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map((part) => part.toString("base64")).join(".");
+  }
+
+  private decrypt(ciphertext: string): string {
+    const [iv, tag, data] = ciphertext.split(".").map((part) => Buffer.from(part, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+  }
+}
+
+/**
+ * Vault keyed by the SECRETS_KEY env var, or null when it isn't set (secrets
+ * are then unavailable rather than stored unencrypted)
+ */
+export function createSecretVault(storage: IStorage): SecretVault | null {
+  if (!process.env.SECRETS_KEY) return null;
+  return new SecretVault({ storage, key: process.env.SECRETS_KEY });
+}
+
+/**
+ * Names of the {{secret:name}} placeholders in a text, in order of first use
+ */
+export function findSecretNames(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(SECRET_PLACEHOLDER_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Replace {{secret:name}} placeholders anywhere in a value (strings nested in
+ * objects and arrays included). Returns the filled value and the secrets that
+ * were used, so they can be redacted from whatever comes back. Throws on an
+ * unknown secret rather than sending the placeholder on.
+ */
+export async function fillSecrets<T>(
+  value: T,
+  reveal: (name: string) => Promise<string | undefined>,
+): Promise<{ value: T; used: Map<string, string> }> {
+  const names = new Set<string>();
+  mapStrings(value, (text) => {
+    findSecretNames(text).forEach((name) => names.add(name));
+    return text;
+  });
+  if (names.size === 0) return { value, used: new Map() };
+
+  const used = new Map<string, string>();
+  for (const name of Array.from(names)) {
+    const secret = await reveal(name);
+    if (secret === undefined) {
+      throw new Error(`Unknown secret: ${name}`);
+    }
+    used.set(name, secret);
+  }
+  const filled = mapStrings(value, (text) =>
+    text.replace(SECRET_PLACEHOLDER_PATTERN, (_placeholder, name: string) => used.get(name)!));
+  return { value: filled, used };
+}
+
+/**
+ * Put placeholders back in place of secret values, longest value first so a
+ * value containing another one is redacted whole
+ */
+export function redactSecrets(text: string, used: Map<string, string>): string {
+  return Array.from(used.entries())
+    .filter(([, value]) => value.length > 0)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .reduce((result, [name, value]) => result.split(value).join(`{{secret:${name}}}`), text);
+}
@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ReplayState } from "@shared/schema";
+import { MemoryBlobStore } from "./blob-store";
+import { createDatabase, type Database } from "./db";
+import { ScreenshotStore } from "./screenshots";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+
+interface StorageFixture {
+  storage: IStorage;
+  close: () => Promise<void>;
+}
+
+/**
+ * The same behaviour is expected of both implementations. DbStorage runs
+ * against the Postgres database in DATABASE_URL and is skipped without one;
+ * each run works in a workspace of its own and deletes its tasks afterwards.
+ */
+function describeStorage(name: string, create: () => Promise<StorageFixture>, options: { skip?: boolean } = {}) {
+  describe.skipIf(options.skip)(name, () => {
+    const workspaceId = `storage-test-${randomUUID()}`;
+    let fixture: StorageFixture;
+    let storage: IStorage;
+
+    beforeAll(async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      fixture = await create();
+      storage = fixture.storage;
+    });
+
+    afterAll(async () => {
+      const tasks = await storage.getAllTasks(workspaceId);
+      await storage.deleteTasks(tasks.map((task) => task.id));
+      await fixture.close();
+      vi.restoreAllMocks();
+    });
+
+    it("creates, updates and lists tasks per workspace", async () => {
+      const task = await storage.createTask({ prompt: "Open example.com", workspaceId });
+      const other = await storage.createTask({ prompt: "Elsewhere", workspaceId: `${workspaceId}-other` });
+
+      expect(task).toMatchObject({ prompt: "Open example.com", workspaceId, status: "queued" });
+      expect(await storage.getTask(task.id)).toEqual(task);
+      const running = await storage.updateTask(task.id, { status: "running" });
+      expect(await storage.getCurrentTask(workspaceId)).toEqual(running);
+
+      const updated = await storage.updateTask(task.id, { status: "completed", result: { heading: "Example" } });
+      expect(updated).toMatchObject({ status: "completed", result: { heading: "Example" } });
+      expect(await storage.getTask(task.id)).toEqual(updated);
+      expect(await storage.getCurrentTask(workspaceId)).toBeNull();
+      expect((await storage.getAllTasks(workspaceId)).map((task) => task.id)).toEqual([task.id]);
+      expect(await storage.updateTask(randomUUID(), { status: "failed" })).toBeUndefined();
+
+      expect(await storage.deleteTasks([other.id, randomUUID()])).toEqual([other.id]);
+      expect(await storage.getTask(other.id)).toBeUndefined();
+    });
+
+    it("keeps replay actions in order and replaces them on update", async () => {
+      const task = await storage.createTask({ prompt: "Replay me", workspaceId });
+      const replayState: ReplayState = {
+        sessionId: "session-1",
+        url: "https://example.com",
+        actions: [
+          { function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com" }, checkpoint: { url: "https://example.com" } },
+          { function: "browserbase_stagehand_act", arguments: { action: "Click more" } },
+          { function: "read_file", arguments: { path: "notes.txt" }, server: "files" },
+        ],
+      };
+
+      await storage.updateTask(task.id, { replayState });
+      expect((await storage.getTask(task.id))?.replayState).toMatchObject(replayState);
+
+      const shorter = { ...replayState, revision: 2, actions: replayState.actions.slice(1) };
+      await storage.updateTask(task.id, { replayState: shorter });
+      expect((await storage.getTask(task.id))?.replayState).toMatchObject(shorter);
+
+      await storage.updateTask(task.id, { replayState: undefined });
+      expect((await storage.getTask(task.id))?.replayState).toBeUndefined();
+    });
+
+    it("orders logs by time, then id, and moves screenshots to the store", async () => {
+      const task = await storage.createTask({ prompt: "Log me", workspaceId });
+      const first = await storage.addLog({ taskId: task.id, timestamp: 2000, level: "info", message: "Later" });
+      const tied = await Promise.all(["A", "B", "C"].map((message) =>
+        storage.addLog({ taskId: task.id, timestamp: 1000, level: "info", message })));
+      const withScreenshot = await storage.addLog({
+        taskId: task.id,
+        timestamp: 3000,
+        level: "success",
+        message: "Screenshot",
+        details: { screenshot: PNG, url: "https://example.com" },
+      });
+
+      const logs = await storage.getTaskLogs(task.id);
+      const byId = [...tied].sort((a, b) => (a.id < b.id ? -1 : 1));
+      expect(logs.map((log) => log.id)).toEqual([...byId.map((log) => log.id), first.id, withScreenshot.id]);
+      expect(await storage.getTaskLogs(task.id)).toEqual(logs);
+
+      expect(withScreenshot.screenshotId).toBeDefined();
+      expect(withScreenshot.details).toEqual({ url: "https://example.com" });
+      expect(logs[4]).toEqual(withScreenshot);
+      expect(await storage.getScreenshot(withScreenshot.screenshotId!)).toMatchObject({ contentType: "image/png" });
+      expect(await storage.getScreenshotWorkspace(withScreenshot.screenshotId!)).toBe(workspaceId);
+
+      await storage.deleteTasks([task.id]);
+      expect(await storage.getTaskLogs(task.id)).toEqual([]);
+      expect(await storage.getScreenshot(withScreenshot.screenshotId!)).toBeNull();
+    });
+
+    it("stores secrets per workspace", async () => {
+      const secret = { workspaceId, name: "password", ciphertext: "v1", createdAt: 1, updatedAt: 1 };
+      await storage.saveSecret(secret);
+      await storage.saveSecret({ ...secret, name: "api_key" });
+      await storage.saveSecret({ ...secret, ciphertext: "v2", updatedAt: 2 });
+
+      expect(await storage.getSecret(workspaceId, "password")).toEqual({ ...secret, ciphertext: "v2", updatedAt: 2 });
+      expect((await storage.listSecrets(workspaceId)).map((secret) => secret.name)).toEqual(["api_key", "password"]);
+      expect(await storage.getSecret(`${workspaceId}-other`, "password")).toBeUndefined();
+
+      expect(await storage.deleteSecret(workspaceId, "password")).toBe(true);
+      expect(await storage.deleteSecret(workspaceId, "password")).toBe(false);
+      await storage.deleteSecret(workspaceId, "api_key");
+    });
+
+    it("stores users and their API keys", async () => {
+      const user = { id: randomUUID(), username: `user-${randomUUID()}`, passwordHash: "hash", workspaceId, createdAt: 1 };
+      await storage.createUser(user);
+
+      await expect(storage.createUser({ ...user, id: randomUUID() })).rejects.toThrow(`Username ${user.username} is taken`);
+      expect(await storage.countUsers(workspaceId)).toBe(1);
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(user.username)).toEqual(user);
+
+      const key = { id: randomUUID(), userId: user.id, name: "CI", prefix: "bo_abc", keyHash: randomUUID(), createdAt: 2 };
+      const older = { ...key, id: randomUUID(), name: "Laptop", keyHash: randomUUID(), createdAt: 1 };
+      await storage.createApiKey(key);
+      await storage.createApiKey(older);
+
+      expect(await storage.getApiKeyByHash(key.keyHash)).toEqual(key);
+      expect(await storage.listApiKeys(user.id)).toEqual([older, key]);
+      expect(await storage.deleteApiKey(randomUUID(), key.id)).toBe(false);
+      expect(await storage.deleteApiKey(user.id, key.id)).toBe(true);
+      expect(await storage.listApiKeys(user.id)).toEqual([older]);
+    });
+  });
+}
+
+describeStorage("MemStorage", async () => ({
+  storage: new MemStorage(),
+  close: async () => {},
+}));
+
+describeStorage("DbStorage", async () => {
+  const db: Database = createDatabase(process.env.DATABASE_URL!);
+  const storage = new DbStorage(db, new ScreenshotStore({ blobs: new MemoryBlobStore() }));
+  await storage.migrate();
+  return { storage, close: () => db.$client.end() };
+}, { skip: !process.env.DATABASE_URL });
@@ -1,40 +1,124 @@
-import { type Task, type LogEntry } from "@shared/schema";
+import {
+  type Task,
+  type InsertTask,
+  type LogEntry,
+  type ReplayState,
+  type TaskRow,
+  type LogRow,
+  type ReplayActionRow,
+  type SecretRow,
+  type UserRow,
+  type ApiKeyRow,
+  ACTIVE_TASK_STATUSES,
+  DEFAULT_WORKSPACE_ID,
+  tasks as tasksTable,
+  logs as logsTable,
+  replayActions as replayActionsTable,
+  secrets as secretsTable,
+  users as usersTable,
+  apiKeys as apiKeysTable,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, inArray, isNotNull } from "drizzle-orm";
+import { createDatabase, runMigrations, type Database } from "./db";
+import { MemoryBlobStore, createBlobStore } from "./blob-store";
+import { ScreenshotStore, type Screenshot, type ScreenshotVariant } from "./screenshots";
+
+/**
+ * Move a screenshot out of log details into the screenshot store, leaving
+ * only its id on the log entry
+ */
+async function buildLogEntry(id: string, log: Omit<LogEntry, "id">, screenshots: ScreenshotStore): Promise<LogEntry> {
+  // Extract screenshot from details if present
+  let screenshotId: string | undefined = undefined;
+  if (log.details && typeof log.details === 'object' && 'screenshot' in log.details) {
+    const screenshot = (log.details as any).screenshot;
+    if (typeof screenshot === "string") {
+      screenshotId = await screenshots.save(screenshot) ?? undefined;
+    }
+  }
+
+  return {
+    ...log,
+    id,
+    screenshotId,
+    details: log.details && typeof log.details === 'object' && 'screenshot' in log.details
+      ? Object.fromEntries(Object.entries(log.details as any).filter(([k]) => k !== 'screenshot'))
+      : log.details,
+  };
+}
 
 export interface IStorage {
-  createTask(prompt: string): Promise<Task>;
+  createTask(insertTask: InsertTask): Promise<Task>;
   getTask(id: string): Promise<Task | undefined>;
   updateTask(id: string, updates: Partial<Task>): Promise<Task | undefined>;
-  getAllTasks(): Promise<Task[]>;
-  getCurrentTask(): Promise<Task | null>;
+  /** Newest first; all workspaces unless one is given */
+  getAllTasks(workspaceId?: string): Promise<Task[]>;
+  /** Most recently created task that is still running */
+  getCurrentTask(workspaceId?: string): Promise<Task | null>;
   
   addLog(log: Omit<LogEntry, "id">): Promise<LogEntry>;
   getTaskLogs(taskId: string): Promise<LogEntry[]>;
   deleteLogsForTask(taskId: string): Promise<void>;
-  clearAllTasks(): Promise<void>;
-  clearAllLogs(): Promise<void>;
+  /** Delete tasks along with their logs, returning the ids that existed */
+  deleteTasks(ids: string[]): Promise<string[]>;
+
+  /** Screenshot referenced by a log entry's screenshotId */
+  getScreenshot(id: string, variant?: ScreenshotVariant): Promise<Screenshot | null>;
+  /** Workspace of the task whose log references a screenshot */
+  getScreenshotWorkspace(id: string): Promise<string | undefined>;
+
+  /** Encrypted secrets, managed through SecretVault */
+  getSecret(workspaceId: string, name: string): Promise<SecretRow | undefined>;
+  listSecrets(workspaceId: string): Promise<SecretRow[]>;
+  /** Insert or replace a secret */
+  saveSecret(secret: SecretRow): Promise<void>;
+  /** Returns false if there was no such secret */
+  deleteSecret(workspaceId: string, name: string): Promise<boolean>;
+
+  /** Users and their API keys, managed through Auth */
+  countUsers(workspaceId?: string): Promise<number>;
+  getUser(id: string): Promise<UserRow | undefined>;
+  getUserByUsername(username: string): Promise<UserRow | undefined>;
+  /** Throws if the username is taken */
+  createUser(user: UserRow): Promise<void>;
+  createApiKey(apiKey: ApiKeyRow): Promise<void>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | undefined>;
+  listApiKeys(userId: string): Promise<ApiKeyRow[]>;
+  /** Returns false if the user has no such key */
+  deleteApiKey(userId: string, id: string): Promise<boolean>;
 }
 
+// Key of a secret in MemStorage
+const secretKey = (workspaceId: string, name: string) => `${workspaceId}/${name}`;
+
 export class MemStorage implements IStorage {
   private tasks: Map<string, Task>;
   private logs: Map<string, LogEntry>;
-  private currentTaskId: string | null = null;
+  private screenshots: ScreenshotStore;
+  private secrets: Map<string, SecretRow>;
+  private users: Map<string, UserRow>;
+  private apiKeys: Map<string, ApiKeyRow>;
 
-  constructor() {
+  constructor(screenshots: ScreenshotStore = new ScreenshotStore({ blobs: new MemoryBlobStore() })) {
     this.tasks = new Map();
     this.logs = new Map();
+    this.secrets = new Map();
+    this.users = new Map();
+    this.apiKeys = new Map();
+    this.screenshots = screenshots;
   }
 
-  async createTask(prompt: string): Promise<Task> {
+  async createTask(insertTask: InsertTask): Promise<Task> {
     const id = randomUUID();
     const task: Task = {
+      ...insertTask,
+      workspaceId: insertTask.workspaceId ?? DEFAULT_WORKSPACE_ID,
       id,
-      prompt,
-      status: "running",
+      status: "queued",
       createdAt: Date.now(),
     };
     this.tasks.set(id, task);
-    this.currentTaskId = id;
     return task;
   }
 
@@ -48,70 +132,503 @@ export class MemStorage implements IStorage {
     
     const updated = { ...task, ...updates };
     this.tasks.set(id, updated);
-    
-    if (updated.status === "completed" || updated.status === "failed") {
-      this.currentTaskId = null;
-    }
-    
     return updated;
   }
 
-  async getAllTasks(): Promise<Task[]> {
-    return Array.from(this.tasks.values()).sort((a, b) => b.createdAt - a.createdAt);
+  async getAllTasks(workspaceId?: string): Promise<Task[]> {
+    return Array.from(this.tasks.values())
+      .filter((task) => !workspaceId || task.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt - a.createdAt);
   }
 
-  async getCurrentTask(): Promise<Task | null> {
-    if (!this.currentTaskId) return null;
-    return this.tasks.get(this.currentTaskId) || null;
+  async getCurrentTask(workspaceId?: string): Promise<Task | null> {
+    // Most recently created task that is still running (or paused on the user)
+    const running = (await this.getAllTasks(workspaceId)).find((task) => ACTIVE_TASK_STATUSES.includes(task.status));
+    return running || null;
   }
 
   async addLog(log: Omit<LogEntry, "id">): Promise<LogEntry> {
-    const id = randomUUID();
-    // Extract screenshot from details if present
-    let screenshot: string | undefined = undefined;
-    if (log.details && typeof log.details === 'object' && 'screenshot' in log.details) {
-      screenshot = (log.details as any).screenshot;
-    }
-    
-    const logEntry: LogEntry = { 
-      ...log, 
-      id,
-      screenshot,
-      details: log.details && typeof log.details === 'object' && 'screenshot' in log.details 
-        ? Object.fromEntries(Object.entries(log.details as any).filter(([k]) => k !== 'screenshot'))
-        : log.details,
-    };
-    this.logs.set(id, logEntry);
+    const logEntry = await buildLogEntry(randomUUID(), log, this.screenshots);
+    this.logs.set(logEntry.id, logEntry);
     return logEntry;
   }
 
   async getTaskLogs(taskId: string): Promise<LogEntry[]> {
     return Array.from(this.logs.values())
       .filter((log) => log.taskId === taskId)
-      .sort((a, b) => a.timestamp - b.timestamp);
+      .sort((a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : 1));
   }
 
   async deleteLogsForTask(taskId: string): Promise<void> {
     const logIdsToDelete: string[] = [];
+    const screenshotIds: string[] = [];
     // Use Array.from to avoid downlevelIteration requirement
     Array.from(this.logs.entries()).forEach(([logId, log]) => {
       if (log.taskId === taskId) {
         logIdsToDelete.push(logId);
+        if (log.screenshotId) screenshotIds.push(log.screenshotId);
       }
     });
     for (const logId of logIdsToDelete) {
       this.logs.delete(logId);
     }
+    await this.screenshots.delete(screenshotIds);
+  }
+
+  async deleteTasks(ids: string[]): Promise<string[]> {
+    const deleted = ids.filter((id) => this.tasks.delete(id));
+    for (const id of deleted) {
+      await this.deleteLogsForTask(id);
+    }
+    return deleted;
+  }
+
+  async getScreenshot(id: string, variant: ScreenshotVariant = "full"): Promise<Screenshot | null> {
+    return this.screenshots.load(id, variant);
+  }
+
+  async getScreenshotWorkspace(id: string): Promise<string | undefined> {
+    const log = Array.from(this.logs.values()).find((log) => log.screenshotId === id);
+    return log && this.tasks.get(log.taskId)?.workspaceId;
+  }
+
+  async getSecret(workspaceId: string, name: string): Promise<SecretRow | undefined> {
+    return this.secrets.get(secretKey(workspaceId, name));
+  }
+
+  async listSecrets(workspaceId: string): Promise<SecretRow[]> {
+    return Array.from(this.secrets.values())
+      .filter((secret) => secret.workspaceId === workspaceId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveSecret(secret: SecretRow): Promise<void> {
+    this.secrets.set(secretKey(secret.workspaceId, secret.name), secret);
+  }
+
+  async deleteSecret(workspaceId: string, name: string): Promise<boolean> {
+    return this.secrets.delete(secretKey(workspaceId, name));
+  }
+
+  async countUsers(workspaceId?: string): Promise<number> {
+    return Array.from(this.users.values()).filter((user) => !workspaceId || user.workspaceId === workspaceId).length;
+  }
+
+  async getUser(id: string): Promise<UserRow | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<UserRow | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(user: UserRow): Promise<void> {
+    if (await this.getUserByUsername(user.username)) {
+      throw new Error(`Username ${user.username} is taken`);
+    }
+    this.users.set(user.id, user);
+  }
+
+  async createApiKey(apiKey: ApiKeyRow): Promise<void> {
+    this.apiKeys.set(apiKey.id, apiKey);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | undefined> {
+    return Array.from(this.apiKeys.values()).find((apiKey) => apiKey.keyHash === keyHash);
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRow[]> {
+    return Array.from(this.apiKeys.values())
+      .filter((apiKey) => apiKey.userId === userId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    if (this.apiKeys.get(id)?.userId !== userId) return false;
+    return this.apiKeys.delete(id);
+  }
+}
+
+/**
+ * Postgres-backed storage. Replay actions live in their own table so that
+ * long recordings don't have to be rewritten as one JSON blob.
+ */
+export class DbStorage implements IStorage {
+  constructor(private db: Database, private screenshots: ScreenshotStore) {}
+
+  async migrate(): Promise<void> {
+    await runMigrations(this.db);
+    await this.backfillLogScreenshots();
+  }
+
+  /**
+   * Move screenshots that logs stored inline, before there was a screenshot
+   * store, into the store
+   */
+  private async backfillLogScreenshots(): Promise<void> {
+    let moved = 0;
+    for (;;) {
+      const rows = await this.db
+        .select({ id: logsTable.id, screenshot: logsTable.screenshot })
+        .from(logsTable)
+        .where(isNotNull(logsTable.screenshot))
+        .limit(100);
+      if (rows.length === 0) break;
+      for (const row of rows) {
+        const screenshotId = await this.screenshots.save(row.screenshot!);
+        await this.db.update(logsTable).set({ screenshot: null, screenshotId }).where(eq(logsTable.id, row.id));
+      }
+      moved += rows.length;
+    }
+    if (moved > 0) {
+      console.log(`[DB] Moved ${moved} log screenshot(s) to the screenshot store`);
+    }
+  }
+
+  private toTask(row: TaskRow, actions: ReplayActionRow[]): Task {
+    const task: Task = {
+      id: row.id,
+      workspaceId: row.workspaceId,
+      prompt: row.prompt,
+      status: row.status,
+      createdAt: row.createdAt,
+      completedAt: row.completedAt ?? undefined,
+      duration: row.duration ?? undefined,
+      result: row.result ?? undefined,
+      error: row.error ?? undefined,
+      llm: row.llm ?? undefined,
+      outputSchema: row.outputSchema ?? undefined,
+      extractions: row.extractions ?? undefined,
+      budget: row.budget ?? undefined,
+      usage: row.usage ?? undefined,
+      contextStrategy: row.contextStrategy ?? undefined,
+      policy: row.policy ?? undefined,
+      limitReached: row.limitReached ?? undefined,
+      toolPolicy: row.toolPolicy ?? undefined,
+      approvalRules: row.approvalRules ?? undefined,
+      mcpServers: row.mcpServers ?? undefined,
+      pendingApproval: row.pendingApproval ?? undefined,
+      pendingQuestion: row.pendingQuestion ?? undefined,
+    };
+
+    if (row.replaySessionId) {
+      task.replayState = {
+        sessionId: row.replaySessionId,
+        url: row.replayUrl ?? undefined,
+        pages: row.replayPages ?? undefined,
+        revision: row.replayRevision ?? undefined,
+        variables: row.replayVariables ?? undefined,
+        actions: actions
+          .sort((a, b) => a.position - b.position)
+          .map((action) => ({
+            function: action.function,
+            arguments: action.arguments,
+            checkpoint: action.checkpoint ?? undefined,
+            revision: action.revision ?? undefined,
+            server: action.server ?? undefined,
+          })),
+      };
+    }
+
+    return task;
+  }
+
+  private toLogEntry(row: LogRow): LogEntry {
+    return {
+      id: row.id,
+      taskId: row.taskId,
+      timestamp: row.timestamp,
+      level: row.level,
+      message: row.message,
+      details: row.details ?? undefined,
+      screenshotId: row.screenshotId ?? undefined,
+    };
+  }
+
+  private async loadTasks(rows: TaskRow[]): Promise<Task[]> {
+    const withReplay = rows.filter((row) => row.replaySessionId).map((row) => row.id);
+    const actions = withReplay.length > 0
+      ? await this.db.select().from(replayActionsTable).where(inArray(replayActionsTable.taskId, withReplay))
+      : [];
+    return rows.map((row) => this.toTask(row, actions.filter((action) => action.taskId === row.id)));
+  }
+
+  async createTask(insertTask: InsertTask): Promise<Task> {
+    const task: Task = {
+      ...insertTask,
+      workspaceId: insertTask.workspaceId ?? DEFAULT_WORKSPACE_ID,
+      id: randomUUID(),
+      status: "queued",
+      createdAt: Date.now(),
+    };
+    await this.db.insert(tasksTable).values({
+      id: task.id,
+      workspaceId: task.workspaceId,
+      prompt: task.prompt,
+      status: task.status,
+      createdAt: task.createdAt,
+      llm: task.llm ?? null,
+      outputSchema: task.outputSchema ?? null,
+      budget: task.budget ?? null,
+      contextStrategy: task.contextStrategy ?? null,
+      policy: task.policy ?? null,
+      toolPolicy: task.toolPolicy ?? null,
+      approvalRules: task.approvalRules ?? null,
+      mcpServers: task.mcpServers ?? null,
+    });
+    return task;
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    const rows = await this.db.select().from(tasksTable).where(eq(tasksTable.id, id));
+    if (rows.length === 0) return undefined;
+    const [task] = await this.loadTasks(rows);
+    return task;
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<Task | undefined> {
+    const { id: _id, replayState, ...fields } = updates;
+
+    const found = await this.db.transaction(async (tx) => {
+      const columns: Partial<typeof tasksTable.$inferInsert> = { ...fields };
+      // An explicit `pendingApproval: undefined` or `pendingQuestion: undefined` clears it
+      if ("pendingApproval" in updates) {
+        columns.pendingApproval = updates.pendingApproval ?? null;
+      }
+      if ("pendingQuestion" in updates) {
+        columns.pendingQuestion = updates.pendingQuestion ?? null;
+      }
+      // An explicit `replayState: undefined` clears the replay state
+      const hasReplayState = "replayState" in updates;
+      if (hasReplayState) {
+        columns.replaySessionId = replayState?.sessionId ?? null;
+        columns.replayUrl = replayState?.url ?? null;
+        columns.replayPages = replayState?.pages ?? null;
+        columns.replayRevision = replayState?.revision ?? null;
+        columns.replayVariables = replayState?.variables ?? null;
+      }
+
+      const updated = Object.keys(columns).length > 0
+        ? await tx.update(tasksTable).set(columns).where(eq(tasksTable.id, id)).returning({ id: tasksTable.id })
+        : await tx.select({ id: tasksTable.id }).from(tasksTable).where(eq(tasksTable.id, id));
+      if (updated.length === 0) return false;
+
+      if (hasReplayState) {
+        await this.replaceReplayActions(tx, id, replayState);
+      }
+      return true;
+    });
+
+    return found ? this.getTask(id) : undefined;
+  }
+
+  private async replaceReplayActions(
+    tx: Parameters<Parameters<Database["transaction"]>[0]>[0],
+    taskId: string,
+    replayState: ReplayState | undefined,
+  ): Promise<void> {
+    await tx.delete(replayActionsTable).where(eq(replayActionsTable.taskId, taskId));
+    if (!replayState || replayState.actions.length === 0) return;
+    await tx.insert(replayActionsTable).values(
+      replayState.actions.map((action, position) => ({
+        taskId,
+        position,
+        function: action.function,
+        arguments: action.arguments,
+        checkpoint: action.checkpoint ?? null,
+        revision: action.revision ?? null,
+        server: action.server ?? null,
+      })),
+    );
+  }
+
+  async getAllTasks(workspaceId?: string): Promise<Task[]> {
+    const rows = await this.db
+      .select()
+      .from(tasksTable)
+      .where(workspaceId ? eq(tasksTable.workspaceId, workspaceId) : undefined)
+      .orderBy(desc(tasksTable.createdAt));
+    return this.loadTasks(rows);
+  }
+
+  async getCurrentTask(workspaceId?: string): Promise<Task | null> {
+    const rows = await this.db
+      .select()
+      .from(tasksTable)
+      .where(and(
+        inArray(tasksTable.status, ACTIVE_TASK_STATUSES),
+        workspaceId ? eq(tasksTable.workspaceId, workspaceId) : undefined,
+      ))
+      .orderBy(desc(tasksTable.createdAt))
+      .limit(1);
+    if (rows.length === 0) return null;
+    const [task] = await this.loadTasks(rows);
+    return task;
+  }
+
+  async addLog(log: Omit<LogEntry, "id">): Promise<LogEntry> {
+    const logEntry = await buildLogEntry(randomUUID(), log, this.screenshots);
+    await this.db.insert(logsTable).values({
+      id: logEntry.id,
+      taskId: logEntry.taskId,
+      timestamp: logEntry.timestamp,
+      level: logEntry.level,
+      message: logEntry.message,
+      details: logEntry.details ?? null,
+      screenshotId: logEntry.screenshotId ?? null,
+    });
+    return logEntry;
+  }
+
+  async getTaskLogs(taskId: string): Promise<LogEntry[]> {
+    const rows = await this.db
+      .select()
+      .from(logsTable)
+      .where(eq(logsTable.taskId, taskId))
+      .orderBy(asc(logsTable.timestamp), asc(logsTable.id));
+    return rows.map((row) => this.toLogEntry(row));
+  }
+
+  async deleteLogsForTask(taskId: string): Promise<void> {
+    const deleted = await this.db
+      .delete(logsTable)
+      .where(eq(logsTable.taskId, taskId))
+      .returning({ screenshotId: logsTable.screenshotId });
+    await this.screenshots.delete(deleted.flatMap((row) => row.screenshotId ? [row.screenshotId] : []));
+  }
+
+  async deleteTasks(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    // Screenshot blobs aren't in the database, so look them up before the cascade
+    const withScreenshots = await this.db
+      .select({ taskId: logsTable.taskId, screenshotId: logsTable.screenshotId })
+      .from(logsTable)
+      .where(and(inArray(logsTable.taskId, ids), isNotNull(logsTable.screenshotId)));
+
+    // Logs and replay actions are removed by ON DELETE CASCADE
+    const deleted = await this.db
+      .delete(tasksTable)
+      .where(inArray(tasksTable.id, ids))
+      .returning({ id: tasksTable.id });
+    const deletedIds = deleted.map((row) => row.id);
+
+    await this.screenshots.delete(withScreenshots
+      .filter((row) => deletedIds.includes(row.taskId))
+      .map((row) => row.screenshotId!));
+    return deletedIds;
+  }
+
+  async getScreenshot(id: string, variant: ScreenshotVariant = "full"): Promise<Screenshot | null> {
+    return this.screenshots.load(id, variant);
+  }
+
+  async getScreenshotWorkspace(id: string): Promise<string | undefined> {
+    const [row] = await this.db
+      .select({ workspaceId: tasksTable.workspaceId })
+      .from(logsTable)
+      .innerJoin(tasksTable, eq(logsTable.taskId, tasksTable.id))
+      .where(eq(logsTable.screenshotId, id))
+      .limit(1);
+    return row?.workspaceId;
+  }
+
+  async getSecret(workspaceId: string, name: string): Promise<SecretRow | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(secretsTable)
+      .where(and(eq(secretsTable.workspaceId, workspaceId), eq(secretsTable.name, name)));
+    return row;
+  }
+
+  async listSecrets(workspaceId: string): Promise<SecretRow[]> {
+    return this.db
+      .select()
+      .from(secretsTable)
+      .where(eq(secretsTable.workspaceId, workspaceId))
+      .orderBy(asc(secretsTable.name));
+  }
+
+  async saveSecret(secret: SecretRow): Promise<void> {
+    await this.db
+      .insert(secretsTable)
+      .values(secret)
+      .onConflictDoUpdate({
+        target: [secretsTable.workspaceId, secretsTable.name],
+        set: { ciphertext: secret.ciphertext, updatedAt: secret.updatedAt },
+      });
+  }
+
+  async deleteSecret(workspaceId: string, name: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(secretsTable)
+      .where(and(eq(secretsTable.workspaceId, workspaceId), eq(secretsTable.name, name)))
+      .returning({ name: secretsTable.name });
+    return deleted.length > 0;
+  }
+
+  async countUsers(workspaceId?: string): Promise<number> {
+    const [row] = await this.db
+      .select({ count: count() })
+      .from(usersTable)
+      .where(workspaceId ? eq(usersTable.workspaceId, workspaceId) : undefined);
+    return row.count;
+  }
+
+  async getUser(id: string): Promise<UserRow | undefined> {
+    const [row] = await this.db.select().from(usersTable).where(eq(usersTable.id, id));
+    return row;
+  }
+
+  async getUserByUsername(username: string): Promise<UserRow | undefined> {
+    const [row] = await this.db.select().from(usersTable).where(eq(usersTable.username, username));
+    return row;
+  }
+
+  async createUser(user: UserRow): Promise<void> {
+    const inserted = await this.db
+      .insert(usersTable)
+      .values(user)
+      .onConflictDoNothing({ target: usersTable.username })
+      .returning({ id: usersTable.id });
+    if (inserted.length === 0) {
+      throw new Error(`Username ${user.username} is taken`);
+    }
   }
 
-  async clearAllTasks(): Promise<void> {
-    this.tasks.clear();
-    this.currentTaskId = null;
+  async createApiKey(apiKey: ApiKeyRow): Promise<void> {
+    await this.db.insert(apiKeysTable).values(apiKey);
   }
 
-  async clearAllLogs(): Promise<void> {
-    this.logs.clear();
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | undefined> {
+    const [row] = await this.db.select().from(apiKeysTable).where(eq(apiKeysTable.keyHash, keyHash));
+    return row;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRow[]> {
+    return this.db
+      .select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.userId, userId))
+      .orderBy(asc(apiKeysTable.createdAt));
+  }
+
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(apiKeysTable)
+      .where(and(eq(apiKeysTable.userId, userId), eq(apiKeysTable.id, id)))
+      .returning({ id: apiKeysTable.id });
+    return deleted.length > 0;
+  }
+}
+
+function createStorage(): IStorage {
+  const screenshots = new ScreenshotStore({ blobs: createBlobStore() });
+  if (process.env.DATABASE_URL) {
+    console.log("[Storage] DATABASE_URL set, using Postgres storage");
+    return new DbStorage(createDatabase(process.env.DATABASE_URL), screenshots);
   }
+  console.log("[Storage] DATABASE_URL not set, using in-memory storage");
+  return new MemStorage(screenshots);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
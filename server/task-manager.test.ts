@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Task } from "@shared/schema";
+import { McpConnectionPool } from "./mcp-pool";
+import { MemStorage } from "./storage";
+import { TaskManager } from "./task-manager";
+
+let storage: MemStorage;
+let taskManager: TaskManager;
+let updates: Task[];
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  storage = new MemStorage();
+  updates = [];
+  taskManager = new TaskManager({
+    storage,
+    mcpPool: new McpConnectionPool({ server: { url: "http://127.0.0.1:9/mcp" }, minIdle: 0 }),
+    onLog: () => {},
+    onTaskUpdate: (task) => updates.push(task),
+  });
+});
+
+afterEach(async () => {
+  await taskManager.close();
+  vi.restoreAllMocks();
+});
+
+describe("TaskManager.recoverInterrupted", () => {
+  it("fails tasks a previous process left unfinished and clears what they waited on", async () => {
+    const queued = await storage.createTask({ prompt: "Queued" });
+    const running = await storage.createTask({ prompt: "Running" });
+    await storage.updateTask(running.id, { status: "running" });
+    const approval = await storage.createTask({ prompt: "Buy it" });
+    await storage.updateTask(approval.id, {
+      status: "awaiting_approval",
+      pendingApproval: { id: "a1", function: "browserbase_stagehand_act", arguments: {}, reason: "Purchase", requestedAt: 0 },
+    });
+    const question = await storage.createTask({ prompt: "Ask me" });
+    await storage.updateTask(question.id, {
+      status: "awaiting_input",
+      pendingQuestion: { id: "q1", question: "Which size?", askedAt: 0 },
+    });
+    const done = await storage.createTask({ prompt: "Done" });
+    await storage.updateTask(done.id, { status: "completed" });
+
+    const recovered = await taskManager.recoverInterrupted();
+
+    expect(recovered.map((task) => task.id).sort()).toEqual([queued.id, running.id, approval.id, question.id].sort());
+    for (const task of recovered) {
+      expect(task).toMatchObject({ status: "failed", error: "Interrupted by server restart" });
+      expect(task.pendingApproval).toBeUndefined();
+      expect(task.pendingQuestion).toBeUndefined();
+      expect(task.completedAt).toBeDefined();
+    }
+    expect((await storage.getTask(done.id))?.status).toBe("completed");
+    expect(await storage.getCurrentTask()).toBeNull();
+    expect(updates).toHaveLength(4);
+  });
+});
+
+describe("TaskManager pauses", () => {
+  const cancelWhileLogging = () => {
+    const controller = new AbortController();
+    const addLog = storage.addLog.bind(storage);
+    vi.spyOn(storage, "addLog").mockImplementation(async (log) => {
+      controller.abort(new Error("Task cancelled by user"));
+      return addLog(log);
+    });
+    return controller.signal;
+  };
+
+  it("fails an approval request cancelled while its log is written", async () => {
+    const task = await storage.createTask({ prompt: "Buy it" });
+    await storage.updateTask(task.id, { status: "running" });
+    const requestApproval = taskManager["approvalRequester"](task.id, cancelWhileLogging());
+
+    await expect(
+      requestApproval({ function: "browserbase_stagehand_act", arguments: {}, reason: "Purchase" }),
+    ).rejects.toThrow("Task cancelled by user");
+
+    const stored = await storage.getTask(task.id);
+    expect(stored?.status).toBe("running");
+    expect(stored?.pendingApproval).toBeUndefined();
+  });
+
+  it("fails a question cancelled while its log is written", async () => {
+    const task = await storage.createTask({ prompt: "Ask me" });
+    await storage.updateTask(task.id, { status: "running" });
+    const userInput = taskManager["userInput"](task.id, cancelWhileLogging());
+
+    await expect(userInput.ask("Which size?")).rejects.toThrow("Task cancelled by user");
+
+    const stored = await storage.getTask(task.id);
+    expect(stored?.status).toBe("running");
+    expect(stored?.pendingQuestion).toBeUndefined();
+  });
+});
+
+describe("TaskManager MCP servers", () => {
+  afterEach(() => {
+    delete process.env.MCP_SERVERS;
+  });
+
+  it("rejects server names that only exist on Object.prototype", () => {
+    process.env.MCP_SERVERS = JSON.stringify({ files: { url: "http://127.0.0.1:9/mcp" } });
+
+    expect(() => taskManager["getServerPools"](["constructor"])).toThrow("Unknown MCP server: constructor");
+  });
+});
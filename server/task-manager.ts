@@ -0,0 +1,692 @@
+import { randomUUID } from "crypto";
+import { DEFAULT_WORKSPACE_ID } from "@shared/schema";
+import type {
+  ApprovalRules,
+  LlmSelection,
+  LogEntry,
+  LogLevel,
+  PendingApproval,
+  PendingQuestion,
+  QueueSnapshot,
+  ReplayDivergenceMode,
+  ReplayState,
+  Task,
+  TaskBudget,
+  TaskUsage,
+  ContextStrategy,
+  ExecutionPolicy,
+  TaskLimit,
+  ToolPolicy,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { McpClient, type McpToolClient } from "./mcp-client";
+import { McpFederation } from "./mcp-federation";
+import { Orchestrator } from "./orchestrator";
+import { createLlmProvider, resolveLlmSelection } from "./llm-provider";
+import { Replayer } from "./replay";
+import { TaskQueue } from "./task-queue";
+import { findTemplateVariables } from "@shared/templates";
+import { compileOutputSchema } from "./extractions";
+import { UsageTracker } from "./usage";
+import { ToolGuard, getServerToolPolicy } from "./tool-policy";
+import type { ApprovalDecision, ApprovalRequest } from "./approvals";
+import { findSecretNames, type SecretVault } from "./secrets";
+import { getMcpServerConfig, getMcpServerProfiles } from "./mcp-transport";
+import { McpConnectionPool, getMcpPoolMinIdle } from "./mcp-pool";
+import { isFinished } from "./retention";
+
+const DEFAULT_CONCURRENCY = 2;
+
+export interface TaskManagerConfig {
+  storage: IStorage;
+  /** Maximum number of tasks running at once (default TASK_CONCURRENCY or 2) */
+  concurrency?: number;
+  onLog: (log: LogEntry) => void;
+  onTaskUpdate: (task: Task) => void;
+  /** Called when a task pauses for approval (the task update is sent as well) */
+  onApprovalRequest?: (taskId: string, approval: PendingApproval) => void;
+  /** Fills {{secret:name}} placeholders in tool calls; null when SECRETS_KEY is unset */
+  secrets?: SecretVault | null;
+  /** Connections tasks lease; by default one is created from the MCP_* env vars */
+  mcpPool?: McpConnectionPool;
+}
+
+export function getTaskConcurrency(): number {
+  const parsed = parseInt(process.env.TASK_CONCURRENCY || "", 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+}
+
+function createMcpClient(
+  pool: McpConnectionPool,
+  secrets: SecretVault | null,
+  workspaceId: string,
+  log: (level: LogLevel, message: string) => Promise<void>,
+  name?: string,
+): McpClient {
+  const label = name ? `MCP server ${name}` : "MCP server";
+  console.log(`[TaskManager] Using ${label}: ${pool.describe()}`);
+  return new McpClient({
+    pool,
+    revealSecret: secrets && !name ? (secretName) => secrets.reveal(workspaceId, secretName) : undefined,
+    onStderr: (line) => {
+      log("info", `${label}: ${line}`).catch((error) => console.error("[TaskManager] Failed to log MCP stderr:", error));
+    },
+  });
+}
+
+/**
+ * The browser server's client, federated with the attached servers' when
+ * there are any. Only the browser server gets to see secrets.
+ */
+function createToolClient(
+  pool: McpConnectionPool,
+  servers: Map<string, McpConnectionPool>,
+  secrets: SecretVault | null,
+  workspaceId: string,
+  log: (level: LogLevel, message: string) => Promise<void>,
+): McpToolClient {
+  const primary = createMcpClient(pool, secrets, workspaceId, log);
+  if (servers.size === 0) return primary;
+  return new McpFederation({
+    primary,
+    servers: Object.fromEntries(Array.from(servers, ([name, serverPool]) => [
+      name, createMcpClient(serverPool, secrets, workspaceId, log, name),
+    ])),
+  });
+}
+
+/**
+ * Owns the lifecycle of tasks and replays: each one is queued, gets its own
+ * McpClient + Orchestrator/Replayer when it starts, and is cancellable by id
+ * through an AbortSignal that aborts its in-flight LLM and MCP calls.
+ */
+export class TaskManager {
+  private storage: IStorage;
+  private queue: TaskQueue;
+  private onLog: TaskManagerConfig["onLog"];
+  private onTaskUpdate: TaskManagerConfig["onTaskUpdate"];
+  private onApprovalRequest?: TaskManagerConfig["onApprovalRequest"];
+  private secrets: SecretVault | null;
+  private mcpPool: McpConnectionPool | null;
+  /** Pools of the MCP_SERVERS servers tasks have attached, by name */
+  private serverPools = new Map<string, McpConnectionPool>();
+  /** Decision callbacks of tasks paused for approval, by task id */
+  private approvals = new Map<string, { approvalId: string; decide: (decision: ApprovalDecision) => void }>();
+  /** Undelivered user messages and the open ask_user question of running tasks, by task id */
+  private conversations = new Map<string, { messages: string[]; question?: (answer: string) => void }>();
+  /** Queued or running replay task ids by the task they replay */
+  private replays = new Map<string, Set<string>>();
+
+  constructor(config: TaskManagerConfig) {
+    this.storage = config.storage;
+    this.queue = new TaskQueue(config.concurrency ?? getTaskConcurrency());
+    this.onLog = config.onLog;
+    this.onTaskUpdate = config.onTaskUpdate;
+    this.onApprovalRequest = config.onApprovalRequest;
+    this.secrets = config.secrets ?? null;
+    this.mcpPool = config.mcpPool ?? null;
+  }
+
+  /**
+   * The shared MCP connection pool, created from the environment on first
+   * use. Throws while the MCP_* settings are invalid.
+   */
+  private getMcpPool(): McpConnectionPool {
+    if (!this.mcpPool) {
+      this.mcpPool = new McpConnectionPool({ server: getMcpServerConfig(), minIdle: getMcpPoolMinIdle() });
+      this.mcpPool.start();
+    }
+    return this.mcpPool;
+  }
+
+  /**
+   * Pools of the named MCP_SERVERS servers, each created on first use.
+   * Throws for a name that isn't configured or while MCP_SERVERS is invalid.
+   */
+  private getServerPools(names: string[]): Map<string, McpConnectionPool> {
+    const pools = new Map<string, McpConnectionPool>();
+    if (names.length === 0) return pools;
+    const profiles = getMcpServerProfiles();
+    const unknown = names.filter((name) => !Object.hasOwn(profiles, name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown MCP server${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`);
+    }
+    for (const name of names) {
+      let pool = this.serverPools.get(name);
+      if (!pool) {
+        pool = new McpConnectionPool({ server: profiles[name], minIdle: getMcpPoolMinIdle() });
+        pool.start();
+        this.serverPools.set(name, pool);
+      }
+      pools.set(name, pool);
+    }
+    return pools;
+  }
+
+  /**
+   * Open the warm MCP connections now rather than on the first task
+   */
+  warmUp(): void {
+    try {
+      this.getMcpPool().start();
+    } catch (error) {
+      console.error("[TaskManager] Not warming MCP connections:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Fail the tasks a previous process left queued, running or paused on the
+   * user. They aren't in this process's queue, so nothing would ever finish,
+   * cancel or answer them. Call once on startup; returns the failed tasks.
+   */
+  async recoverInterrupted(): Promise<Task[]> {
+    const interrupted = (await this.storage.getAllTasks())
+      .filter((task) => !isFinished(task) && !this.queue.has(task.id));
+    const recovered: Task[] = [];
+    for (const task of interrupted) {
+      const updated = await this.markFinished(task, {
+        status: "failed",
+        error: "Interrupted by server restart",
+        pendingApproval: undefined,
+        pendingQuestion: undefined,
+      });
+      if (updated) recovered.push(updated);
+    }
+    if (recovered.length > 0) {
+      console.log(`[TaskManager] Marked ${recovered.length} interrupted task(s) as failed`);
+    }
+    return recovered;
+  }
+
+  /**
+   * Close the pooled MCP connections
+   */
+  async close(): Promise<void> {
+    await Promise.all([this.mcpPool, ...Array.from(this.serverPools.values())].map((pool) => pool?.close()));
+  }
+
+  getQueue(): QueueSnapshot {
+    return this.queue.snapshot();
+  }
+
+  private taskLogger(taskId: string) {
+    return async (level: LogLevel, message: string, details?: any) => {
+      const log = await this.storage.addLog({
+        taskId,
+        timestamp: Date.now(),
+        level,
+        message,
+        details,
+      });
+      this.onLog(log);
+    };
+  }
+
+  private async updateTask(taskId: string, updates: Partial<Task>): Promise<Task | undefined> {
+    const updatedTask = await this.storage.updateTask(taskId, updates);
+    if (updatedTask) {
+      this.onTaskUpdate(updatedTask);
+    }
+    return updatedTask;
+  }
+
+  /**
+   * Save running token/cost totals so clients see them while the task runs
+   */
+  private usageReporter(taskId: string) {
+    return async (usage: TaskUsage) => {
+      await this.updateTask(taskId, { usage });
+    };
+  }
+
+  /**
+   * Pause a task on a tool call until approve/reject is called or the task is
+   * cancelled. The current screenshot goes into the waiting log entry, whose
+   * screenshot id the approval request refers to.
+   */
+  private approvalRequester(taskId: string, signal: AbortSignal) {
+    return async (request: ApprovalRequest): Promise<ApprovalDecision> => {
+      const approvalId = randomUUID();
+      // Listening before the first await, so a cancel while the log is written isn't missed
+      const decision = new Promise<ApprovalDecision>((resolve, reject) => {
+        this.approvals.set(taskId, { approvalId, decide: resolve });
+        if (signal.aborted) return reject(signal.reason);
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+      });
+      // Awaited below; an early cancel isn't an unhandled rejection meanwhile
+      decision.catch(() => {});
+
+      try {
+        const log = await this.storage.addLog({
+          taskId,
+          timestamp: Date.now(),
+          level: "warning",
+          message: `Waiting for approval: ${request.reason}`,
+          details: request.screenshot ? { screenshot: request.screenshot } : undefined,
+        });
+        this.onLog(log);
+        signal.throwIfAborted();
+
+        const approval: PendingApproval = {
+          id: approvalId,
+          function: request.function,
+          arguments: request.arguments,
+          reason: request.reason,
+          screenshotId: log.screenshotId,
+          requestedAt: Date.now(),
+        };
+        await this.updateTask(taskId, { status: "awaiting_approval", pendingApproval: approval });
+        this.onApprovalRequest?.(taskId, approval);
+        return await decision;
+      } finally {
+        this.approvals.delete(taskId);
+        await this.updateTask(taskId, { status: "running", pendingApproval: undefined });
+      }
+    };
+  }
+
+  /**
+   * Hand the orchestrator the messages users post to a running task, and
+   * pause the task in awaiting_input while the model waits on an answer
+   */
+  private userInput(taskId: string, signal: AbortSignal) {
+    const conversation: { messages: string[]; question?: (answer: string) => void } = { messages: [] };
+    this.conversations.set(taskId, conversation);
+    const log = this.taskLogger(taskId);
+
+    return {
+      takeMessages: () => conversation.messages.splice(0),
+      ask: async (question: string): Promise<string> => {
+        // Listening before the first await, so a cancel while the log is written isn't missed
+        const answer = new Promise<string>((resolve, reject) => {
+          conversation.question = resolve;
+          if (signal.aborted) return reject(signal.reason);
+          signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        });
+        // Awaited below; an early cancel isn't an unhandled rejection meanwhile
+        answer.catch(() => {});
+
+        try {
+          await log("info", `Question for the user: ${question}`);
+          signal.throwIfAborted();
+          const pendingQuestion: PendingQuestion = { id: randomUUID(), question, askedAt: Date.now() };
+          await this.updateTask(taskId, { status: "awaiting_input", pendingQuestion });
+          return await answer;
+        } finally {
+          conversation.question = undefined;
+          await this.updateTask(taskId, { status: "running", pendingQuestion: undefined });
+        }
+      },
+    };
+  }
+
+  /**
+   * Send a message to a running task: the answer to its pending question if
+   * it asked one, otherwise guidance added before its next LLM call. Throws
+   * if the task isn't running.
+   */
+  async postMessage(taskId: string, content: string): Promise<"answer" | "message"> {
+    const conversation = this.conversations.get(taskId);
+    if (!conversation) {
+      throw new Error("Task is not running");
+    }
+    await this.taskLogger(taskId)("info", `User: ${content}`);
+    if (conversation.question) {
+      conversation.question(content);
+      return "answer";
+    }
+    conversation.messages.push(content);
+    return "message";
+  }
+
+  /**
+   * Resume a task paused for approval, running the call or telling the model
+   * it was rejected. Throws if the task isn't waiting or `approvalId` names
+   * an earlier request.
+   */
+  decideApproval(taskId: string, decision: ApprovalDecision & { approvalId?: string }): void {
+    const pending = this.approvals.get(taskId);
+    if (!pending) {
+      throw new Error("Task is not awaiting approval");
+    }
+    if (decision.approvalId && decision.approvalId !== pending.approvalId) {
+      throw new Error("Approval request is no longer pending");
+    }
+    pending.decide({ approved: decision.approved, reason: decision.reason });
+  }
+
+  private async markStarted(task: Task): Promise<void> {
+    await this.updateTask(task.id, { status: "running" });
+  }
+
+  private async markFinished(task: Task, updates: Partial<Task>): Promise<Task | undefined> {
+    return this.updateTask(task.id, {
+      completedAt: Date.now(),
+      duration: Date.now() - task.createdAt,
+      ...updates,
+    });
+  }
+
+  /**
+   * Fail fast on {{secret:name}} references that could never be filled in
+   */
+  private async checkSecrets(prompt: string, workspaceId: string): Promise<void> {
+    const names = findSecretNames(prompt);
+    if (names.length === 0) return;
+    if (!this.secrets) {
+      throw new Error("Secrets are not configured. Set SECRETS_KEY to use {{secret:name}} references.");
+    }
+    const missing: string[] = [];
+    for (const name of names) {
+      if (!(await this.secrets.has(workspaceId, name))) missing.push(name);
+    }
+    if (missing.length > 0) {
+      throw new Error(`Unknown secret${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+    }
+  }
+
+  /**
+   * Create and queue a new automation task. Throws if the requested LLM
+   * provider is not configured, the output schema is not a valid JSON Schema
+   * the budget has a cost cap but the model has no price, TOOL_POLICY or the
+   * MCP server env vars are invalid, an attached MCP server isn't in
+   * MCP_SERVERS, or the prompt references a secret that doesn't exist.
+   */
+  async execute(
+    prompt: string,
+    options: {
+      llm?: Partial<LlmSelection>;
+      outputSchema?: Record<string, any>;
+      budget?: TaskBudget;
+      contextStrategy?: ContextStrategy;
+      policy?: ExecutionPolicy;
+      toolPolicy?: ToolPolicy;
+      approvalRules?: ApprovalRules;
+      /** Names of MCP_SERVERS servers whose tools the task can use too */
+      mcpServers?: string[];
+      workspaceId?: string;
+    } = {},
+  ): Promise<Task> {
+    const llm = resolveLlmSelection(options.llm);
+    const llmProvider = createLlmProvider(llm.provider);
+    const { outputSchema, budget, contextStrategy, policy, toolPolicy, approvalRules } = options;
+    const workspaceId = options.workspaceId ?? DEFAULT_WORKSPACE_ID;
+    if (outputSchema) {
+      compileOutputSchema(outputSchema);
+    }
+    const usage = new UsageTracker({ model: llm.model, budget });
+    const toolGuard = new ToolGuard([getServerToolPolicy(), toolPolicy]);
+    const mcpPool = this.getMcpPool();
+    const mcpServers = options.mcpServers?.length ? Array.from(new Set(options.mcpServers)) : undefined;
+    const serverPools = this.getServerPools(mcpServers ?? []);
+    await this.checkSecrets(prompt, workspaceId);
+    const task = await this.storage.createTask({
+      workspaceId, prompt, llm, outputSchema, budget, contextStrategy, policy, toolPolicy, approvalRules, mcpServers,
+    });
+    const abort = new AbortController();
+
+    const position = this.queue.enqueue(task.id, {
+      cancel: () => abort.abort(new Error("Task cancelled by user")),
+      run: async () => {
+        await this.markStarted(task);
+        const orchestrator = new Orchestrator({
+          mcpClient: createToolClient(mcpPool, serverPools, this.secrets, workspaceId, this.taskLogger(task.id)),
+          llm: llmProvider,
+          model: llm.model,
+          onLog: this.taskLogger(task.id),
+          outputSchema,
+          usage,
+          onUsage: this.usageReporter(task.id),
+          contextStrategy,
+          policy,
+          signal: abort.signal,
+          toolGuard,
+          approvals: approvalRules
+            ? { rules: approvalRules, request: this.approvalRequester(task.id, abort.signal) }
+            : undefined,
+          userInput: this.userInput(task.id, abort.signal),
+        });
+
+        let result: { success: boolean; result?: any; error?: string; limitReached?: TaskLimit };
+        try {
+          result = await orchestrator.execute(prompt);
+          console.log(`[TaskManager] Task ${task.id} execute() returned:`, result);
+        } catch (error) {
+          console.error(`[TaskManager] Task ${task.id} execution error:`, error);
+          result = {
+            success: false,
+            error: error instanceof Error ? error.message : "Task execution failed",
+          };
+        }
+        this.conversations.delete(task.id);
+
+        // Get replay state AFTER execution completes (orchestrator still has it)
+        const replayState = orchestrator.getReplayState();
+        console.log(`[TaskManager] Task ${task.id} execution completed, replayState:`, replayState ? {
+          sessionId: replayState.sessionId,
+          url: replayState.url,
+          actionsCount: replayState.actions.length
+        } : "null");
+
+        // Update task status with replayState - CRITICAL: This must happen
+        const cancelled = abort.signal.aborted;
+        try {
+          if (result.success && !cancelled) {
+            await this.markFinished(task, {
+              status: "completed",
+              result: result.result,
+              extractions: orchestrator.getExtractions(),
+              usage: usage.getUsage(),
+              replayState: replayState || undefined,
+            });
+            console.log(`[TaskManager] ✅ Task ${task.id} updated to completed`);
+          } else {
+            await this.markFinished(task, {
+              status: "failed",
+              error: cancelled ? "Cancelled by user" : result.error || "Task execution failed",
+              limitReached: cancelled ? undefined : result.limitReached,
+              extractions: orchestrator.getExtractions(),
+              usage: usage.getUsage(),
+              replayState: replayState || undefined,
+            });
+            console.log(`[TaskManager] ❌ Task ${task.id} updated to failed`);
+          }
+        } catch (updateError) {
+          console.error(`[TaskManager] CRITICAL: Failed to update task ${task.id} status:`, updateError);
+        }
+      },
+    });
+
+    console.log(`[TaskManager] Task ${task.id} queued at position ${position}`);
+    return task;
+  }
+
+  /**
+   * Create and queue a deterministic replay of a task with recorded replay state.
+   * In "repair" and "heal" modes diverged steps are handed to the task's LLM, so
+   * this throws if that provider is not configured. Healed steps are written
+   * back to the original task's replay state as a new revision.
+   */
+  async replay(
+    original: Task,
+    options: { onDivergence?: ReplayDivergenceMode; variables?: Record<string, string> } = {},
+  ): Promise<Task> {
+    if (!original.replayState) {
+      throw new Error("No replay state available for this task");
+    }
+    const replayState = original.replayState;
+    const onDivergence = options.onDivergence ?? "continue";
+    const variables = options.variables ?? {};
+    const missing = findTemplateVariables(replayState).filter((name) => !(name in variables));
+    if (missing.length > 0) {
+      throw new Error(`Missing values for template variables: ${missing.join(", ")}`);
+    }
+    const usesLlm = onDivergence === "repair" || onDivergence === "heal";
+    const llm = usesLlm ? resolveLlmSelection(original.llm) : undefined;
+    const llmProvider = llm ? createLlmProvider(llm.provider) : undefined;
+    const { outputSchema, budget, toolPolicy, approvalRules } = original;
+    // Replays are held to the same guardrails as the recording
+    const toolGuard = new ToolGuard([getServerToolPolicy(), toolPolicy]);
+    const mcpPool = this.getMcpPool();
+    // Recorded calls go back to the servers they ran on
+    const mcpServers = Array.from(new Set([
+      ...(original.mcpServers ?? []),
+      ...replayState.actions.flatMap((action) => action.server ? [action.server] : []),
+    ]));
+    const serverPools = this.getServerPools(mcpServers);
+    // Repairs count against the original task's budget, per replay
+    const usage = llm ? new UsageTracker({ model: llm.model, budget }) : undefined;
+    const replayTask = await this.storage.createTask({
+      workspaceId: original.workspaceId,
+      prompt: `Replay: ${original.prompt}`,
+      llm,
+      outputSchema,
+      budget: usage ? budget : undefined,
+      toolPolicy,
+      approvalRules,
+      mcpServers: mcpServers.length > 0 ? mcpServers : undefined,
+    });
+    const abort = new AbortController();
+    const replays = this.replays.get(original.id) ?? new Set<string>();
+    replays.add(replayTask.id);
+    this.replays.set(original.id, replays);
+
+    this.queue.enqueue(replayTask.id, {
+      cancel: () => abort.abort(new Error("Replay cancelled by user")),
+      run: async () => {
+        await this.markStarted(replayTask);
+        const log = this.taskLogger(replayTask.id);
+        const mcpClient = createToolClient(mcpPool, serverPools, this.secrets, original.workspaceId, log);
+        const signal = abort.signal;
+        // Replayed steps and repairs need the same go-ahead as the recording did
+        const approvals = approvalRules
+          ? { rules: approvalRules, request: this.approvalRequester(replayTask.id, signal) }
+          : undefined;
+        let replayer: Replayer;
+        if (llm && llmProvider) {
+          const repairer = new Orchestrator({
+            mcpClient,
+            llm: llmProvider,
+            model: llm.model,
+            onLog: log,
+            usage,
+            onUsage: this.usageReporter(replayTask.id),
+            contextStrategy: original.contextStrategy,
+            signal,
+            toolGuard,
+            approvals,
+          });
+          replayer = new Replayer({
+            mcpClient,
+            onLog: log,
+            onDivergence,
+            variables,
+            outputSchema,
+            signal,
+            toolGuard,
+            approvals,
+            repairStep: (request) => repairer.repairStep({ ...request, goal: original.prompt }),
+          });
+        } else {
+          replayer = new Replayer({ mcpClient, onLog: log, onDivergence, variables, outputSchema, signal, toolGuard, approvals });
+        }
+
+        try {
+          const report = await replayer.run(replayState);
+          const revisedState = replayer.getRevisedState();
+          if (revisedState) {
+            await this.writeBackRevision(original.id, replayState, revisedState, log);
+          }
+          if (report.stoppedAt) {
+            await this.markFinished(replayTask, {
+              status: "failed",
+              result: report,
+              extractions: replayer.getExtractions(),
+              usage: usage?.getUsage(),
+              error: `Replay diverged at step ${report.stoppedAt}`,
+            });
+          } else {
+            await this.markFinished(replayTask, {
+              status: "completed",
+              result: report,
+              extractions: replayer.getExtractions(),
+              usage: usage?.getUsage(),
+            });
+          }
+        } catch (error) {
+          await log("error", `Replay failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+          await this.markFinished(replayTask, {
+            status: "failed",
+            usage: usage?.getUsage(),
+            error: error instanceof Error ? error.message : "Replay failed",
+          });
+        } finally {
+          this.forgetReplay(original.id, replayTask.id);
+        }
+      },
+    });
+
+    return replayTask;
+  }
+
+  private forgetReplay(originalId: string, replayTaskId: string): void {
+    const replays = this.replays.get(originalId);
+    replays?.delete(replayTaskId);
+    if (replays?.size === 0) {
+      this.replays.delete(originalId);
+    }
+  }
+
+  /**
+   * Cancel every queued or running replay of a task. Returns how many were
+   * cancelled.
+   */
+  async cancelReplays(taskId: string): Promise<number> {
+    let cancelled = 0;
+    for (const replayTaskId of Array.from(this.replays.get(taskId) ?? [])) {
+      if (await this.cancel(replayTaskId)) cancelled++;
+      // Queued replays never run, so nothing else forgets them
+      if (!this.queue.has(replayTaskId)) this.forgetReplay(taskId, replayTaskId);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Save healed replay actions onto the original task, unless its replay state
+   * changed (or was discarded) while the replay ran
+   */
+  private async writeBackRevision(
+    taskId: string,
+    replayed: ReplayState,
+    revised: ReplayState,
+    log: (level: LogLevel, message: string, details?: any) => Promise<void>,
+  ): Promise<void> {
+    const current = await this.storage.getTask(taskId);
+    if (!current?.replayState || (current.replayState.revision ?? 1) !== (replayed.revision ?? 1)) {
+      await log("warning", "Replay state changed during replay; healed actions were not saved");
+      return;
+    }
+    await this.updateTask(taskId, { replayState: revised });
+    await log("success", `Saved healed actions as replay revision ${revised.revision}`);
+  }
+
+  /**
+   * Cancel a queued or running task. Returns the updated task, or undefined
+   * if the task is not active.
+   */
+  async cancel(taskId: string): Promise<Task | undefined> {
+    const task = await this.storage.getTask(taskId);
+    if (!task) return undefined;
+
+    const state = this.queue.cancel(taskId);
+    if (state === "queued") {
+      // Never started, so nothing else will finish it
+      return this.markFinished(task, { status: "failed", error: "Cancelled by user" });
+    }
+    if (state === "running") {
+      // The running job records the final status once it stops
+      return task;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TaskQueue, type QueueJob } from "./task-queue";
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+// A job that runs until the test settles it, recording when it started
+function controlledJob(started: string[], taskId: string) {
+  let settle!: { resolve: () => void; reject: (error: Error) => void };
+  const cancel = vi.fn();
+  const job: QueueJob = {
+    run: () => new Promise<void>((resolve, reject) => {
+      started.push(taskId);
+      settle = { resolve, reject };
+    }),
+    cancel,
+  };
+  return {
+    job,
+    cancel,
+    finish: () => settle.resolve(),
+    fail: (error: Error) => settle.reject(error),
+  };
+}
+
+// Let the queue's run().finally() handlers start the next jobs
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("TaskQueue", () => {
+  it("rejects a concurrency that isn't a positive integer", () => {
+    expect(() => new TaskQueue(0)).toThrow("Task concurrency must be a positive integer, got 0");
+    expect(() => new TaskQueue(1.5)).toThrow("Task concurrency must be a positive integer, got 1.5");
+  });
+
+  it("runs at most `concurrency` tasks at a time", async () => {
+    const queue = new TaskQueue(2);
+    const started: string[] = [];
+    const jobs = ["a", "b", "c"].map((id) => controlledJob(started, id));
+
+    expect(queue.enqueue("a", jobs[0].job)).toBe(0);
+    expect(queue.enqueue("b", jobs[1].job)).toBe(0);
+    expect(queue.enqueue("c", jobs[2].job)).toBe(1);
+
+    expect(started).toEqual(["a", "b"]);
+    expect(queue.snapshot()).toMatchObject({
+      concurrency: 2,
+      running: [{ taskId: "a" }, { taskId: "b" }],
+      queued: [{ taskId: "c", position: 1 }],
+    });
+
+    jobs[1].finish();
+    await flush();
+
+    expect(started).toEqual(["a", "b", "c"]);
+    expect(queue.has("b")).toBe(false);
+    expect(queue.snapshot().running.map((job) => job.taskId)).toEqual(["a", "c"]);
+  });
+
+  it("starts queued tasks in the order they were enqueued", async () => {
+    const queue = new TaskQueue(1);
+    const started: string[] = [];
+    const ids = ["a", "b", "c", "d"];
+    const jobs = ids.map((id) => controlledJob(started, id));
+    ids.forEach((id, index) => queue.enqueue(id, jobs[index].job));
+
+    expect(queue.snapshot().queued.map((job) => job.taskId)).toEqual(["b", "c", "d"]);
+    for (const job of jobs) {
+      job.finish();
+      await flush();
+    }
+
+    expect(started).toEqual(["a", "b", "c", "d"]);
+    expect(queue.snapshot()).toEqual({ concurrency: 1, running: [], queued: [] });
+  });
+
+  it("drops a cancelled queued task without running it and asks a running one to stop", async () => {
+    const queue = new TaskQueue(1);
+    const started: string[] = [];
+    const running = controlledJob(started, "a");
+    const queued = controlledJob(started, "b");
+    const next = controlledJob(started, "c");
+    queue.enqueue("a", running.job);
+    queue.enqueue("b", queued.job);
+    queue.enqueue("c", next.job);
+
+    expect(queue.cancel("b")).toBe("queued");
+    expect(queue.has("b")).toBe(false);
+    expect(queue.snapshot().queued).toEqual([expect.objectContaining({ taskId: "c", position: 1 })]);
+    expect(queue.cancel("a")).toBe("running");
+    expect(running.cancel).toHaveBeenCalledTimes(1);
+    expect(queue.cancel("missing")).toBeNull();
+
+    running.finish();
+    await flush();
+
+    expect(started).toEqual(["a", "c"]);
+    expect(queued.cancel).not.toHaveBeenCalled();
+  });
+
+  it("keeps going after a task fails", async () => {
+    const queue = new TaskQueue(1);
+    const started: string[] = [];
+    const failing = controlledJob(started, "a");
+    const next = controlledJob(started, "b");
+    queue.enqueue("a", failing.job);
+    queue.enqueue("b", next.job);
+
+    failing.fail(new Error("Browser crashed"));
+    await flush();
+
+    expect(started).toEqual(["a", "b"]);
+    expect(console.error).toHaveBeenCalledWith("[Queue] Task a failed:", expect.any(Error));
+    expect(queue.snapshot().running.map((job) => job.taskId)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { QueueSnapshot } from "@shared/schema";
+
+export interface QueueJob {
+  /** Runs the task to completion. Errors are caught and logged by the queue. */
+  run: () => Promise<void>;
+  /** Asks a running job to stop */
+  cancel: () => void;
+}
+
+interface PendingJob extends QueueJob {
+  taskId: string;
+  enqueuedAt: number;
+}
+
+interface RunningJob extends PendingJob {
+  startedAt: number;
+}
+
+/**
+ * FIFO queue that runs at most `concurrency` tasks at a time
+ */
+export class TaskQueue {
+  private pending: PendingJob[] = [];
+  private running = new Map<string, RunningJob>();
+
+  constructor(private concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Task concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  /**
+   * Add a job to the queue. Returns its position (0 = started immediately).
+   */
+  enqueue(taskId: string, job: QueueJob): number {
+    this.pending.push({ ...job, taskId, enqueuedAt: Date.now() });
+    this.drain();
+    return this.pending.findIndex((pending) => pending.taskId === taskId) + 1;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are dropped without ever running; running jobs
+   * are asked to stop via their cancel hook.
+   */
+  cancel(taskId: string): "queued" | "running" | null {
+    const index = this.pending.findIndex((job) => job.taskId === taskId);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      return "queued";
+    }
+
+    const running = this.running.get(taskId);
+    if (running) {
+      running.cancel();
+      return "running";
+    }
+    return null;
+  }
+
+  has(taskId: string): boolean {
+    return this.running.has(taskId) || this.pending.some((job) => job.taskId === taskId);
+  }
+
+  snapshot(): QueueSnapshot {
+    return {
+      concurrency: this.concurrency,
+      running: Array.from(this.running.values()).map(({ taskId, enqueuedAt, startedAt }) => ({
+        taskId,
+        enqueuedAt,
+        startedAt,
+      })),
+      queued: this.pending.map(({ taskId, enqueuedAt }, index) => ({
+        taskId,
+        enqueuedAt,
+        position: index + 1,
+      })),
+    };
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      const running: RunningJob = { ...job, startedAt: Date.now() };
+      this.running.set(job.taskId, running);
+      console.log(`[Queue] Starting task ${job.taskId} (${this.running.size}/${this.concurrency} running, ${this.pending.length} queued)`);
+
+      job.run()
+        .catch((error) => {
+          console.error(`[Queue] Task ${job.taskId} failed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(job.taskId);
+          this.drain();
+        });
+    }
+  }
+}
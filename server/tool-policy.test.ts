@@ -0,0 +1,116 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { toolPolicySchema } from "@shared/schema";
+import { McpClient } from "./mcp-client";
+import { MockMcpServer } from "./mock-mcp-server";
+import { Orchestrator } from "./orchestrator";
+import { ScriptedLlmProvider } from "./llm-provider";
+import { ToolGuard, getServerToolPolicy } from "./tool-policy";
+
+const navigate = (url: string) => ({ function: "browserbase_stagehand_navigate", arguments: { url } });
+const act = (action: string) => ({ function: "browserbase_stagehand_act", arguments: { action } });
+
+describe("ToolGuard", () => {
+  it("applies allow and deny lists with wildcards, deny winning", () => {
+    const guard = new ToolGuard([{ allowTools: ["browserbase_stagehand_*"], denyTools: ["browserbase_stagehand_agent"] }]);
+
+    expect(guard.filterTools([
+      { name: "browserbase_stagehand_navigate" },
+      { name: "browserbase_stagehand_agent" },
+      { name: "browserbase_session_close" },
+    ])).toEqual([{ name: "browserbase_stagehand_navigate" }]);
+    expect(guard.check({ function: "browserbase_session_close", arguments: {} }))
+      .toBe("Tool browserbase_session_close is not allowed");
+  });
+
+  it("only navigates to allowed domains and their subdomains", () => {
+    const guard = new ToolGuard([{ allowedDomains: ["example.com"] }]);
+
+    expect(guard.check(navigate("https://example.com/path"))).toBeNull();
+    expect(guard.check(navigate("https://docs.Example.com"))).toBeNull();
+    expect(guard.check(navigate("https://notexample.com")))
+      .toBe("Navigation to notexample.com is not allowed. Allowed domains: example.com");
+    expect(guard.check(navigate("file:///etc/passwd")))
+      .toBe("Navigation to file:///etc/passwd is not allowed: only http and https URLs are");
+    expect(guard.check(navigate("example.com"))).toBe("Navigation to example.com is not allowed: not a valid URL");
+  });
+
+  it("blocks act instructions and observed elements matching a forbidden pattern", () => {
+    const guard = new ToolGuard([{ forbiddenActions: ["\\b(buy|purchase)\\b", "delete account"] }]);
+
+    expect(guard.check(act("Click the Buy now button"))).toBe('Action "Click the Buy now button" matches the forbidden pattern /\\b(buy|purchase)\\b/');
+    expect(guard.check({
+      function: "browserbase_stagehand_act",
+      arguments: { observation: { description: "Delete account button", selector: "#danger", method: "click" } },
+    })).toMatch(/forbidden pattern \/delete account\//);
+    expect(guard.check(act("Click the buyer guide link"))).toBeNull();
+  });
+
+  it("requires a call to pass every policy", () => {
+    const guard = new ToolGuard([{ allowedDomains: ["example.com", "example.org"] }, undefined, { allowedDomains: ["example.org"] }]);
+
+    expect(guard.check(navigate("https://example.org"))).toBeNull();
+    expect(guard.check(navigate("https://example.com"))).toMatch(/Allowed domains: example.org$/);
+  });
+
+  it("rejects invalid forbidden-action patterns", () => {
+    expect(toolPolicySchema.safeParse({ forbiddenActions: ["(unclosed"] }).success).toBe(false);
+  });
+});
+
+describe("getServerToolPolicy", () => {
+  afterEach(() => {
+    delete process.env.TOOL_POLICY;
+  });
+
+  it("reads TOOL_POLICY and fails closed when it is invalid", () => {
+    expect(getServerToolPolicy()).toBeUndefined();
+    process.env.TOOL_POLICY = JSON.stringify({ denyTools: ["browserbase_stagehand_agent"] });
+    expect(getServerToolPolicy()).toEqual({ denyTools: ["browserbase_stagehand_agent"] });
+    process.env.TOOL_POLICY = JSON.stringify({ allowedDomains: "example.com" });
+    expect(() => getServerToolPolicy()).toThrow("Invalid TOOL_POLICY: allowedDomains: Expected array, received string");
+  });
+});
+
+describe("Orchestrator tool policy", () => {
+  const server = new MockMcpServer({ pages: { "https://example.com": { title: "Example Domain" } } });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("returns violations to the model as tool errors without calling the tool", async () => {
+    const mcpClient = new McpClient({ url: server.url });
+    const callFunction = vi.spyOn(mcpClient, "callFunction");
+    const logs: string[] = [];
+    const llm = new ScriptedLlmProvider([
+      ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: "https://evil.test" }),
+      ScriptedLlmProvider.reply("Done"),
+    ]);
+    const orchestrator = new Orchestrator({
+      mcpClient,
+      llm,
+      model: "scripted",
+      onLog: async (_level, message) => {
+        logs.push(message);
+      },
+      toolGuard: new ToolGuard([{ allowedDomains: ["example.com"] }]),
+    });
+
+    const result = await orchestrator.execute("Open evil.test");
+
+    expect(result.success).toBe(true);
+    expect(callFunction.mock.calls.map(([call]) => call.function)).not.toContain("browserbase_stagehand_navigate");
+    expect(logs).toContain("Blocked navigate: Navigation to evil.test is not allowed. Allowed domains: example.com");
+    expect(llm.requests[1].messages).toContainEqual({
+      role: "tool",
+      toolCallId: "call_1",
+      content: "Error: Blocked by tool policy: Navigation to evil.test is not allowed. Allowed domains: example.com",
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { toolPolicySchema } from "@shared/schema";
+import type { McpFunctionCall, ToolPolicy } from "@shared/schema";
+
+/**
+ * Server-wide tool policy from the TOOL_POLICY env var (JSON, same shape as a
+ * task's `toolPolicy`). Throws when it is invalid rather than running tasks
+ * without the guardrails.
+ */
+export function getServerToolPolicy(): ToolPolicy | undefined {
+  if (!process.env.TOOL_POLICY) return undefined;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(process.env.TOOL_POLICY);
+  } catch (error) {
+    throw new Error(`Invalid TOOL_POLICY: ${error instanceof Error ? error.message : "not JSON"}`);
+  }
+  const parsed = toolPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid TOOL_POLICY: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Match a tool name against a pattern where "*" matches anything
+ */
+export function matchesName(pattern: string, name: string): boolean {
+  const regex = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+function isAllowedHost(host: string, domains: string[]): boolean {
+  return domains.some((domain) => {
+    const normalized = domain.toLowerCase().replace(/^\*?\./, "");
+    return host === normalized || host.endsWith(`.${normalized}`);
+  });
+}
+
+/**
+ * Text of an act call that forbidden-action patterns are matched against:
+ * the natural-language action and/or the observed element it acts on
+ */
+export function describeAct(args: Record<string, any>): string[] {
+  return [args.action, args.observation?.description, args.observation?.method]
+    .filter((text): text is string => typeof text === "string" && text.length > 0);
+}
+
+/**
+ * Checks tool calls against one or more tool policies (typically the server's
+ * and the task's); a call has to pass every one of them
+ */
+export class ToolGuard {
+  private policies: ToolPolicy[];
+
+  constructor(policies: Array<ToolPolicy | undefined>) {
+    this.policies = policies.filter((policy): policy is ToolPolicy => policy !== undefined);
+  }
+
+  isToolAllowed(name: string): boolean {
+    return this.policies.every((policy) => {
+      if (policy.denyTools?.some((pattern) => matchesName(pattern, name))) return false;
+      return !policy.allowTools || policy.allowTools.some((pattern) => matchesName(pattern, name));
+    });
+  }
+
+  /**
+   * Drop the tools the model may not call, so it is never offered them
+   */
+  filterTools<T extends { name: string }>(tools: T[]): T[] {
+    return tools.filter((tool) => this.isToolAllowed(tool.name));
+  }
+
+  /**
+   * Why a call is not allowed, or null if it may run
+   */
+  check(call: Pick<McpFunctionCall, "function" | "arguments">): string | null {
+    if (!this.isToolAllowed(call.function)) {
+      return `Tool ${call.function} is not allowed`;
+    }
+    const args = call.arguments ?? {};
+
+    if (call.function === "browserbase_stagehand_navigate") {
+      for (const policy of this.policies) {
+        if (!policy.allowedDomains) continue;
+        let url: URL;
+        try {
+          url = new URL(String(args.url));
+        } catch {
+          return `Navigation to ${args.url} is not allowed: not a valid URL`;
+        }
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          return `Navigation to ${args.url} is not allowed: only http and https URLs are`;
+        }
+        if (!isAllowedHost(url.hostname.toLowerCase(), policy.allowedDomains)) {
+          return `Navigation to ${url.hostname} is not allowed. Allowed domains: ${policy.allowedDomains.join(", ")}`;
+        }
+      }
+    }
+
+    if (call.function === "browserbase_stagehand_act") {
+      const texts = describeAct(args);
+      for (const policy of this.policies) {
+        const pattern = policy.forbiddenActions?.find((pattern) => texts.some((text) => new RegExp(pattern, "i").test(text)));
+        if (pattern) {
+          return `Action "${texts[0]}" matches the forbidden pattern /${pattern}/`;
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { LlmMessage } from "./llm-provider";
+import { UsageTracker, estimateImageTokens, findModelPrice } from "./usage";
+
+// 1280x720 PNG header (signature + IHDR), enough for the dimension lookup
+const SCREENSHOT = `data:image/png;base64,${Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+  Buffer.from("IHDR"),
+  Buffer.from([0, 0, 5, 0, 0, 0, 2, 208, 8, 6, 0, 0, 0]),
+]).toString("base64")}`;
+
+const withScreenshots = (count: number): LlmMessage[] => [
+  { role: "system", content: "You are a browser automation orchestrator." },
+  ...Array.from({ length: count }, (): LlmMessage => ({
+    role: "user",
+    content: [{ type: "image", url: SCREENSHOT }, { type: "text", text: "Current page" }],
+  })),
+];
+
+describe("findModelPrice", () => {
+  const prices = { "gpt-4o": { input: 2.5, output: 10 }, "gpt-4o-mini": { input: 0.15, output: 0.6 } };
+
+  it("matches dated model variants by the longest prefix", () => {
+    expect(findModelPrice("gpt-4o", prices)).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice("gpt-4o-2024-08-06", prices)).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice("gpt-4o-mini-2024-07-18", prices)).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPrice("llama3", prices)).toBeUndefined();
+  });
+});
+
+describe("estimateImageTokens", () => {
+  it("scales with PNG dimensions and falls back for unknown images", () => {
+    expect(estimateImageTokens(SCREENSHOT)).toBe(1229);
+    expect(estimateImageTokens("https://cdn.example.com/shot.jpg")).toBe(1000);
+  });
+});
+
+describe("UsageTracker", () => {
+  it("records per-call tokens, image tokens and cost", () => {
+    const tracker = new UsageTracker({ model: "gpt-4o", prices: { "gpt-4o": { input: 2.5, output: 10 } } });
+
+    tracker.record(withScreenshots(1), { promptTokens: 2000, completionTokens: 100 });
+    tracker.record(withScreenshots(2), { promptTokens: 3500, completionTokens: 50 });
+
+    const usage = tracker.getUsage();
+    expect(usage.calls).toEqual([
+      { call: 1, promptTokens: 2000, completionTokens: 100, imageTokens: 1229, costUsd: 0.006 },
+      { call: 2, promptTokens: 3500, completionTokens: 50, imageTokens: 2458, costUsd: 0.00925 },
+    ]);
+    expect(usage).toMatchObject({ promptTokens: 5500, completionTokens: 150, imageTokens: 3687 });
+    expect(usage.costUsd).toBeCloseTo(0.01525);
+  });
+
+  it("leaves cost unset for models without a price", () => {
+    const tracker = new UsageTracker({ model: "llama3", prices: {} });
+
+    tracker.record(withScreenshots(0), { promptTokens: 100, completionTokens: 10 });
+
+    expect(tracker.getUsage().costUsd).toBeUndefined();
+    expect(tracker.getUsage().calls[0].costUsd).toBeUndefined();
+  });
+
+  it("throws once the cost or token budget is exceeded", () => {
+    const prices = { "gpt-4o": { input: 2.5, output: 10 } };
+    const byCost = new UsageTracker({ model: "gpt-4o", prices, budget: { maxCostUsd: 0.01 } });
+    const byTokens = new UsageTracker({ model: "llama3", prices, budget: { maxTokens: 3000 } });
+
+    byCost.record([], { promptTokens: 2000, completionTokens: 100 });
+    expect(() => byCost.record([], { promptTokens: 2000, completionTokens: 100 }))
+      .toThrow("Budget exceeded: spent $0.0120 of the $0.01 budget after 2 LLM call(s)");
+    byTokens.record([], { promptTokens: 2000, completionTokens: 100 });
+    expect(() => byTokens.record([], { promptTokens: 2000, completionTokens: 100 }))
+      .toThrow("Budget exceeded: used 4200 of the 3000 token budget after 2 LLM call(s)");
+  });
+
+  it("refuses a cost budget for models without a price", () => {
+    expect(() => new UsageTracker({ model: "llama3", prices: {}, budget: { maxCostUsd: 1 } }))
+      .toThrow(/No price configured for model "llama3"/);
+  });
+});
@@ -0,0 +1,143 @@
+import type { LlmCallUsage, TaskBudget, TaskUsage } from "@shared/schema";
+import type { LlmMessage, LlmUsage } from "./llm-provider";
+import { PolicyLimitError } from "./policy";
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices; override or extend with LLM_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+};
+
+// Used when a screenshot's dimensions can't be read
+const DEFAULT_IMAGE_TOKENS = 1000;
+// Providers downscale large images, which caps their cost
+const MAX_IMAGE_TOKENS = 1600;
+
+/**
+ * Price table: built-in prices merged with the LLM_PRICES env var, a JSON
+ * object of model -> { input, output } in USD per million tokens
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICES) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICES) };
+  } catch (error) {
+    console.error("[Usage] Ignoring invalid LLM_PRICES:", error);
+    return DEFAULT_PRICES;
+  }
+}
+
+/**
+ * Price for a model, matching dated variants (gpt-4o-2024-08-06) by the
+ * longest known prefix
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice> = getModelPrices()): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Rough token cost of an image: about width * height / 750, which is how
+ * Anthropic bills images and close to OpenAI's tile-based count for screenshots
+ */
+export function estimateImageTokens(url: string): number {
+  const match = url.match(/^data:image\/png;base64,(.{0,32})/);
+  if (!match) return DEFAULT_IMAGE_TOKENS;
+  // PNG IHDR: width and height are big-endian uint32s at bytes 16 and 20
+  const header = Buffer.from(match[1], "base64");
+  if (header.length < 24) return DEFAULT_IMAGE_TOKENS;
+  const width = header.readUInt32BE(16);
+  const height = header.readUInt32BE(20);
+  return Math.min(MAX_IMAGE_TOKENS, Math.ceil((width * height) / 750));
+}
+
+function countImageTokens(messages: LlmMessage[]): number {
+  let tokens = 0;
+  for (const message of messages) {
+    if (message.role !== "user" || typeof message.content === "string") continue;
+    for (const part of message.content) {
+      if (part.type === "image") tokens += estimateImageTokens(part.url);
+    }
+  }
+  return tokens;
+}
+
+export interface UsageTrackerConfig {
+  model: string;
+  budget?: TaskBudget;
+  prices?: Record<string, ModelPrice>;
+}
+
+/**
+ * Adds up token usage and cost over a task's LLM calls and enforces its budget
+ */
+export class UsageTracker {
+  private price?: ModelPrice;
+  private budget: TaskBudget;
+  private usage: TaskUsage = { calls: [], promptTokens: 0, completionTokens: 0, imageTokens: 0 };
+
+  constructor(config: UsageTrackerConfig) {
+    this.price = findModelPrice(config.model, config.prices);
+    this.budget = config.budget ?? {};
+    if (this.budget.maxCostUsd !== undefined && !this.price) {
+      throw new Error(`No price configured for model "${config.model}", so a cost budget can't be enforced. Add it to LLM_PRICES or use maxTokens.`);
+    }
+    if (this.price) this.usage.costUsd = 0;
+  }
+
+  /**
+   * Record one LLM call. Throws once the task has gone over its budget.
+   */
+  record(messages: LlmMessage[], usage: LlmUsage | undefined): LlmCallUsage {
+    const call: LlmCallUsage = {
+      call: this.usage.calls.length + 1,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      imageTokens: countImageTokens(messages),
+    };
+    if (this.price) {
+      call.costUsd = (call.promptTokens * this.price.input + call.completionTokens * this.price.output) / 1_000_000;
+    }
+
+    this.usage.calls.push(call);
+    this.usage.promptTokens += call.promptTokens;
+    this.usage.completionTokens += call.completionTokens;
+    this.usage.imageTokens += call.imageTokens;
+    if (call.costUsd !== undefined) {
+      this.usage.costUsd = (this.usage.costUsd ?? 0) + call.costUsd;
+    }
+
+    this.checkBudget();
+    return call;
+  }
+
+  getUsage(): TaskUsage {
+    return this.usage;
+  }
+
+  private checkBudget(): void {
+    const { maxCostUsd, maxTokens } = this.budget;
+    const calls = this.usage.calls.length;
+    if (maxCostUsd !== undefined && (this.usage.costUsd ?? 0) > maxCostUsd) {
+      throw new PolicyLimitError("budget", `Budget exceeded: spent $${this.usage.costUsd!.toFixed(4)} of the $${maxCostUsd} budget after ${calls} LLM call(s)`);
+    }
+    const tokens = this.usage.promptTokens + this.usage.completionTokens;
+    if (maxTokens !== undefined && tokens > maxTokens) {
+      throw new PolicyLimitError("budget", `Budget exceeded: used ${tokens} of the ${maxTokens} token budget after ${calls} LLM call(s)`);
+    }
+  }
+}
@@ -1,8 +1,16 @@
 import { z } from "zod";
+import { pgTable, varchar, text, bigint, integer, serial, jsonb, index, primaryKey, uniqueIndex } from "drizzle-orm/pg-core";
 
-export const taskStatusSchema = z.enum(["idle", "running", "completed", "failed"]);
+export const taskStatusSchema = z.enum(["idle", "queued", "running", "awaiting_approval", "awaiting_input", "completed", "failed"]);
 export type TaskStatus = z.infer<typeof taskStatusSchema>;
 
+// A task that has started and not finished: running or paused on the user
+export const ACTIVE_TASK_STATUSES: TaskStatus[] = ["running", "awaiting_approval", "awaiting_input"];
+
+// Workspace of tasks and secrets created before there were users; the first
+// user to register with ADMIN_BOOTSTRAP_TOKEN joins it
+export const DEFAULT_WORKSPACE_ID = "default";
+
 export const logLevelSchema = z.enum(["info", "success", "error", "warning"]);
 export type LogLevel = z.infer<typeof logLevelSchema>;
 
@@ -13,23 +21,201 @@ export const logEntrySchema = z.object({
   level: logLevelSchema,
   message: z.string(),
   details: z.any().optional(),
-  screenshot: z.string().optional(),
+  screenshotId: z.string().optional(), // Served by GET /api/screenshots/:id
 });
 export type LogEntry = z.infer<typeof logEntrySchema>;
 
+// Page state observed right after an action ran, used to detect replay divergence
+export const replayCheckpointSchema = z.object({
+  url: z.string().optional(), // From browserbase_stagehand_get_url
+  screenshotHash: z.string().optional(), // sha256 of the post-action screenshot
+});
+export type ReplayCheckpoint = z.infer<typeof replayCheckpointSchema>;
+
+// Name of an MCP server from MCP_SERVERS; its tools are offered as <name>__<tool>
+export const mcpServerNameSchema = z.string().regex(/^[A-Za-z0-9-]{1,32}$/, "MCP server names may only contain letters, digits and -, up to 32 characters");
+
+export const replayActionSchema = z.object({
+  function: z.string(),
+  arguments: z.record(z.any()),
+  server: mcpServerNameSchema.optional(), // Attached MCP server the tool ran on; unset for the browser server
+  checkpoint: replayCheckpointSchema.optional(),
+  revision: z.number().optional(), // Set on actions written back by a healing replay
+});
+export type ReplayAction = z.infer<typeof replayActionSchema>;
+
 export const replayStateSchema = z.object({
   sessionId: z.string(),
   url: z.string().optional(), // First/initial URL (for backward compatibility)
   pages: z.array(z.string()).optional(), // All pages navigated to in order (deprecated, use actions)
-  actions: z.array(z.object({
-    function: z.string(),
-    arguments: z.record(z.any()),
-  })), // All function calls in exact execution order (navigate, act, extract, screenshot, etc.)
+  actions: z.array(replayActionSchema), // All function calls in exact execution order (navigate, act, extract, screenshot, etc.)
+  revision: z.number().optional(), // 1 when recorded, bumped each time actions are rewritten (healing, templating)
+  variables: z.record(z.string()).optional(), // Template {{variables}} and the values they were recorded with
 });
 export type ReplayState = z.infer<typeof replayStateSchema>;
 
+// What a replay does when a step lands somewhere other than its recorded checkpoint.
+// "heal" re-plans failed steps and writes the replacement back as a new revision.
+export const replayDivergenceModeSchema = z.enum(["continue", "stop", "repair", "heal"]);
+export type ReplayDivergenceMode = z.infer<typeof replayDivergenceModeSchema>;
+
+export const replayStepReportSchema = z.object({
+  step: z.number(), // 1-based index into replayState.actions
+  function: z.string(),
+  error: z.string().optional(),
+  url: z.object({ expected: z.string(), actual: z.string().nullable() }).optional(),
+  screenshot: z.object({ expected: z.string(), actual: z.string().nullable() }).optional(),
+  repaired: z.boolean().optional(),
+  healed: z.boolean().optional(), // Replaced by new actions in the task's replay state
+});
+export type ReplayStepReport = z.infer<typeof replayStepReportSchema>;
+
+// Stored as the result of a replay task
+export const replayReportSchema = z.object({
+  mode: replayDivergenceModeSchema,
+  steps: z.number(),
+  divergences: z.array(replayStepReportSchema),
+  stoppedAt: z.number().optional(), // Step the replay gave up on
+  revision: z.number().optional(), // Replay state revision written back after healing
+});
+export type ReplayReport = z.infer<typeof replayReportSchema>;
+
+// Data returned by a browserbase_stagehand_extract call
+export const extractionSchema = z.object({
+  step: z.number(), // 1-based index into replayState.actions
+  instruction: z.string().optional(),
+  data: z.any(), // Parsed JSON, or the raw text if the result wasn't JSON
+  valid: z.boolean().optional(), // Set when the task has an output schema
+  errors: z.array(z.string()).optional(), // JSON Schema validation errors
+});
+export type Extraction = z.infer<typeof extractionSchema>;
+
+export const llmProviderNameSchema = z.enum(["openai", "azure", "anthropic", "local"]);
+export type LlmProviderName = z.infer<typeof llmProviderNameSchema>;
+
+export const llmSelectionSchema = z.object({
+  provider: llmProviderNameSchema,
+  model: z.string().min(1),
+});
+export type LlmSelection = z.infer<typeof llmSelectionSchema>;
+
+// Token counts for one LLM call. Image tokens are estimated from the screenshots
+// sent and are already included in promptTokens.
+export const llmCallUsageSchema = z.object({
+  call: z.number(), // 1-based, in the order the calls were made
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  imageTokens: z.number(),
+  costUsd: z.number().optional(), // Unset when the model has no configured price
+});
+export type LlmCallUsage = z.infer<typeof llmCallUsageSchema>;
+
+export const taskUsageSchema = z.object({
+  calls: z.array(llmCallUsageSchema),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  imageTokens: z.number(),
+  costUsd: z.number().optional(),
+});
+export type TaskUsage = z.infer<typeof taskUsageSchema>;
+
+// Limits that abort a task's LLM loop once reached
+export const taskBudgetSchema = z.object({
+  maxCostUsd: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(), // Prompt + completion tokens
+});
+export type TaskBudget = z.infer<typeof taskBudgetSchema>;
+
+// How the orchestrator keeps long conversations small. "full" sends the whole
+// conversation every iteration; "prune" keeps only the newest screenshots and
+// tool results intact.
+export const contextStrategySchema = z.object({
+  mode: z.enum(["prune", "full"]).default("prune"),
+  keepScreenshots: z.number().int().min(0).default(3), // Older screenshots become text summaries
+  keepToolResults: z.number().int().min(0).default(10), // Older tool results are trimmed
+  maxToolResultLength: z.number().int().positive().default(500), // Characters kept of a trimmed result
+});
+export type ContextStrategy = z.infer<typeof contextStrategySchema>;
+
+// Limits the orchestrator enforces on a task's run; ends the task when one trips
+export const executionPolicySchema = z.object({
+  maxIterations: z.number().int().positive().max(200).default(20), // LLM round trips
+  maxDurationMs: z.number().int().positive().optional(), // Wall clock for the whole run
+  mcpCallTimeoutMs: z.number().int().positive().optional(), // Per MCP tool call (SDK default 60s)
+  maxConsecutiveFailures: z.number().int().positive().optional(), // Tool calls failing in a row
+  maxCompletionTokens: z.number().int().positive().default(4096), // Per LLM response
+});
+export type ExecutionPolicy = z.infer<typeof executionPolicySchema>;
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Guardrails on the tool calls a task's model may make; checked before every call
+export const toolPolicySchema = z.object({
+  allowTools: z.array(z.string().min(1)).optional(), // Tool names, "*" wildcards allowed; others are hidden and blocked
+  denyTools: z.array(z.string().min(1)).optional(), // Tool names, "*" wildcards allowed; wins over allowTools
+  allowedDomains: z.array(z.string().min(1)).optional(), // navigate only to these hosts and their subdomains
+  forbiddenActions: z.array(z.string().refine(isValidPattern, "Invalid regular expression")).optional(), // Case-insensitive regexes on act instructions
+});
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
+// Tool calls that pause the task until a user approves or rejects them.
+// Built-in rules are on by default, so `{}` enables approvals for all three.
+export const approvalRulesSchema = z.object({
+  formSubmissions: z.boolean().default(true), // act instructions that submit, send, sign up or log in
+  purchases: z.boolean().default(true), // act instructions that buy, check out or pay
+  offDomain: z.boolean().default(true), // navigating away from the first page's domain
+  actionPatterns: z.array(z.string().refine(isValidPattern, "Invalid regular expression")).default([]), // Extra case-insensitive regexes on act instructions
+  tools: z.array(z.string().min(1)).default([]), // Tool names ("*" wildcards) that always need approval
+});
+export type ApprovalRules = z.infer<typeof approvalRulesSchema>;
+
+// A tool call waiting on a user's decision
+export const pendingApprovalSchema = z.object({
+  id: z.string(),
+  function: z.string(),
+  arguments: z.record(z.any()),
+  reason: z.string(),
+  screenshotId: z.string().optional(), // The page when the call was proposed
+  requestedAt: z.number(),
+});
+export type PendingApproval = z.infer<typeof pendingApprovalSchema>;
+
+// Body of POST /api/tasks/:id/approve and /reject
+export const approvalDecisionSchema = z.object({
+  approvalId: z.string().optional(), // Guards against deciding on a request that has since changed
+  reason: z.string().optional(), // Told to the model on reject
+});
+export type ApprovalDecisionRequest = z.infer<typeof approvalDecisionSchema>;
+
+// A question the model asked the user with the ask_user tool
+export const pendingQuestionSchema = z.object({
+  id: z.string(),
+  question: z.string(),
+  askedAt: z.number(),
+});
+export type PendingQuestion = z.infer<typeof pendingQuestionSchema>;
+
+// Body of POST /api/tasks/:id/messages: guidance for a running task, or the
+// answer to its pending question
+export const taskMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message is required").max(2000),
+});
+export type TaskMessageRequest = z.infer<typeof taskMessageSchema>;
+
+// Which limit ended a task: an execution policy limit or its budget
+export const taskLimitSchema = z.enum(["maxIterations", "maxDurationMs", "mcpCallTimeoutMs", "maxConsecutiveFailures", "budget"]);
+export type TaskLimit = z.infer<typeof taskLimitSchema>;
+
 export const taskSchema = z.object({
   id: z.string(),
+  workspaceId: z.string(), // Only users of this workspace can see or control the task
   prompt: z.string(),
   status: taskStatusSchema,
   createdAt: z.number(),
@@ -38,18 +224,252 @@ export const taskSchema = z.object({
   result: z.any().optional(),
   error: z.string().optional(),
   replayState: replayStateSchema.optional(),
+  llm: llmSelectionSchema.optional(),
+  outputSchema: z.record(z.any()).optional(), // JSON Schema each extraction is validated against
+  extractions: z.array(extractionSchema).optional(),
+  budget: taskBudgetSchema.optional(),
+  usage: taskUsageSchema.optional(),
+  contextStrategy: contextStrategySchema.optional(),
+  policy: executionPolicySchema.optional(),
+  limitReached: taskLimitSchema.optional(),
+  toolPolicy: toolPolicySchema.optional(),
+  approvalRules: approvalRulesSchema.optional(),
+  mcpServers: z.array(mcpServerNameSchema).optional(), // MCP servers attached next to the browser server
+  pendingApproval: pendingApprovalSchema.optional(),
+  pendingQuestion: pendingQuestionSchema.optional(),
 });
 export type Task = z.infer<typeof taskSchema>;
 
 export const insertTaskSchema = taskSchema.pick({
   prompt: true,
+  llm: true,
+  outputSchema: true,
+  budget: true,
+  contextStrategy: true,
+  policy: true,
+  toolPolicy: true,
+  approvalRules: true,
+  mcpServers: true,
+}).extend({
+  workspaceId: z.string().optional(), // Defaults to DEFAULT_WORKSPACE_ID
 });
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 
+// Body of POST /api/tasks/execute; missing provider/model fall back to env defaults
+export const executeTaskSchema = z.object({
+  prompt: z.string().min(1),
+  llm: llmSelectionSchema.partial().optional(),
+  outputSchema: z.record(z.any()).optional(),
+  budget: taskBudgetSchema.optional(),
+  contextStrategy: contextStrategySchema.optional(),
+  policy: executionPolicySchema.optional(),
+  toolPolicy: toolPolicySchema.optional(),
+  approvalRules: approvalRulesSchema.optional(),
+  mcpServers: z.array(mcpServerNameSchema).max(10).optional(),
+});
+export type ExecuteTaskRequest = z.infer<typeof executeTaskSchema>;
+
+const templateVariableNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_-]*$/, "Variable names may only contain letters, digits, _ and -");
+
+// Body of POST /api/tasks/:id/replay; variables fill {{placeholders}} in templated actions
+export const replayTaskSchema = z.object({
+  onDivergence: replayDivergenceModeSchema.default("continue"),
+  variables: z.record(templateVariableNameSchema, z.string()).default({}),
+});
+export type ReplayTaskRequest = z.infer<typeof replayTaskSchema>;
+
+// Body of POST /api/tasks/:id/template: variable name -> recorded literal it replaces
+export const templateTaskSchema = z.object({
+  variables: z.record(templateVariableNameSchema, z.string().min(1)).refine(
+    (variables) => Object.keys(variables).length > 0,
+    "At least one variable is required",
+  ),
+});
+export type TemplateTaskRequest = z.infer<typeof templateTaskSchema>;
+
+// A signed-in user (or the owner of an API key). Password hashes stay server-side.
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  workspaceId: z.string(),
+  createdAt: z.number(),
+});
+export type User = z.infer<typeof userSchema>;
+
+// Body of POST /api/auth/login and /api/auth/users
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50)
+    .regex(/^[A-Za-z0-9_.@-]+$/, "Usernames may only contain letters, digits and _ . @ -"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+// Body of POST /api/auth/register; the bootstrap token claims the default workspace
+export const registrationSchema = credentialsSchema.extend({
+  bootstrapToken: z.string().optional(),
+});
+export type Registration = z.infer<typeof registrationSchema>;
+
+// API key metadata; the key itself is only shown once, when it is created
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(), // First characters of the key, to tell keys apart
+  createdAt: z.number(),
+});
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+// Body of POST /api/auth/api-keys
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+
+// Secrets are referenced as {{secret:name}} in prompts and filled in only when
+// a tool is called; their values are never returned by the API
+export const secretNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_-]*$/, "Secret names may only contain letters, digits, _ and -").max(100);
+
+export const secretSchema = z.object({
+  name: secretNameSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+export type Secret = z.infer<typeof secretSchema>;
+
+// Body of POST /api/secrets
+export const createSecretSchema = z.object({
+  name: secretNameSchema,
+  value: z.string().min(1, "Value is required").max(10000),
+});
+export type CreateSecretRequest = z.infer<typeof createSecretSchema>;
+
+// Body of PUT /api/secrets/:name
+export const updateSecretSchema = createSecretSchema.pick({ value: true });
+export type UpdateSecretRequest = z.infer<typeof updateSecretSchema>;
+
+export const queueSnapshotSchema = z.object({
+  concurrency: z.number(),
+  running: z.array(z.object({
+    taskId: z.string(),
+    enqueuedAt: z.number(),
+    startedAt: z.number(),
+  })),
+  queued: z.array(z.object({
+    taskId: z.string(),
+    enqueuedAt: z.number(),
+    position: z.number(),
+  })),
+});
+export type QueueSnapshot = z.infer<typeof queueSnapshotSchema>;
+
 export const mcpFunctionCallSchema = z.object({
   function: z.string(),
   arguments: z.record(z.any()),
+  server: mcpServerNameSchema.optional(), // Attached server to call; otherwise taken from the tool name
   result: z.any().optional(),
   error: z.string().optional(),
 });
 export type McpFunctionCall = z.infer<typeof mcpFunctionCallSchema>;
+
+// Database tables (used by DbStorage when DATABASE_URL is set)
+
+export const tasks = pgTable("tasks", {
+  id: varchar("id").primaryKey(),
+  workspaceId: varchar("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  prompt: text("prompt").notNull(),
+  status: text("status").$type<TaskStatus>().notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  completedAt: bigint("completed_at", { mode: "number" }),
+  duration: integer("duration"),
+  result: jsonb("result"),
+  error: text("error"),
+  // Replay state is split between these columns and the replay_actions table
+  replaySessionId: text("replay_session_id"),
+  replayUrl: text("replay_url"),
+  replayPages: jsonb("replay_pages").$type<string[]>(),
+  replayRevision: integer("replay_revision"),
+  replayVariables: jsonb("replay_variables").$type<Record<string, string>>(),
+  llm: jsonb("llm").$type<LlmSelection>(),
+  outputSchema: jsonb("output_schema").$type<Record<string, any>>(),
+  extractions: jsonb("extractions").$type<Extraction[]>(),
+  budget: jsonb("budget").$type<TaskBudget>(),
+  usage: jsonb("usage").$type<TaskUsage>(),
+  contextStrategy: jsonb("context_strategy").$type<ContextStrategy>(),
+  policy: jsonb("policy").$type<ExecutionPolicy>(),
+  limitReached: text("limit_reached").$type<TaskLimit>(),
+  toolPolicy: jsonb("tool_policy").$type<ToolPolicy>(),
+  approvalRules: jsonb("approval_rules").$type<ApprovalRules>(),
+  mcpServers: jsonb("mcp_servers").$type<string[]>(),
+  pendingApproval: jsonb("pending_approval").$type<PendingApproval>(),
+  pendingQuestion: jsonb("pending_question").$type<PendingQuestion>(),
+}, (table) => [
+  index("tasks_created_at_idx").on(table.createdAt),
+  index("tasks_workspace_id_idx").on(table.workspaceId),
+]);
+export type TaskRow = typeof tasks.$inferSelect;
+
+export const logs = pgTable("logs", {
+  id: varchar("id").primaryKey(),
+  taskId: varchar("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  timestamp: bigint("timestamp", { mode: "number" }).notNull(),
+  level: text("level").$type<LogLevel>().notNull(),
+  message: text("message").notNull(),
+  details: jsonb("details"),
+  // Inline screenshot of logs written before screenshot_id; DbStorage.migrate() moves it to the screenshot store
+  screenshot: text("screenshot"),
+  screenshotId: text("screenshot_id"),
+}, (table) => [
+  index("logs_task_id_idx").on(table.taskId),
+  index("logs_screenshot_id_idx").on(table.screenshotId),
+]);
+export type LogRow = typeof logs.$inferSelect;
+
+export const replayActions = pgTable("replay_actions", {
+  id: serial("id").primaryKey(),
+  taskId: varchar("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  function: text("function").notNull(),
+  arguments: jsonb("arguments").$type<Record<string, any>>().notNull(),
+  checkpoint: jsonb("checkpoint").$type<ReplayCheckpoint>(),
+  revision: integer("revision"),
+  server: text("server"),
+}, (table) => [
+  index("replay_actions_task_id_idx").on(table.taskId),
+]);
+export type ReplayActionRow = typeof replayActions.$inferSelect;
+
+// Secret values are stored encrypted (see server/secrets.ts)
+export const secrets = pgTable("secrets", {
+  workspaceId: varchar("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  name: varchar("name").notNull(),
+  ciphertext: text("ciphertext").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.workspaceId, table.name] }),
+]);
+export type SecretRow = typeof secrets.$inferSelect;
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey(),
+  username: text("username").notNull(),
+  passwordHash: text("password_hash").notNull(), // scrypt, see server/auth.ts
+  workspaceId: varchar("workspace_id").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  uniqueIndex("users_username_idx").on(table.username),
+]);
+export type UserRow = typeof users.$inferSelect;
+
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull(), // sha256 of the key
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  uniqueIndex("api_keys_key_hash_idx").on(table.keyHash),
+  index("api_keys_user_id_idx").on(table.userId),
+]);
+export type ApiKeyRow = typeof apiKeys.$inferSelect;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { ReplayAction, ReplayState } from "./schema";
+import { fillTemplate, findTemplateVariables, templatizeAction, templatizeReplayState } from "./templates";
+
+const search = (query: string): ReplayAction => ({
+  function: "browserbase_stagehand_act",
+  arguments: { action: `Search for ${query}` },
+  checkpoint: { url: `https://example.com/search?q=${encodeURIComponent(query).replace(/%20/g, "+")}`, screenshotHash: "abc" },
+});
+
+describe("fillTemplate", () => {
+  it("substitutes variables in nested arguments and checkpoint URLs", () => {
+    const action: ReplayAction = {
+      function: "browserbase_stagehand_act",
+      arguments: { observation: { description: "Result for {{ query }}" }, keys: ["{{query}}", 3] },
+      checkpoint: { url: "https://example.com/search?q={{query}}" },
+    };
+
+    expect(fillTemplate(action, { query: "shoes" })).toEqual({
+      function: "browserbase_stagehand_act",
+      arguments: { observation: { description: "Result for shoes" }, keys: ["shoes", 3] },
+      checkpoint: { url: "https://example.com/search?q=shoes" },
+    });
+  });
+
+  it("leaves unknown and namespaced placeholders alone", () => {
+    const action: ReplayAction = { function: "f", arguments: { text: "{{missing}} {{secret:token}}" } };
+
+    expect(fillTemplate(action, {}).arguments.text).toBe("{{missing}} {{secret:token}}");
+  });
+});
+
+describe("templatizeAction", () => {
+  it("replaces literal values, including URL-encoded ones in checkpoints", () => {
+    const templated = templatizeAction(search("red shoes"), { query: "red shoes" });
+
+    expect(templated.arguments.action).toBe("Search for {{query}}");
+    expect(templated.checkpoint?.url).toBe("https://example.com/search?q={{query}}");
+    expect(fillTemplate(templated, { query: "blue hats" }).arguments.action).toBe("Search for blue hats");
+  });
+
+  it("prefers the longest value when one contains another", () => {
+    const templated = templatizeAction(
+      { function: "f", arguments: { text: "Ship to New York, York Street" } },
+      { city: "New York", street: "York" },
+    );
+
+    expect(templated.arguments.text).toBe("Ship to {{city}}, {{street}} Street");
+  });
+});
+
+describe("templatizeReplayState", () => {
+  const recorded: ReplayState = {
+    sessionId: "session-1",
+    revision: 1,
+    actions: [
+      { function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com" }, checkpoint: { url: "https://example.com", screenshotHash: "home" } },
+      search("red shoes"),
+      { function: "browserbase_stagehand_extract", arguments: { instruction: "Get the first price" }, checkpoint: { url: "https://example.com/search?q=red+shoes", screenshotHash: "results" } },
+    ],
+  };
+
+  it("records defaults, bumps the revision and drops screenshot hashes after the first templated step", () => {
+    const { replayState, unused } = templatizeReplayState(recorded, { query: "red shoes" });
+
+    expect(unused).toEqual([]);
+    expect(replayState.revision).toBe(2);
+    expect(replayState.variables).toEqual({ query: "red shoes" });
+    expect(findTemplateVariables(replayState)).toEqual(["query"]);
+    expect(replayState.actions.map((action) => action.checkpoint?.screenshotHash)).toEqual(["home", undefined, undefined]);
+  });
+
+  it("reports values that do not appear in any action", () => {
+    const { unused } = templatizeReplayState(recorded, { query: "red shoes", size: "42" });
+
+    expect(unused).toEqual(["size"]);
+  });
+});
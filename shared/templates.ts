@@ -0,0 +1,114 @@
+import type { ReplayAction, ReplayState } from "./schema";
+
+// {{name}} placeholders in recorded action arguments. Names can't contain ":",
+// so namespaced placeholders such as {{secret:name}} are left alone.
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g;
+
+/**
+ * Apply a transform to every string in a value, descending into arrays and objects
+ */
+export function mapStrings(value: any, transform: (text: string) => string): any {
+  if (typeof value === "string") return transform(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, transform));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)]));
+  }
+  return value;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Names of all {{variables}} used by a replay, in order of first use
+ */
+export function findTemplateVariables(replayState: Pick<ReplayState, "actions">): string[] {
+  const names = new Set<string>();
+  for (const action of replayState.actions) {
+    mapStrings([action.arguments, action.checkpoint?.url], (text) => {
+      for (const match of Array.from(text.matchAll(TEMPLATE_VARIABLE_PATTERN))) {
+        names.add(match[1]);
+      }
+      return text;
+    });
+  }
+  return Array.from(names);
+}
+
+/**
+ * Substitute {{variables}} in an action's arguments and checkpoint URL.
+ * Placeholders without a value are left as-is.
+ */
+export function fillTemplate(action: ReplayAction, variables: Record<string, string>): ReplayAction {
+  const fill = (text: string) => text.replace(TEMPLATE_VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder);
+
+  return {
+    ...action,
+    arguments: mapStrings(action.arguments, fill),
+    checkpoint: action.checkpoint && {
+      ...action.checkpoint,
+      url: action.checkpoint.url && fill(action.checkpoint.url),
+    },
+  };
+}
+
+/**
+ * Turn literal values back into {{variables}}: the inverse of fillTemplate.
+ * Checkpoint URLs also match the URL-encoded form of each value.
+ */
+export function templatizeAction(action: ReplayAction, variables: Record<string, string>): ReplayAction {
+  // Longest values first so a value containing another one wins
+  const entries = Object.entries(variables)
+    .filter(([, value]) => value.length > 0)
+    .sort(([, a], [, b]) => b.length - a.length);
+  const replaceLiterals = (text: string, forms: (value: string) => string[]) =>
+    entries.reduce((result, [name, value]) => forms(value).reduce(
+      (current, form) => current.replace(new RegExp(escapeRegExp(form), "g"), `{{${name}}}`),
+      result,
+    ), text);
+
+  return {
+    ...action,
+    arguments: mapStrings(action.arguments, (text) => replaceLiterals(text, (value) => [value])),
+    checkpoint: action.checkpoint && {
+      ...action.checkpoint,
+      url: action.checkpoint.url && replaceLiterals(action.checkpoint.url, (value) =>
+        Array.from(new Set([value, encodeURIComponent(value), encodeURIComponent(value).replace(/%20/g, "+")]))),
+    },
+  };
+}
+
+/**
+ * Convert a recorded replay into a template by replacing each literal value
+ * with its {{variable}}. Screenshot hashes from the first templated action on
+ * are dropped, since those pages now depend on the variable values. Returns
+ * the names whose value was not found in any action.
+ */
+export function templatizeReplayState(
+  replayState: ReplayState,
+  variables: Record<string, string>,
+): { replayState: ReplayState; unused: string[] } {
+  let templated = false;
+  const actions = replayState.actions.map((action) => {
+    const converted = templatizeAction(action, variables);
+    templated = templated || JSON.stringify(converted) !== JSON.stringify(action);
+    if (templated && converted.checkpoint?.screenshotHash) {
+      const { screenshotHash: _screenshotHash, ...checkpoint } = converted.checkpoint;
+      return { ...converted, checkpoint };
+    }
+    return converted;
+  });
+
+  const used = new Set(findTemplateVariables({ actions }));
+  return {
+    replayState: {
+      ...replayState,
+      actions,
+      variables: { ...replayState.variables, ...variables },
+      revision: (replayState.revision ?? 1) + 1,
+    },
+    unused: Object.keys(variables).filter((name) => !used.has(name)),
+  };
+}
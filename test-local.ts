@@ -1,5 +1,6 @@
 import { McpClient } from "./server/mcp-client.js";
 import { Orchestrator } from "./server/orchestrator.js";
+import { createLlmProvider, resolveLlmSelection } from "./server/llm-provider.js";
 
 // Mock storage for testing
 const mockLogs: any[] = [];
@@ -71,8 +72,11 @@ async function testComplexTask() {
     apiKey: process.env.MCP_API_KEY,
   });
 
+  const llm = resolveLlmSelection();
   const orchestrator = new Orchestrator({
     mcpClient,
+    llm: createLlmProvider(llm.provider),
+    model: llm.model,
     onLog: async (level, message, details) => {
       await mockStorage.addLog({
         taskId: "test-task",
@@ -141,8 +145,11 @@ async function testReplayFlow() {
     apiKey: process.env.MCP_API_KEY,
   });
 
+  const llm = resolveLlmSelection();
   const orchestrator = new Orchestrator({
     mcpClient,
+    llm: createLlmProvider(llm.provider),
+    model: llm.model,
     onLog: async (level, message, details) => {
       await mockStorage.addLog({
         taskId: "test-task",
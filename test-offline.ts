@@ -0,0 +1,211 @@
+import { McpClient } from "./server/mcp-client.js";
+import { Orchestrator } from "./server/orchestrator.js";
+import { Replayer } from "./server/replay.js";
+import { ScriptedLlmProvider } from "./server/llm-provider.js";
+import { MockMcpServer, mockScreenshot } from "./server/mock-mcp-server.js";
+import { MemStorage } from "./server/storage.js";
+import { TaskManager } from "./server/task-manager.js";
+import type { ReplayState, Task } from "./shared/schema.js";
+
+// Offline end-to-end checks: McpClient, Orchestrator and replay against the
+// in-process mock MCP server with a scripted LLM. No network required.
+
+const mockServer = new MockMcpServer({
+  pages: {
+    "https://example.com": {
+      title: "Example Domain",
+      text: "This domain is for use in illustrative examples in documents.",
+      actions: { "more information": "https://www.iana.org/help/example-domains" },
+      elements: [
+        { description: "More information link", selector: "a#more", navigatesTo: "https://www.iana.org/help/example-domains" },
+      ],
+    },
+    "https://www.iana.org/help/example-domains": {
+      title: "Example Domains",
+      extract: { heading: "Example Domains", reserved: ["example.com", "example.net", "example.org"] },
+    },
+  },
+});
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function logTo(logs: Array<{ level: string; message: string }>) {
+  return async (level: string, message: string) => {
+    logs.push({ level, message });
+  };
+}
+
+async function testMcpClient() {
+  console.log("\n=== Testing McpClient against mock server ===\n");
+  const mcpClient = new McpClient({ url: mockServer.url });
+
+  try {
+    await mcpClient.connect();
+    const tools = await mcpClient.listTools();
+    assert(tools.some((tool) => tool.name === "browserbase_stagehand_navigate"), "navigate tool is listed");
+    console.log(`   ✅ Listed ${tools.length} tools`);
+
+    const sessionId = await mcpClient.createSession();
+    assert(mockServer.getSession(sessionId), "session id parsed from sessions/<id>");
+    console.log(`   ✅ Session created: ${sessionId}`);
+
+    await mcpClient.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url: "https://example.com" } });
+    const screenshot = await mcpClient.callFunction({ function: "browserbase_screenshot", arguments: {} });
+    assert(
+      screenshot.screenshot === `data:image/png;base64,${mockScreenshot("https://example.com")}`,
+      "screenshot is deterministic and normalized",
+    );
+    console.log("   ✅ Screenshot extracted and normalized");
+
+    const failed = await mcpClient.callFunction({ function: "browserbase_stagehand_navigate", arguments: { url: "https://unknown.test" } });
+    assert(failed.error?.includes("ERR_NAME_NOT_RESOLVED"), "tool error is returned as an error");
+    console.log("   ✅ Tool error surfaced");
+
+    await mcpClient.close();
+    assert(mockServer.getSession(sessionId)?.closed, "session closed on close()");
+    return { success: true };
+  } catch (error) {
+    console.error("   ❌ Error:", error instanceof Error ? error.message : error);
+    return { success: false };
+  }
+}
+
+async function testOrchestrator(): Promise<{ success: boolean; replayState?: ReplayState }> {
+  console.log("\n=== Testing Orchestrator with scripted LLM ===\n");
+  const llm = new ScriptedLlmProvider([
+    ScriptedLlmProvider.toolCall("browserbase_stagehand_navigate", { url: "https://example.com" }),
+    ScriptedLlmProvider.toolCall("browserbase_stagehand_act", { action: "Click the more information link" }),
+    ScriptedLlmProvider.toolCall("browserbase_stagehand_extract", { instruction: "Extract the reserved domains" }),
+    ScriptedLlmProvider.reply("The reserved domains are example.com, example.net and example.org"),
+  ]);
+  const logs: Array<{ level: string; message: string }> = [];
+  const orchestrator = new Orchestrator({
+    mcpClient: new McpClient({ url: mockServer.url }),
+    llm,
+    model: "scripted",
+    onLog: logTo(logs),
+  });
+
+  try {
+    const result = await orchestrator.execute("Find the reserved example domains");
+    assert(result.success, `task succeeded (${result.error})`);
+    console.log(`   ✅ Task completed: ${result.result}`);
+
+    const imageRequests = llm.requests.filter((request) =>
+      request.messages.some((message) => message.role === "user" && Array.isArray(message.content)));
+    assert(imageRequests.length >= 2, "screenshots were sent to the LLM");
+    console.log(`   ✅ ${imageRequests.length} LLM requests included screenshots`);
+
+    const replayState = orchestrator.getReplayState();
+    assert(replayState && replayState.actions.length === 3, "navigate, act and extract were recorded");
+    console.log(`   ✅ Replay state recorded ${replayState.actions.length} actions`);
+    return { success: true, replayState };
+  } catch (error) {
+    console.error("   ❌ Error:", error instanceof Error ? error.message : error);
+    return { success: false };
+  }
+}
+
+async function testReplay(replayState: ReplayState | undefined) {
+  console.log("\n=== Testing deterministic replay ===\n");
+  if (!replayState) {
+    console.error("   ❌ No replay state from orchestrator test");
+    return { success: false };
+  }
+
+  const logs: Array<{ level: string; message: string }> = [];
+  const replayer = new Replayer({ mcpClient: new McpClient({ url: mockServer.url }), onLog: logTo(logs) });
+
+  try {
+    const callsBefore = mockServer.calls.length;
+    await replayer.run(replayState);
+    assert(!logs.some((log) => log.level === "error"), "replay logged no errors");
+    const replayed = mockServer.calls.slice(callsBefore).map((call) => call.name);
+    assert(replayed.includes("browserbase_stagehand_extract"), "extract was replayed");
+    assert(
+      mockServer.calls.slice(callsBefore).every((call) => call.name === "browserbase_session_create" || call.arguments.sessionId === replayState.sessionId),
+      "every replayed call used the recorded session",
+    );
+    console.log(`   ✅ Replayed ${replayState.actions.length} actions (${replayed.length} tool calls)`);
+    return { success: true };
+  } catch (error) {
+    console.error("   ❌ Error:", error instanceof Error ? error.message : error);
+    return { success: false };
+  }
+}
+
+async function testReplayTask(replayState: ReplayState | undefined) {
+  console.log("\n=== Testing queued replay through TaskManager ===\n");
+  if (!replayState) {
+    console.error("   ❌ No replay state from orchestrator test");
+    return { success: false };
+  }
+
+  process.env.MCP_SERVER_URL = mockServer.url;
+  const storage = new MemStorage();
+  let manager: TaskManager | undefined;
+  const finished = new Promise<Task>((resolve) => {
+    manager = new TaskManager({
+      storage,
+      concurrency: 1,
+      onLog: () => {},
+      onTaskUpdate: (task) => {
+        if (task.status === "completed" || task.status === "failed") resolve(task);
+      },
+    });
+
+    storage.createTask({ prompt: "Find the reserved example domains" })
+      .then((original) => storage.updateTask(original.id, { status: "completed", replayState }))
+      .then((original) => manager!.replay(original!));
+  });
+
+  try {
+    const replayTask = await finished;
+    assert(replayTask.status === "completed", `replay task completed (${replayTask.error})`);
+    const logs = await storage.getTaskLogs(replayTask.id);
+    const screenshotLog = logs.find((log) => log.screenshotId);
+    assert(screenshotLog, "replay logs include screenshots");
+    assert(await storage.getScreenshot(screenshotLog!.screenshotId!, "thumbnail"), "screenshot thumbnails are served");
+    console.log(`   ✅ Replay task ${replayTask.id} completed with ${logs.length} logs`);
+    return { success: true };
+  } catch (error) {
+    console.error("   ❌ Error:", error instanceof Error ? error.message : error);
+    return { success: false };
+  } finally {
+    await manager?.close();
+  }
+}
+
+async function runTests() {
+  console.log("🧪 Starting Offline Test Suite\n");
+  await mockServer.start();
+  console.log(`Mock MCP server listening on ${mockServer.url}`);
+
+  try {
+    const clientTest = await testMcpClient();
+    const orchestratorTest = await testOrchestrator();
+    const replayTest = await testReplay(orchestratorTest.replayState);
+    const replayTaskTest = await testReplayTask(orchestratorTest.replayState);
+
+    console.log("\n=== Test Summary ===");
+    console.log(`McpClient: ${clientTest.success ? "✅ PASS" : "❌ FAIL"}`);
+    console.log(`Orchestrator: ${orchestratorTest.success ? "✅ PASS" : "❌ FAIL"}`);
+    console.log(`Replay: ${replayTest.success ? "✅ PASS" : "❌ FAIL"}`);
+    console.log(`Replay Task: ${replayTaskTest.success ? "✅ PASS" : "❌ FAIL"}`);
+
+    const passed = [clientTest, orchestratorTest, replayTest, replayTaskTest].every((test) => test.success);
+    console.log(passed ? "\n✅ All tests passed!" : "\n❌ Some tests failed!");
+    process.exitCode = passed ? 0 : 1;
+  } finally {
+    await mockServer.stop();
+  }
+}
+
+runTests().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});